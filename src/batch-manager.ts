@@ -10,11 +10,29 @@
  * - Reduces HTTP overhead
  * - Optimizes rate limiting
  * - Better performance for high-volume scenarios
+ *
+ * With a write-ahead log (optional), queued items survive crashes and restarts:
+ * unacknowledged items are recovered into the queue on construction.
  */
 
+import { defaultLogger } from './logger';
+import type { BatchWal } from './batch-wal';
+import type { Logger } from './logger';
+
 export interface BatchItem<TPayload> {
   payload: TPayload;
   webhookName?: string;
+  /** Settles the caller's delivery promise (optional) */
+  resolve?: (result: unknown) => void;
+  /** Rejects the caller's delivery promise (optional) */
+  reject?: (error: Error) => void;
+  /** Removes the item from the write-ahead log (only when a WAL is configured) */
+  ack?: () => void;
+}
+
+export interface BatchItemCallbacks {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
 }
 
 export interface BatchManagerOptions {
@@ -26,19 +44,42 @@ export interface BatchManagerOptions {
   onFlush: (batch: Array<BatchItem<unknown>>) => Promise<void>;
   /** Whether to flush pending items on destroy */
   flushOnDestroy?: boolean;
+  /** Write-ahead log for durable queueing (optional) */
+  wal?: BatchWal;
+  /** Receives WAL failures (default: console) */
+  logger?: Logger;
 }
 
 export class BatchManager<TPayload> {
   private queue: Array<BatchItem<TPayload>> = [];
   private timer?: NodeJS.Timeout;
-  private readonly options: Required<BatchManagerOptions>;
+  private readonly options: Required<Omit<BatchManagerOptions, 'wal' | 'logger'>>;
+  private readonly wal?: BatchWal;
+  private readonly logger: Logger;
   private flushing = false;
+  /** Flush in progress, awaited by later flush() and destroy() calls */
+  private inFlight?: Promise<void>;
 
   constructor(options: BatchManagerOptions) {
     this.options = {
-      ...options,
+      size: options.size,
+      intervalMs: options.intervalMs,
+      onFlush: options.onFlush,
       flushOnDestroy: options.flushOnDestroy ?? true,
     };
+    this.wal = options.wal;
+    this.logger = options.logger ?? defaultLogger();
+
+    // Recover items left unacknowledged by a previous run
+    if (this.wal) {
+      for (const entry of this.wal.recover()) {
+        this.enqueue({
+          payload: entry.payload as TPayload,
+          webhookName: entry.webhookName,
+          ack: this.createAck(entry.id),
+        });
+      }
+    }
 
     // Start interval timer
     this.startTimer();
@@ -46,9 +87,22 @@ export class BatchManager<TPayload> {
 
   /**
    * Add item to batch queue
+   * Callbacks, when given, travel with the item so onFlush can settle it
    */
-  add(payload: TPayload, webhookName?: string): void {
-    this.queue.push({ payload, webhookName });
+  add(payload: TPayload, webhookName?: string, callbacks?: BatchItemCallbacks): void {
+    const item: BatchItem<TPayload> = { payload, webhookName, ...callbacks };
+    if (this.wal) {
+      item.ack = this.createAck(this.wal.append(payload, webhookName));
+    }
+
+    this.enqueue(item);
+  }
+
+  /**
+   * Queue item (new or recovered)
+   */
+  private enqueue(item: BatchItem<TPayload>): void {
+    this.queue.push(item);
 
     // Auto-flush if batch size reached
     if (this.queue.length >= this.options.size) {
@@ -61,24 +115,28 @@ export class BatchManager<TPayload> {
 
   /**
    * Force flush of pending items
+   * Flushes never overlap: a flush in progress is awaited first, then the items
+   * queued meanwhile are sent
    */
   async flush(): Promise<void> {
-    // Prevent concurrent flushes
-    if (this.flushing || this.queue.length === 0) {
-      return;
+    // Errors of another caller's flush are reported to that caller
+    while (this.inFlight) {
+      await this.inFlight.catch(() => undefined);
     }
 
-    this.flushing = true;
+    if (this.queue.length === 0) {
+      return;
+    }
 
-    try {
-      // Take all items from queue
-      const batch = this.queue.splice(0, this.queue.length);
+    // Take all items from queue
+    const batch = this.queue.splice(0, this.queue.length);
 
-      // Send batch
-      await this.options.onFlush(batch as Array<BatchItem<unknown>>);
-    } finally {
+    this.flushing = true;
+    this.inFlight = this.options.onFlush(batch as Array<BatchItem<unknown>>).finally(() => {
       this.flushing = false;
-    }
+      this.inFlight = undefined;
+    });
+    await this.inFlight;
   }
 
   /**
@@ -95,6 +153,19 @@ export class BatchManager<TPayload> {
     return this.flushing;
   }
 
+  /**
+   * Acknowledge once; WAL write errors must not break delivery
+   */
+  private createAck(id: string): () => void {
+    return () => {
+      try {
+        this.wal?.ack(id);
+      } catch (error) {
+        this.logger.error('Failed to acknowledge batch item in WAL', { id, error });
+      }
+    };
+  }
+
   /**
    * Start interval timer for auto-flush
    */
@@ -121,12 +192,21 @@ export class BatchManager<TPayload> {
       this.timer = undefined;
     }
 
-    // Flush pending items if configured
-    if (this.options.flushOnDestroy && this.queue.length > 0) {
-      await this.flush();
+    // Flush pending items if configured (after the flush in progress, if any)
+    if (this.options.flushOnDestroy) {
+      while (this.inFlight || this.queue.length > 0) {
+        await this.flush();
+      }
     } else {
-      // Just clear queue
-      this.queue = [];
+      // Let the flush in progress finish before dropping what was queued meanwhile
+      await this.inFlight?.catch(() => undefined);
+
+      // Just clear queue, letting waiting callers know their items were dropped
+      // (WAL items stay unacknowledged and are recovered on next start)
+      const dropped = this.queue.splice(0, this.queue.length);
+      dropped.forEach((item) => {
+        item.reject?.(new Error('Batch destroyed before item was sent'));
+      });
     }
   }
 }
@@ -0,0 +1,154 @@
+/**
+ * Batch Write-Ahead Log
+ *
+ * Makes the batch queue durable across crashes and restarts.
+ * - Every queued item is appended to a JSONL log before add() returns
+ * - Items are acknowledged once they no longer need delivery (sent, dead-lettered...)
+ * - On startup, unacknowledged items are recovered and queued again
+ *
+ * Delivery is at-least-once: an item sent right before a crash (but not yet
+ * acknowledged) is sent again on recovery. A log file must be owned by a single
+ * process at a time.
+ *
+ * Writes are synchronous on purpose: an item is only reported as queued once
+ * it is on disk, and the log stays consistent if the process dies mid-flush.
+ */
+
+import { appendFileSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { randomUUID } from 'crypto';
+
+export interface BatchWalOptions {
+  /** Path of the log file (created on demand) */
+  path: string;
+  /** Rewrite the log once it holds this many records and pending items (default: 1000) */
+  compactThreshold?: number;
+}
+
+export interface BatchWalEntry<TPayload> {
+  id: string;
+  payload: TPayload;
+  webhookName?: string;
+}
+
+type WalRecord<TPayload> =
+  | ({ op: 'add' } & BatchWalEntry<TPayload>)
+  | { op: 'ack'; id: string };
+
+export class BatchWal<TPayload = unknown> {
+  private readonly path: string;
+  private readonly compactThreshold: number;
+  private readonly pending = new Map<string, BatchWalEntry<TPayload>>();
+  private records = 0;
+
+  constructor(options: BatchWalOptions) {
+    this.path = options.path;
+    this.compactThreshold = options.compactThreshold ?? 1000;
+  }
+
+  /**
+   * Load unacknowledged items (in insertion order) and compact the log
+   */
+  recover(): Array<BatchWalEntry<TPayload>> {
+    this.pending.clear();
+
+    let content = '';
+    try {
+      content = readFileSync(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      let record: WalRecord<TPayload>;
+      try {
+        record = JSON.parse(line) as WalRecord<TPayload>;
+      } catch {
+        // Partial line from an interrupted append
+        continue;
+      }
+
+      if (record.op === 'add') {
+        this.pending.set(record.id, {
+          id: record.id,
+          payload: record.payload,
+          webhookName: record.webhookName,
+        });
+      } else if (record.op === 'ack') {
+        this.pending.delete(record.id);
+      }
+    }
+
+    if (content) {
+      this.compact();
+    }
+    return Array.from(this.pending.values());
+  }
+
+  /**
+   * Persist a new item
+   * @returns Item id, used to acknowledge it later
+   */
+  append(payload: TPayload, webhookName?: string): string {
+    const id = randomUUID();
+    this.write({ op: 'add', id, payload, webhookName });
+    this.pending.set(id, { id, payload, webhookName });
+    return id;
+  }
+
+  /**
+   * Mark item as done (ignores unknown or already acknowledged ids)
+   */
+  ack(id: string): void {
+    if (!this.pending.delete(id)) {
+      return;
+    }
+
+    // Nothing left to recover: start over with an empty log
+    if (this.pending.size === 0) {
+      this.compact();
+      return;
+    }
+
+    this.write({ op: 'ack', id });
+    if (this.records >= this.compactThreshold + this.pending.size) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Number of unacknowledged items
+   */
+  size(): number {
+    return this.pending.size;
+  }
+
+  private write(record: WalRecord<TPayload>): void {
+    if (this.records === 0) {
+      mkdirSync(dirname(this.path), { recursive: true });
+    }
+    appendFileSync(this.path, `${JSON.stringify(record)}\n`, 'utf8');
+    this.records++;
+  }
+
+  /**
+   * Rewrite the log with pending items only (atomic: tmp + rename)
+   */
+  private compact(): void {
+    const tmpPath = `${this.path}.${process.pid}.tmp`;
+    const content = Array.from(this.pending.values())
+      .map((entry) => `${JSON.stringify({ op: 'add', ...entry })}\n`)
+      .join('');
+
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(tmpPath, content, 'utf8');
+    renameSync(tmpPath, this.path);
+    this.records = this.pending.size;
+  }
+}
@@ -2,19 +2,23 @@
  * Card Builder
  *
  * Builds Google Chat card payloads with optional threading support.
+ * Schemas may return the neutral card model instead; it is converted to Cards v2,
+ * the format used internally until a platform renderer takes over.
+ * Rendered cards are checked against Google Chat limits before sending:
+ * - 'strict' (default): throw CardValidationError
+ * - 'lenient': truncate long texts and split oversized cards into continuation messages
+ * - 'off': send as rendered
  */
 
+import { assertValidCard, CARD_LIMITS, fitCard, type CardLimits, type CardValidationMode } from './card-validator';
+import { isNeutralMessage, toGoogleCard } from './channels/neutral';
 import type { EventSchema } from './schemas/base-schema';
+import type { CardPayload } from './types';
 
 export interface CardBuilderOptions {
   maxMessage?: number;
-}
-
-interface CardPayload {
-  cardsV2: Array<{
-    cardId: string;
-    card: unknown;
-  }>;
+  validation?: CardValidationMode;
+  limits?: CardLimits;
 }
 
 export class CardBuilder<TPayload, TEvent extends string = string> {
@@ -25,11 +29,37 @@ export class CardBuilder<TPayload, TEvent extends string = string> {
 
   /**
    * Build Google Chat card for an event
+   * Attaches thread.threadKey when the schema provides one
    */
   buildCard(payload: TPayload): CardPayload {
     const maxMessage = this.options.maxMessage ?? 4000;
-    const card = this.schema.buildCard(payload, { maxMessage });
+    const rendered = this.schema.buildCard(payload, { maxMessage });
+    const card = isNeutralMessage(rendered) ? toGoogleCard(rendered) : rendered;
+
+    const threadKey = this.schema.getThreadKey?.(payload);
+    if (threadKey) {
+      return { ...card, thread: { ...card.thread, threadKey } };
+    }
 
     return card;
   }
+
+  /**
+   * Build and validate the messages for an event
+   * Always at least one message; more only in lenient mode (continuations, same thread)
+   */
+  buildMessages(payload: TPayload): CardPayload[] {
+    const card = this.buildCard(payload);
+    const limits = this.options.limits ?? CARD_LIMITS;
+
+    switch (this.options.validation ?? 'strict') {
+      case 'off':
+        return [card];
+      case 'lenient':
+        return fitCard(card, limits);
+      default:
+        assertValidCard(card, limits);
+        return [card];
+    }
+  }
 }
@@ -0,0 +1,398 @@
+/**
+ * Card Validator
+ *
+ * Checks rendered cards against the Google Chat limits before anything is sent,
+ * so a bad card fails locally with a descriptive error instead of a bare HTTP 400.
+ *
+ * - validateCard(): list every issue (required fields, counts, text lengths, message size)
+ * - assertValidCard(): strict mode, throws CardValidationError
+ * - fitCard(): lenient mode, truncates long texts and splits oversized cards into
+ *   continuation cards/messages; throws only when the card cannot be fixed
+ */
+
+import { CardValidationError, type CardValidationIssue } from './errors';
+import { CHAT_LIMITS, messageBytes, type PackLimits } from './message-packer';
+import { truncateMessage } from './utils/truncate';
+import type { CardPayload } from './types';
+import type { CardButton, CardColumn, CardSection, CardWidget } from './cards/types';
+
+type CardEntry = CardPayload['cardsV2'][number];
+
+export type CardValidationMode = 'strict' | 'lenient' | 'off';
+
+export interface CardLimits extends PackLimits {
+  /** Maximum sections in a single card */
+  maxSectionsPerCard: number;
+  /** Maximum characters in a single text field */
+  maxTextLength: number;
+}
+
+/**
+ * Google Chat card limits (conservative defaults)
+ */
+export const CARD_LIMITS: CardLimits = {
+  ...CHAT_LIMITS,
+  maxSectionsPerCard: 100,
+  maxTextLength: 4096,
+};
+
+/** Text properties truncated in lenient mode */
+const TEXT_FIELDS = new Set(['text', 'title', 'subtitle', 'topLabel', 'bottomLabel', 'header']);
+
+/** Widgets Google Chat renders inside a column */
+const COLUMN_WIDGETS = new Set(['textParagraph', 'decoratedText', 'buttonList', 'image']);
+
+/**
+ * List every problem found in a message
+ */
+export function validateCard(
+  payload: CardPayload,
+  limits: CardLimits = CARD_LIMITS,
+): CardValidationIssue[] {
+  const issues: CardValidationIssue[] = [];
+  const report = (path: string, message: string): void => {
+    issues.push({ path, message });
+  };
+
+  if (!Array.isArray(payload.cardsV2) || payload.cardsV2.length === 0) {
+    report('cardsV2', 'must contain at least one card');
+    return issues;
+  }
+  if (payload.cardsV2.length > limits.maxCardsPerMessage) {
+    report('cardsV2', `has ${payload.cardsV2.length} cards (max ${limits.maxCardsPerMessage})`);
+  }
+
+  payload.cardsV2.forEach((entry, index) => validateEntry(entry, `cardsV2[${index}]`, limits, report));
+
+  const bytes = messageBytes(payload);
+  if (bytes > limits.maxMessageBytes) {
+    report('message', `is ${bytes} bytes (max ${limits.maxMessageBytes})`);
+  }
+
+  return issues;
+}
+
+/**
+ * Strict mode: throw when the message has any issue
+ */
+export function assertValidCard(payload: CardPayload, limits: CardLimits = CARD_LIMITS): void {
+  const issues = validateCard(payload, limits);
+  if (issues.length > 0) {
+    throw new CardValidationError(issues);
+  }
+}
+
+/**
+ * Lenient mode: fix what can be fixed and split what does not fit
+ * @returns One or more messages (continuations share the original thread)
+ */
+export function fitCard(payload: CardPayload, limits: CardLimits = CARD_LIMITS): CardPayload[] {
+  // Returns a copy: the caller's payload is never modified
+  const fixed = truncateTexts(payload, limits.maxTextLength) as CardPayload;
+
+  // Empty sections are rejected by Chat and carry no information
+  const cards = (fixed.cardsV2 ?? []).map((entry) => ({
+    ...entry,
+    card: entry.card && {
+      ...entry.card,
+      sections: entry.card.sections?.filter((section) => section.widgets?.length > 0),
+    },
+  }));
+
+  // Structural problems cannot be fixed by splitting
+  const structural = validateCard({ ...fixed, cardsV2: cards }, {
+    ...limits,
+    maxMessageBytes: Infinity,
+    maxCardsPerMessage: Infinity,
+    maxWidgetsPerCard: Infinity,
+    maxSectionsPerCard: Infinity,
+  });
+  if (structural.length > 0) {
+    throw new CardValidationError(structural);
+  }
+
+  const thread = fixed.thread ? { thread: fixed.thread } : {};
+  const messages = packIntoMessages(
+    cards.flatMap((entry) => splitCard(entry, thread, limits)),
+    thread,
+    limits,
+  );
+
+  // Anything still over the limits (e.g. a single huge widget) is reported
+  for (const message of messages) {
+    assertValidCard(message, limits);
+  }
+
+  return messages;
+}
+
+function validateEntry(
+  entry: CardEntry,
+  path: string,
+  limits: CardLimits,
+  report: (path: string, message: string) => void,
+): void {
+  if (!entry.cardId) {
+    report(`${path}.cardId`, 'is required');
+  }
+
+  const card = entry.card;
+  if (!card) {
+    report(`${path}.card`, 'is required');
+    return;
+  }
+
+  if (card.header) {
+    checkText(card.header.title, `${path}.card.header.title`, true, limits, report);
+    checkText(card.header.subtitle, `${path}.card.header.subtitle`, false, limits, report);
+  }
+
+  if (!Array.isArray(card.sections) || card.sections.length === 0) {
+    report(`${path}.card.sections`, 'must contain at least one section');
+    return;
+  }
+  if (card.sections.length > limits.maxSectionsPerCard) {
+    report(
+      `${path}.card.sections`,
+      `has ${card.sections.length} sections (max ${limits.maxSectionsPerCard})`,
+    );
+  }
+
+  const widgets = countWidgets(card.sections);
+  if (widgets > limits.maxWidgetsPerCard) {
+    report(`${path}.card.sections`, `has ${widgets} widgets (max ${limits.maxWidgetsPerCard})`);
+  }
+
+  card.sections.forEach((section, index) => {
+    const sectionPath = `${path}.card.sections[${index}]`;
+    checkText(section.header, `${sectionPath}.header`, false, limits, report);
+
+    if (!Array.isArray(section.widgets) || section.widgets.length === 0) {
+      report(`${sectionPath}.widgets`, 'must contain at least one widget');
+      return;
+    }
+    section.widgets.forEach((widget, widgetIndex) => {
+      validateWidget(widget, `${sectionPath}.widgets[${widgetIndex}]`, false, limits, report);
+    });
+  });
+}
+
+function validateWidget(
+  widget: CardWidget,
+  path: string,
+  inColumn: boolean,
+  limits: CardLimits,
+  report: (path: string, message: string) => void,
+): void {
+  const types = Object.keys(widget ?? {});
+  if (types.length !== 1) {
+    report(path, `must have exactly one widget type (found ${types.length})`);
+    return;
+  }
+
+  const [type] = types;
+  if (inColumn && !COLUMN_WIDGETS.has(type)) {
+    report(`${path}.${type}`, 'is not allowed inside columns');
+    return;
+  }
+
+  if ('textParagraph' in widget) {
+    checkText(widget.textParagraph?.text, `${path}.textParagraph.text`, true, limits, report);
+  } else if ('decoratedText' in widget) {
+    const text = widget.decoratedText;
+    checkText(text?.text, `${path}.decoratedText.text`, true, limits, report);
+    checkText(text?.topLabel, `${path}.decoratedText.topLabel`, false, limits, report);
+    checkText(text?.bottomLabel, `${path}.decoratedText.bottomLabel`, false, limits, report);
+    if (text?.endIcon && text.button) {
+      report(`${path}.decoratedText`, 'endIcon and button are mutually exclusive');
+    }
+    if (text?.button) {
+      validateButton(text.button, `${path}.decoratedText.button`, limits, report);
+    }
+  } else if ('buttonList' in widget) {
+    const buttons = widget.buttonList?.buttons;
+    if (!Array.isArray(buttons) || buttons.length === 0) {
+      report(`${path}.buttonList.buttons`, 'must contain at least one button');
+      return;
+    }
+    buttons.forEach((button, index) => {
+      validateButton(button, `${path}.buttonList.buttons[${index}]`, limits, report);
+    });
+  } else if ('image' in widget) {
+    if (!widget.image?.imageUrl) {
+      report(`${path}.image.imageUrl`, 'is required');
+    }
+  } else if ('grid' in widget) {
+    if (!Array.isArray(widget.grid?.items) || widget.grid.items.length === 0) {
+      report(`${path}.grid.items`, 'must contain at least one item');
+    }
+  } else if ('columns' in widget) {
+    // Typed as a 1-2 tuple, but payloads may come from untyped schemas
+    const columns = widget.columns?.columnItems as CardColumn[] | undefined;
+    if (!Array.isArray(columns) || columns.length === 0 || columns.length > 2) {
+      report(`${path}.columns.columnItems`, 'must contain one or two columns');
+      return;
+    }
+    columns.forEach((column, index) => {
+      const columnPath = `${path}.columns.columnItems[${index}]`;
+      if (!Array.isArray(column.widgets) || column.widgets.length === 0) {
+        report(`${columnPath}.widgets`, 'must contain at least one widget');
+        return;
+      }
+      column.widgets.forEach((nested, nestedIndex) => {
+        validateWidget(nested, `${columnPath}.widgets[${nestedIndex}]`, true, limits, report);
+      });
+    });
+  } else if (!('divider' in widget)) {
+    report(path, `has unknown widget type '${type}'`);
+  }
+}
+
+function validateButton(
+  button: CardButton,
+  path: string,
+  limits: CardLimits,
+  report: (path: string, message: string) => void,
+): void {
+  if (!button.text && !button.icon) {
+    report(path, 'needs text or icon');
+  }
+  checkText(button.text, `${path}.text`, false, limits, report);
+  if (!button.onClick?.openLink?.url) {
+    report(`${path}.onClick.openLink.url`, 'is required');
+  }
+}
+
+function checkText(
+  value: unknown,
+  path: string,
+  required: boolean,
+  limits: CardLimits,
+  report: (path: string, message: string) => void,
+): void {
+  if (value === undefined || value === null || value === '') {
+    if (required) {
+      report(path, 'is required');
+    }
+    return;
+  }
+  if (typeof value !== 'string') {
+    report(path, 'must be a string');
+    return;
+  }
+  if (value.length > limits.maxTextLength) {
+    report(path, `has ${value.length} characters (max ${limits.maxTextLength})`);
+  }
+}
+
+function countWidgets(sections: CardSection[]): number {
+  return sections.reduce((total, section) => total + (section.widgets?.length ?? 0), 0);
+}
+
+/**
+ * Truncate long text properties anywhere in the payload
+ */
+function truncateTexts(value: unknown, maxLength: number): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => truncateTexts(item, maxLength));
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, nested] of Object.entries(value)) {
+      result[key] =
+        typeof nested === 'string' && TEXT_FIELDS.has(key)
+          ? truncateMessage(nested, maxLength)
+          : truncateTexts(nested, maxLength);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Split a card into continuation cards that each fit in a message on their own
+ * Widgets keep their order and their section header; titles get a (n/total) suffix.
+ */
+function splitCard(
+  entry: CardEntry,
+  thread: Pick<CardPayload, 'thread'>,
+  limits: CardLimits,
+): CardEntry[] {
+  const header = entry.card.header;
+  // Reserve room for the " (n/total)" suffix while measuring
+  const measuredHeader = header && { ...header, title: `${header.title} (00/00)` };
+  const fits = (sections: CardSection[]): boolean =>
+    sections.length <= limits.maxSectionsPerCard &&
+    countWidgets(sections) <= limits.maxWidgetsPerCard &&
+    messageBytes({
+      ...thread,
+      cardsV2: [{ cardId: entry.cardId, card: { header: measuredHeader, sections } }],
+    }) <= limits.maxMessageBytes;
+
+  const parts: CardSection[][] = [[]];
+  for (const section of entry.card.sections) {
+    let target: CardSection | undefined;
+
+    for (const widget of section.widgets) {
+      const current = parts[parts.length - 1];
+      if (!target) {
+        target = { ...section, widgets: [] };
+        current.push(target);
+      }
+      target.widgets.push(widget);
+
+      if (!fits(current) && countWidgets(current) > 1) {
+        // Move the widget to a new continuation card
+        target.widgets.pop();
+        if (target.widgets.length === 0) {
+          current.pop();
+        }
+        target = { ...section, widgets: [widget] };
+        parts.push([target]);
+      }
+    }
+  }
+
+  if (parts.length === 1) {
+    return [entry];
+  }
+
+  return parts.map((sections, index) => ({
+    cardId: index === 0 ? entry.cardId : `${entry.cardId}-${index + 1}`,
+    card: {
+      ...(header && { header: { ...header, title: `${header.title} (${index + 1}/${parts.length})` } }),
+      sections,
+    },
+  }));
+}
+
+/**
+ * Group cards into as few messages as the limits allow, in order
+ */
+function packIntoMessages(
+  cards: CardEntry[],
+  thread: Pick<CardPayload, 'thread'>,
+  limits: CardLimits,
+): CardPayload[] {
+  const messages: CardPayload[] = [];
+  let current: CardPayload | undefined;
+
+  for (const entry of cards) {
+    if (current) {
+      const candidate = { ...current, cardsV2: [...current.cardsV2, entry] };
+      if (
+        candidate.cardsV2.length <= limits.maxCardsPerMessage &&
+        messageBytes(candidate) <= limits.maxMessageBytes
+      ) {
+        current = candidate;
+        messages[messages.length - 1] = current;
+        continue;
+      }
+    }
+
+    current = { ...thread, cardsV2: [entry] };
+    messages.push(current);
+  }
+
+  return messages;
+}
@@ -0,0 +1,222 @@
+/**
+ * Fluent Card Builder
+ *
+ * Typed builder for Google Chat Cards v2, so schemas never hand-write the wire format:
+ *
+ *   card('deploy')
+ *     .header('🚀 Deploy', { subtitle: 'api-gateway' })
+ *     .section('Detalhes')
+ *     .decoratedText({ topLabel: 'Versão', text: 'v2.4.1', startIcon: knownIcon('BOOKMARK') })
+ *     .buttonList(linkButton('Abrir pipeline', url))
+ *     .build();
+ *
+ * Structural rules are enforced by the types:
+ * - Widgets can only be added after section() (a card needs at least one section)
+ * - Columns accept only the widgets Chat renders inside a column, and at most two columns
+ * - decoratedText takes either an endIcon or a button
+ */
+
+import type { CardPayload } from '../types';
+import type {
+  CardButton,
+  CardColumn,
+  CardHeader,
+  CardOnClick,
+  CardSection,
+  CardWidget,
+  ColumnWidget,
+  DecoratedText,
+  GridItem,
+  GridWidget,
+} from './types';
+
+export interface SectionOptions {
+  header?: string;
+  /** Collapse the section, showing only the first `uncollapsibleWidgetsCount` widgets */
+  collapsible?: boolean;
+  uncollapsibleWidgetsCount?: number;
+}
+
+export type GridOptions = Omit<GridWidget['grid'], 'items'>;
+
+export type ColumnDefinition = (column: ColumnBuilder) => ColumnBuilder;
+
+/**
+ * State shared by a card and its sections
+ */
+interface CardState {
+  cardId: string;
+  header?: CardHeader;
+  sections: SectionBuilder[];
+}
+
+/**
+ * Widgets available both in sections and in columns
+ */
+abstract class WidgetListBuilder<TWidget extends CardWidget> {
+  protected readonly widgets: TWidget[] = [];
+
+  textParagraph(text: string, options: { maxLines?: number } = {}): this {
+    return this.push({ textParagraph: { text, ...options } } as TWidget);
+  }
+
+  decoratedText(text: string | DecoratedText): this {
+    const decoratedText = typeof text === 'string' ? { text } : text;
+    return this.push({ decoratedText } as TWidget);
+  }
+
+  buttonList(...buttons: CardButton[]): this {
+    return this.push({ buttonList: { buttons } } as TWidget);
+  }
+
+  image(imageUrl: string, options: { altText?: string; onClick?: CardOnClick } = {}): this {
+    return this.push({ image: { imageUrl, ...options } } as TWidget);
+  }
+
+  protected push(widget: TWidget): this {
+    this.widgets.push(widget);
+    return this;
+  }
+}
+
+/**
+ * One column of a columns widget
+ */
+export class ColumnBuilder extends WidgetListBuilder<ColumnWidget> {
+  private layout: Omit<CardColumn, 'widgets'> = {};
+
+  /**
+   * Column alignment inside the row
+   */
+  align(
+    horizontal: NonNullable<CardColumn['horizontalAlignment']>,
+    vertical?: CardColumn['verticalAlignment'],
+  ): this {
+    this.layout = { ...this.layout, horizontalAlignment: horizontal };
+    if (vertical) {
+      this.layout.verticalAlignment = vertical;
+    }
+    return this;
+  }
+
+  /**
+   * How much horizontal space the column takes
+   */
+  size(style: NonNullable<CardColumn['horizontalSizeStyle']>): this {
+    this.layout = { ...this.layout, horizontalSizeStyle: style };
+    return this;
+  }
+
+  /** @internal */
+  toColumn(): CardColumn {
+    return { ...this.layout, widgets: [...this.widgets] };
+  }
+}
+
+/**
+ * Section being built; widget methods append to it
+ */
+export class SectionBuilder extends WidgetListBuilder<CardWidget> {
+  private readonly options: SectionOptions;
+
+  constructor(
+    private readonly state: CardState,
+    header?: string | SectionOptions,
+  ) {
+    super();
+    this.options = typeof header === 'string' ? { header } : { ...header };
+    state.sections.push(this);
+  }
+
+  divider(): this {
+    return this.push({ divider: {} });
+  }
+
+  grid(items: GridItem[], options: GridOptions = {}): this {
+    return this.push({ grid: { ...options, items } });
+  }
+
+  /**
+   * Side-by-side columns (Chat renders at most two)
+   */
+  columns(left: ColumnDefinition, right?: ColumnDefinition): this {
+    const first = left(new ColumnBuilder()).toColumn();
+    const columnItems: [CardColumn] | [CardColumn, CardColumn] = right
+      ? [first, right(new ColumnBuilder()).toColumn()]
+      : [first];
+    return this.push({ columns: { columnItems } });
+  }
+
+  /**
+   * Make this section collapsible
+   * @param visibleWidgets Widgets shown while collapsed (default: 1)
+   */
+  collapsible(visibleWidgets = 1): this {
+    this.options.collapsible = true;
+    this.options.uncollapsibleWidgetsCount = visibleWidgets;
+    return this;
+  }
+
+  /**
+   * Start a new section
+   */
+  section(header?: string | SectionOptions): SectionBuilder {
+    return new SectionBuilder(this.state, header);
+  }
+
+  /**
+   * Build message payload with this card
+   */
+  build(): CardPayload {
+    const { cardId, header, sections } = this.state;
+    return {
+      cardsV2: [
+        {
+          cardId,
+          card: {
+            ...(header && { header }),
+            sections: sections.map((section) => section.toSection()),
+          },
+        },
+      ],
+    };
+  }
+
+  /** @internal */
+  toSection(): CardSection {
+    const { header, collapsible, uncollapsibleWidgetsCount } = this.options;
+    return {
+      ...(header !== undefined && { header }),
+      widgets: [...this.widgets],
+      ...(collapsible && { collapsible, uncollapsibleWidgetsCount }),
+    };
+  }
+}
+
+/**
+ * Card without sections yet: only header() and section() are available
+ */
+export class CardDraft {
+  private readonly state: CardState;
+
+  constructor(cardId: string) {
+    this.state = { cardId, sections: [] };
+  }
+
+  header(title: string, options: Omit<CardHeader, 'title'> = {}): this {
+    this.state.header = { title, ...options };
+    return this;
+  }
+
+  section(header?: string | SectionOptions): SectionBuilder {
+    return new SectionBuilder(this.state, header);
+  }
+}
+
+/**
+ * Start a new card
+ * @param cardId Card identifier (default: 'card')
+ */
+export function card(cardId = 'card'): CardDraft {
+  return new CardDraft(cardId);
+}
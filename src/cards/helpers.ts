@@ -0,0 +1,57 @@
+import type { CardButton, CardColor, CardIcon, CardOnClick, ImageType, KnownIcon } from './types';
+
+/**
+ * Ícone nativo do Google Chat
+ */
+export function knownIcon(name: KnownIcon, altText?: string): CardIcon {
+  return altText ? { knownIcon: name, altText } : { knownIcon: name };
+}
+
+/**
+ * Ícone a partir de uma URL de imagem
+ */
+export function iconUrl(url: string, options: { altText?: string; imageType?: ImageType } = {}): CardIcon {
+  return { iconUrl: url, ...options };
+}
+
+/**
+ * Ícone do Material Symbols (ex: 'check_circle')
+ */
+export function materialIcon(
+  name: string,
+  options: { fill?: boolean; weight?: number; grade?: number; altText?: string } = {},
+): CardIcon {
+  const { altText, ...style } = options;
+  return altText ? { materialIcon: { name, ...style }, altText } : { materialIcon: { name, ...style } };
+}
+
+/**
+ * Ação de clique que abre uma URL
+ */
+export function openLink(url: string): CardOnClick {
+  return { openLink: { url } };
+}
+
+/**
+ * Botão que abre uma URL
+ */
+export function linkButton(
+  text: string,
+  url: string,
+  options: Omit<CardButton, 'text' | 'onClick'> = {},
+): CardButton {
+  return { text, ...options, onClick: openLink(url) };
+}
+
+/**
+ * Converter cor hexadecimal (#RRGGBB) para o formato do Chat (componentes de 0 a 1)
+ */
+export function hexColor(hex: string): CardColor {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) {
+    throw new Error(`Invalid hex color: ${hex}`);
+  }
+
+  const [red, green, blue] = match.slice(1).map((component) => parseInt(component, 16) / 255);
+  return { red, green, blue };
+}
@@ -0,0 +1,4 @@
+export { card, CardDraft, SectionBuilder, ColumnBuilder } from './fluent-card';
+export type { SectionOptions, GridOptions, ColumnDefinition } from './fluent-card';
+export { knownIcon, iconUrl, materialIcon, openLink, linkButton, hexColor } from './helpers';
+export type * from './types';
@@ -0,0 +1,178 @@
+/**
+ * Tipos do formato Cards v2 do Google Chat (subconjunto suportado por webhooks)
+ * Referência: https://developers.google.com/workspace/chat/api/reference/rest/v1/cards
+ */
+
+// ============= ÍCONES E AÇÕES =============
+
+/**
+ * Ícones nativos do Google Chat
+ */
+export type KnownIcon =
+  | 'AIRPLANE'
+  | 'BOOKMARK'
+  | 'BUS'
+  | 'CAR'
+  | 'CLOCK'
+  | 'CONFIRMATION_NUMBER_ICON'
+  | 'DESCRIPTION'
+  | 'DOLLAR'
+  | 'EMAIL'
+  | 'EVENT_SEAT'
+  | 'FLIGHT_ARRIVAL'
+  | 'FLIGHT_DEPARTURE'
+  | 'HOTEL'
+  | 'HOTEL_ROOM_TYPE'
+  | 'INVITE'
+  | 'MAP_PIN'
+  | 'MEMBERSHIP'
+  | 'MULTIPLE_PEOPLE'
+  | 'PERSON'
+  | 'PHONE'
+  | 'RESTAURANT_ICON'
+  | 'SHOPPING_CART'
+  | 'STAR'
+  | 'STORE'
+  | 'TICKET'
+  | 'TRAIN'
+  | 'VIDEO_CAMERA'
+  | 'VIDEO_PLAY';
+
+export type ImageType = 'SQUARE' | 'CIRCLE';
+
+/**
+ * Ícone: nativo, por URL ou Material Symbol (exatamente uma das formas)
+ */
+export type CardIcon =
+  | { knownIcon: KnownIcon; altText?: string }
+  | { iconUrl: string; altText?: string; imageType?: ImageType }
+  | {
+      materialIcon: { name: string; fill?: boolean; weight?: number; grade?: number };
+      altText?: string;
+    };
+
+/**
+ * Ação de clique (webhooks só suportam abrir links)
+ */
+export interface CardOnClick {
+  openLink: { url: string };
+}
+
+export interface CardColor {
+  red: number;
+  green: number;
+  blue: number;
+  alpha?: number;
+}
+
+export interface CardButton {
+  text?: string;
+  icon?: CardIcon;
+  color?: CardColor;
+  onClick: CardOnClick;
+  disabled?: boolean;
+  altText?: string;
+}
+
+// ============= WIDGETS =============
+
+export interface TextParagraphWidget {
+  textParagraph: { text: string; maxLines?: number };
+}
+
+/**
+ * Texto com rótulos e ícones; à direita aceita endIcon ou button (nunca ambos)
+ */
+export type DecoratedText = {
+  topLabel?: string;
+  text: string;
+  bottomLabel?: string;
+  wrapText?: boolean;
+  startIcon?: CardIcon;
+  onClick?: CardOnClick;
+} & (
+  | { endIcon?: CardIcon; button?: never }
+  | { button?: CardButton; endIcon?: never }
+);
+
+export interface DecoratedTextWidget {
+  decoratedText: DecoratedText;
+}
+
+export interface ButtonListWidget {
+  buttonList: { buttons: CardButton[] };
+}
+
+export interface ImageWidget {
+  image: { imageUrl: string; altText?: string; onClick?: CardOnClick };
+}
+
+export interface DividerWidget {
+  divider: Record<string, never>;
+}
+
+export interface GridItem {
+  id?: string;
+  title?: string;
+  subtitle?: string;
+  image?: { imageUri: string; altText?: string };
+  layout?: 'TEXT_BELOW' | 'TEXT_ABOVE';
+}
+
+export interface GridWidget {
+  grid: {
+    title?: string;
+    columnCount?: number;
+    borderStyle?: { type: 'NO_BORDER' | 'STROKE'; cornerRadius?: number };
+    items: GridItem[];
+    onClick?: CardOnClick;
+  };
+}
+
+/**
+ * Widgets permitidos dentro de uma coluna
+ */
+export type ColumnWidget =
+  | TextParagraphWidget
+  | DecoratedTextWidget
+  | ButtonListWidget
+  | ImageWidget;
+
+export interface CardColumn {
+  horizontalSizeStyle?: 'FILL_AVAILABLE_SPACE' | 'FILL_MINIMUM_SPACE';
+  horizontalAlignment?: 'START' | 'CENTER' | 'END';
+  verticalAlignment?: 'CENTER' | 'TOP' | 'BOTTOM';
+  widgets: ColumnWidget[];
+}
+
+export interface ColumnsWidget {
+  /** O Google Chat exibe no máximo 2 colunas */
+  columns: { columnItems: [CardColumn] | [CardColumn, CardColumn] };
+}
+
+export type CardWidget = ColumnWidget | DividerWidget | GridWidget | ColumnsWidget;
+
+// ============= CARD =============
+
+export interface CardHeader {
+  title: string;
+  subtitle?: string;
+  imageUrl?: string;
+  imageType?: ImageType;
+  imageAltText?: string;
+}
+
+export interface CardSection {
+  /** Título da seção (opcional) */
+  header?: string;
+  widgets: CardWidget[];
+  /** Seção recolhível: exibe apenas os primeiros widgets até o usuário expandir */
+  collapsible?: boolean;
+  /** Quantidade de widgets visíveis com a seção recolhida */
+  uncollapsibleWidgetsCount?: number;
+}
+
+export interface Card {
+  header?: CardHeader;
+  sections: CardSection[];
+}
@@ -0,0 +1,28 @@
+import type { CardValidationIssue } from '../errors';
+import type { CardPayload } from '../types';
+import type { Platform } from './types';
+
+/**
+ * Interface base para renderers de plataforma
+ * Converte a mensagem (formato interno Cards v2) no corpo JSON aceito pelo webhook da plataforma.
+ * Recursos sem equivalente na plataforma são adaptados ou descartados.
+ */
+export interface ChannelRenderer {
+  readonly platform: Platform;
+
+  /**
+   * Renderizar mensagem
+   * @param payload Mensagem no formato Cards v2
+   * @returns Corpo da requisição para o webhook
+   */
+  render(payload: CardPayload): unknown;
+
+  /**
+   * Verificar os limites da plataforma (ex: 50 blocos no Slack, 10 embeds no Discord)
+   * Usado pelo batching para não empacotar mais do que a plataforma aceita;
+   * render() rejeita com CardValidationError as mensagens que não cabem.
+   * @param payload Mensagem no formato Cards v2
+   * @returns Problemas encontrados (vazio = mensagem aceita)
+   */
+  validate?(payload: CardPayload): CardValidationIssue[];
+}
@@ -0,0 +1,145 @@
+/**
+ * Discord Renderer
+ *
+ * Renders messages as Discord webhook embeds (one embed per card).
+ * Labeled fields become embed fields; text, section titles and buttons
+ * (as Markdown links, webhooks cannot send link buttons) go to the description.
+ * Titles and field texts are truncated to their limits; messages over 10 embeds,
+ * 4096-character descriptions or 6000 characters in total are rejected with
+ * CardValidationError, never cut.
+ */
+
+import { CardValidationError, type CardValidationIssue } from '../errors';
+import { truncateMessage } from '../utils/truncate';
+import { htmlToMarkdown, htmlToPlainText } from '../utils/markup';
+import { fromGoogleCard } from './neutral';
+import type { CardPayload } from '../types';
+import type { ChannelRenderer } from './base-renderer';
+import type { NeutralCard } from './types';
+
+/** Discord embed limits */
+const MAX_EMBEDS = 10;
+const MAX_TITLE_LENGTH = 256;
+const MAX_DESCRIPTION_LENGTH = 4096;
+const MAX_FIELDS = 25;
+const MAX_FIELD_NAME_LENGTH = 256;
+const MAX_FIELD_VALUE_LENGTH = 1024;
+/** Sum of titles, descriptions and fields of every embed in a message */
+const MAX_TOTAL_LENGTH = 6000;
+
+interface DiscordEmbed {
+  title?: string;
+  description?: string;
+  fields?: Array<{ name: string; value: string; inline: boolean }>;
+  image?: { url: string };
+  thumbnail?: { url: string };
+}
+
+export class DiscordRenderer implements ChannelRenderer {
+  readonly platform = 'discord' as const;
+
+  render(payload: CardPayload): unknown {
+    const embeds = fromGoogleCard(payload).cards.map((card) => this.renderEmbed(card));
+
+    const issues = checkEmbeds(embeds);
+    if (issues.length > 0) {
+      throw new CardValidationError(issues);
+    }
+
+    return { embeds };
+  }
+
+  validate(payload: CardPayload): CardValidationIssue[] {
+    return checkEmbeds(fromGoogleCard(payload).cards.map((card) => this.renderEmbed(card)));
+  }
+
+  private renderEmbed(card: NeutralCard): DiscordEmbed {
+    const lines: string[] = [];
+    const fields: NonNullable<DiscordEmbed['fields']> = [];
+    let image: string | undefined;
+
+    if (card.subtitle) {
+      lines.push(`_${htmlToMarkdown(card.subtitle)}_`);
+    }
+
+    for (const section of card.sections) {
+      if (section.title) {
+        lines.push(`**${htmlToMarkdown(section.title)}**`);
+      }
+
+      for (const block of section.blocks) {
+        switch (block.type) {
+          case 'text':
+            lines.push(htmlToMarkdown(block.text));
+            break;
+          case 'field': {
+            const value = [block.text, block.bottomLabel].filter(Boolean).join('<br>');
+            if (block.label && fields.length < MAX_FIELDS) {
+              fields.push({
+                name: truncateMessage(htmlToPlainText(block.label), MAX_FIELD_NAME_LENGTH),
+                value: truncateMessage(htmlToMarkdown(value), MAX_FIELD_VALUE_LENGTH),
+                inline: false,
+              });
+            } else {
+              lines.push(htmlToMarkdown(value));
+            }
+            break;
+          }
+          case 'buttons':
+            lines.push(
+              block.buttons
+                .map((button) => `[${htmlToPlainText(button.text)}](${button.url})`)
+                .join(' · '),
+            );
+            break;
+          case 'image':
+            image ??= block.url;
+            break;
+          case 'divider':
+            break;
+        }
+      }
+    }
+
+    const description = lines.join('\n');
+    return {
+      ...(card.title && { title: truncateMessage(htmlToPlainText(card.title), MAX_TITLE_LENGTH) }),
+      ...(description && { description }),
+      ...(fields.length > 0 && { fields }),
+      ...(image && { image: { url: image } }),
+      ...(card.imageUrl && { thumbnail: { url: card.imageUrl } }),
+    };
+  }
+}
+
+function checkEmbeds(embeds: DiscordEmbed[]): CardValidationIssue[] {
+  const issues: CardValidationIssue[] = [];
+
+  if (embeds.length > MAX_EMBEDS) {
+    issues.push({ path: 'embeds', message: `has ${embeds.length} embeds (max ${MAX_EMBEDS})` });
+  }
+
+  let total = 0;
+  embeds.forEach((embed, index) => {
+    const description = embed.description?.length ?? 0;
+    if (description > MAX_DESCRIPTION_LENGTH) {
+      issues.push({
+        path: `embeds[${index}].description`,
+        message: `has ${description} characters (max ${MAX_DESCRIPTION_LENGTH})`,
+      });
+    }
+    total += (embed.title?.length ?? 0) + description;
+    embed.fields?.forEach((field) => {
+      total += field.name.length + field.value.length;
+    });
+  });
+
+  if (total > MAX_TOTAL_LENGTH) {
+    issues.push({
+      path: 'embeds',
+      message: `have ${total} characters in total (max ${MAX_TOTAL_LENGTH})`,
+    });
+  }
+
+  return issues;
+}
@@ -0,0 +1,16 @@
+/**
+ * Google Chat Renderer
+ *
+ * Cards v2 is already the webhook's format: payloads are sent as-is.
+ */
+
+import type { CardPayload } from '../types';
+import type { ChannelRenderer } from './base-renderer';
+
+export class GoogleChatRenderer implements ChannelRenderer {
+  readonly platform = 'google-chat' as const;
+
+  render(payload: CardPayload): unknown {
+    return payload;
+  }
+}
@@ -0,0 +1,8 @@
+export type { ChannelRenderer } from './base-renderer';
+export { GoogleChatRenderer } from './google-chat-renderer';
+export { SlackRenderer } from './slack-renderer';
+export { TeamsRenderer } from './teams-renderer';
+export { DiscordRenderer } from './discord-renderer';
+export { PLATFORMS, isPlatform, getRenderer, isPlatformHost } from './platforms';
+export { toGoogleCard, fromGoogleCard, isNeutralMessage } from './neutral';
+export type * from './types';
@@ -0,0 +1,148 @@
+/**
+ * Neutral Card Conversions
+ *
+ * Cards v2 is the notifier's internal format (validation, packing, dead letters),
+ * so neutral messages are converted to it when rendered by a schema, and platform
+ * renderers convert it back to the neutral model before producing their own JSON.
+ *
+ * Google-only features degrade gracefully: columns are flattened, grids become
+ * text, icons and colors are dropped.
+ */
+
+import type { CardPayload } from '../types';
+import type { CardButton, CardWidget, ColumnWidget } from '../cards/types';
+import type { NeutralBlock, NeutralButton, NeutralCard, NeutralMessage } from './types';
+
+/**
+ * Whether a schema returned a neutral message instead of a Cards v2 payload
+ */
+export function isNeutralMessage(value: CardPayload | NeutralMessage): value is NeutralMessage {
+  return Array.isArray((value as NeutralMessage).cards) && !('cardsV2' in value);
+}
+
+/**
+ * Convert a neutral message to Cards v2
+ */
+export function toGoogleCard(message: NeutralMessage): CardPayload {
+  return {
+    ...(message.threadKey && { thread: { threadKey: message.threadKey } }),
+    cardsV2: message.cards.map((neutral, index) => ({
+      cardId: neutral.id ?? `card-${index + 1}`,
+      card: {
+        ...(neutral.title && {
+          header: {
+            title: neutral.title,
+            ...(neutral.subtitle && { subtitle: neutral.subtitle }),
+            ...(neutral.imageUrl && { imageUrl: neutral.imageUrl }),
+          },
+        }),
+        sections: neutral.sections.map((section) => ({
+          ...(section.title && { header: section.title }),
+          widgets: section.blocks.map(toWidget),
+        })),
+      },
+    })),
+  };
+}
+
+/**
+ * Convert a Cards v2 payload to the neutral model
+ */
+export function fromGoogleCard(payload: CardPayload): NeutralMessage {
+  return {
+    ...(payload.thread?.threadKey && { threadKey: payload.thread.threadKey }),
+    cards: payload.cardsV2.map(({ cardId, card }) => ({
+      id: cardId,
+      ...(card.header?.title && { title: card.header.title }),
+      ...(card.header?.subtitle && { subtitle: card.header.subtitle }),
+      ...(card.header?.imageUrl && { imageUrl: card.header.imageUrl }),
+      sections: card.sections.map((section) => ({
+        ...(section.header && { title: section.header }),
+        blocks: section.widgets.flatMap(toBlocks),
+      })),
+    })),
+  };
+}
+
+/**
+ * Plain text of a card's header, for platforms that need a notification fallback
+ */
+export function fallbackText(card: NeutralCard): string {
+  return [card.title, card.subtitle].filter(Boolean).join(' - ');
+}
+
+function toWidget(block: NeutralBlock): CardWidget {
+  switch (block.type) {
+    case 'text':
+      return { textParagraph: { text: block.text } };
+    case 'field':
+      return {
+        decoratedText: {
+          ...(block.label && { topLabel: block.label }),
+          text: block.text,
+          ...(block.bottomLabel && { bottomLabel: block.bottomLabel }),
+          wrapText: true,
+        },
+      };
+    case 'buttons':
+      return {
+        buttonList: {
+          buttons: block.buttons.map(({ text, url }) => ({ text, onClick: { openLink: { url } } })),
+        },
+      };
+    case 'image':
+      return { image: { imageUrl: block.url, ...(block.altText && { altText: block.altText }) } };
+    case 'divider':
+      return { divider: {} };
+  }
+}
+
+function toBlocks(widget: CardWidget | ColumnWidget): NeutralBlock[] {
+  if ('textParagraph' in widget) {
+    return [{ type: 'text', text: widget.textParagraph.text }];
+  }
+
+  if ('decoratedText' in widget) {
+    const { topLabel, text, bottomLabel, button } = widget.decoratedText;
+    const field: NeutralBlock = {
+      type: 'field',
+      ...(topLabel && { label: topLabel }),
+      text,
+      ...(bottomLabel && { bottomLabel }),
+    };
+    return button ? [field, { type: 'buttons', buttons: toButtons([button]) }] : [field];
+  }
+
+  if ('buttonList' in widget) {
+    return [{ type: 'buttons', buttons: toButtons(widget.buttonList.buttons) }];
+  }
+
+  if ('image' in widget) {
+    const { imageUrl, altText } = widget.image;
+    return [{ type: 'image', url: imageUrl, ...(altText && { altText }) }];
+  }
+
+  if ('divider' in widget) {
+    return [{ type: 'divider' }];
+  }
+
+  if ('grid' in widget) {
+    const { title, items } = widget.grid;
+    const lines = items.map((item) =>
+      [`• ${item.title ?? item.id ?? ''}`, item.subtitle].filter(Boolean).join(' - '),
+    );
+    return [
+      { type: 'text', text: [title && `<b>${title}</b>`, ...lines].filter(Boolean).join('<br>') },
+    ];
+  }
+
+  // Columns: one column after the other
+  return widget.columns.columnItems.flatMap((column) => column.widgets.flatMap(toBlocks));
+}
+
+function toButtons(buttons: CardButton[]): NeutralButton[] {
+  return buttons.map((button) => {
+    const url = button.onClick.openLink.url;
+    return { text: button.text ?? button.altText ?? url, url };
+  });
+}
@@ -0,0 +1,60 @@
+/**
+ * Platform Registry
+ *
+ * Maps each platform to its renderer and to the hostnames its webhooks live on.
+ */
+
+import { DiscordRenderer } from './discord-renderer';
+import { GoogleChatRenderer } from './google-chat-renderer';
+import { SlackRenderer } from './slack-renderer';
+import { TeamsRenderer } from './teams-renderer';
+import { matchesHost } from '../utils/url';
+import type { ChannelRenderer } from './base-renderer';
+import type { Platform } from './types';
+
+export const PLATFORMS: readonly Platform[] = ['google-chat', 'slack', 'teams', 'discord'];
+
+/** Renderers are stateless: one instance per platform */
+const RENDERERS: Record<Platform, ChannelRenderer> = {
+  'google-chat': new GoogleChatRenderer(),
+  slack: new SlackRenderer(),
+  teams: new TeamsRenderer(),
+  discord: new DiscordRenderer(),
+};
+
+/**
+ * Webhook hostnames per platform: exact names, or suffixes starting with a dot
+ */
+const WEBHOOK_HOSTS: Record<Platform, readonly string[]> = {
+  'google-chat': ['chat.googleapis.com'],
+  slack: ['hooks.slack.com'],
+  // Office 365 connectors and Workflows (Power Automate / Power Platform)
+  teams: [
+    'outlook.office.com',
+    '.webhook.office.com',
+    '.logic.azure.com',
+    '.api.powerplatform.com',
+  ],
+  discord: ['discord.com', 'discordapp.com', 'canary.discord.com', 'ptb.discord.com'],
+};
+
+/**
+ * Check and narrow a platform name (e.g. from an env var)
+ */
+export function isPlatform(value: string): value is Platform {
+  return (PLATFORMS as readonly string[]).includes(value);
+}
+
+/**
+ * Renderer for a platform
+ */
+export function getRenderer(platform: Platform): ChannelRenderer {
+  return RENDERERS[platform];
+}
+
+/**
+ * Whether a hostname belongs to the platform's webhooks
+ */
+export function isPlatformHost(platform: Platform, hostname: string): boolean {
+  return matchesHost(hostname, WEBHOOK_HOSTS[platform]);
+}
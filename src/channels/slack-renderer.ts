@@ -0,0 +1,136 @@
+/**
+ * Slack Renderer
+ *
+ * Renders messages as Block Kit for Slack incoming webhooks:
+ * header/context blocks for the card header, mrkdwn sections for text and fields,
+ * actions for buttons, image and divider blocks. Cards of the same message are
+ * separated by dividers. Incoming webhooks cannot reply in threads.
+ * Messages over the 50-block or 25-buttons-per-actions limits are rejected with
+ * CardValidationError, never cut.
+ */
+
+import { CardValidationError, type CardValidationIssue } from '../errors';
+import { truncateMessage } from '../utils/truncate';
+import { htmlToPlainText, htmlToSlackMrkdwn } from '../utils/markup';
+import { fallbackText, fromGoogleCard } from './neutral';
+import type { CardPayload } from '../types';
+import type { ChannelRenderer } from './base-renderer';
+import type { NeutralBlock, NeutralCard } from './types';
+
+/** Block Kit limits */
+const MAX_BLOCKS = 50;
+const MAX_HEADER_LENGTH = 150;
+const MAX_TEXT_LENGTH = 3000;
+const MAX_BUTTONS = 25;
+
+type SlackBlock = Record<string, unknown>;
+
+export class SlackRenderer implements ChannelRenderer {
+  readonly platform = 'slack' as const;
+
+  render(payload: CardPayload): unknown {
+    const { cards } = fromGoogleCard(payload);
+    const blocks = this.renderBlocks(cards);
+
+    const issues = checkBlocks(blocks);
+    if (issues.length > 0) {
+      throw new CardValidationError(issues);
+    }
+
+    return {
+      // Shown in notifications and by clients without Block Kit support
+      text: cards.map(fallbackText).filter(Boolean).join('\n') || 'Notification',
+      blocks,
+    };
+  }
+
+  validate(payload: CardPayload): CardValidationIssue[] {
+    return checkBlocks(this.renderBlocks(fromGoogleCard(payload).cards));
+  }
+
+  private renderBlocks(cards: NeutralCard[]): SlackBlock[] {
+    return cards.flatMap((card, index) => [
+      ...(index > 0 ? [{ type: 'divider' }] : []),
+      ...this.renderCard(card),
+    ]);
+  }
+
+  private renderCard(card: NeutralCard): SlackBlock[] {
+    const blocks: SlackBlock[] = [];
+
+    if (card.title) {
+      blocks.push({ type: 'header', text: plainText(card.title, MAX_HEADER_LENGTH) });
+    }
+    if (card.subtitle) {
+      blocks.push({ type: 'context', elements: [mrkdwn(card.subtitle)] });
+    }
+
+    for (const section of card.sections) {
+      if (section.title) {
+        blocks.push({ type: 'section', text: mrkdwn(`<b>${section.title}</b>`) });
+      }
+      blocks.push(...section.blocks.map((block) => this.renderBlock(block)));
+    }
+
+    return blocks;
+  }
+
+  private renderBlock(block: NeutralBlock): SlackBlock {
+    switch (block.type) {
+      case 'text':
+        return { type: 'section', text: mrkdwn(block.text) };
+      case 'field': {
+        const lines = [block.label && `<b>${block.label}</b>`, block.text, block.bottomLabel];
+        return { type: 'section', text: mrkdwn(lines.filter(Boolean).join('<br>')) };
+      }
+      case 'buttons':
+        return {
+          type: 'actions',
+          elements: block.buttons.map((button) => ({
+            type: 'button',
+            text: plainText(button.text, 75),
+            url: button.url,
+          })),
+        };
+      case 'image':
+        return { type: 'image', image_url: block.url, alt_text: block.altText ?? 'image' };
+      case 'divider':
+        return { type: 'divider' };
+    }
+  }
+}
+
+function checkBlocks(blocks: SlackBlock[]): CardValidationIssue[] {
+  const issues: CardValidationIssue[] = [];
+
+  if (blocks.length > MAX_BLOCKS) {
+    issues.push({
+      path: 'blocks',
+      message: `has ${blocks.length} Slack blocks (max ${MAX_BLOCKS})`,
+    });
+  }
+
+  blocks.forEach((block, index) => {
+    const buttons = block.type === 'actions' ? (block.elements as unknown[]).length : 0;
+    if (buttons > MAX_BUTTONS) {
+      issues.push({
+        path: `blocks[${index}].elements`,
+        message: `has ${buttons} buttons (max ${MAX_BUTTONS})`,
+      });
+    }
+  });
+
+  return issues;
+}
+
+function plainText(text: string, maxLength: number): SlackBlock {
+  return {
+    type: 'plain_text',
+    text: truncateMessage(htmlToPlainText(text), maxLength),
+    emoji: true,
+  };
+}
+
+function mrkdwn(text: string): SlackBlock {
+  return { type: 'mrkdwn', text: truncateMessage(htmlToSlackMrkdwn(text), MAX_TEXT_LENGTH) };
+}
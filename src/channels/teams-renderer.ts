@@ -0,0 +1,126 @@
+/**
+ * Teams Renderer
+ *
+ * Renders messages as Adaptive Cards for Microsoft Teams webhooks
+ * (Workflows / Power Automate and legacy Office 365 connectors accept the same envelope).
+ * Each card becomes one attachment; fields become fact sets and buttons Action.OpenUrl.
+ * Teams webhooks have no threads.
+ */
+
+import { htmlToMarkdown } from '../utils/markup';
+import { fromGoogleCard } from './neutral';
+import type { CardPayload } from '../types';
+import type { ChannelRenderer } from './base-renderer';
+import type { NeutralCard } from './types';
+
+type AdaptiveElement = Record<string, unknown>;
+
+export class TeamsRenderer implements ChannelRenderer {
+  readonly platform = 'teams' as const;
+
+  render(payload: CardPayload): unknown {
+    const { cards } = fromGoogleCard(payload);
+
+    return {
+      type: 'message',
+      attachments: cards.map((card) => ({
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        contentUrl: null,
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.4',
+          msteams: { width: 'Full' },
+          body: this.renderBody(card),
+        },
+      })),
+    };
+  }
+
+  private renderBody(card: NeutralCard): AdaptiveElement[] {
+    const body: AdaptiveElement[] = [];
+
+    if (card.imageUrl) {
+      body.push({ type: 'Image', url: card.imageUrl, size: 'Small' });
+    }
+    if (card.title) {
+      body.push(textBlock(card.title, { size: 'Large', weight: 'Bolder' }));
+    }
+    if (card.subtitle) {
+      body.push(textBlock(card.subtitle, { isSubtle: true, spacing: 'None' }));
+    }
+
+    for (const section of card.sections) {
+      // Dividers apply to the element that follows them
+      let separator = false;
+      const elements: AdaptiveElement[] = [];
+
+      if (section.title) {
+        elements.push(textBlock(section.title, { weight: 'Bolder' }));
+      }
+
+      for (const block of section.blocks) {
+        let element: AdaptiveElement | undefined;
+
+        switch (block.type) {
+          case 'text':
+            element = textBlock(block.text);
+            break;
+          case 'field': {
+            // Consecutive fields share one fact set
+            const previous = elements[elements.length - 1];
+            const fact = {
+              title: htmlToMarkdown(block.label ?? ''),
+              value: htmlToMarkdown([block.text, block.bottomLabel].filter(Boolean).join('<br>')),
+            };
+            if (previous?.type === 'FactSet' && !separator) {
+              (previous.facts as unknown[]).push(fact);
+              continue;
+            }
+            element = { type: 'FactSet', facts: [fact] };
+            break;
+          }
+          case 'buttons':
+            element = {
+              type: 'ActionSet',
+              actions: block.buttons.map((button) => ({
+                type: 'Action.OpenUrl',
+                title: htmlToMarkdown(button.text),
+                url: button.url,
+              })),
+            };
+            break;
+          case 'image':
+            element = {
+              type: 'Image',
+              url: block.url,
+              ...(block.altText && { altText: block.altText }),
+            };
+            break;
+          case 'divider':
+            separator = true;
+            continue;
+        }
+
+        elements.push(separator ? { ...element, separator: true } : element);
+        separator = false;
+      }
+
+      // Sections are visually separated from the header and from each other
+      if (elements.length > 0) {
+        body.push({
+          type: 'Container',
+          separator: body.length > 0,
+          spacing: 'Medium',
+          items: elements,
+        });
+      }
+    }
+
+    return body;
+  }
+}
+
+function textBlock(text: string, options: AdaptiveElement = {}): AdaptiveElement {
+  return { type: 'TextBlock', text: htmlToMarkdown(text), wrap: true, ...options };
+}
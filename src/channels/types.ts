@@ -0,0 +1,51 @@
+/**
+ * Modelo neutro de card, independente de plataforma
+ *
+ * Os textos aceitam a formatação básica do Google Chat (<b>, <i>, <s>, <a href>, <br>);
+ * cada renderer converte para o formato da plataforma de destino.
+ */
+
+/**
+ * Plataformas de destino suportadas
+ */
+export type Platform = 'google-chat' | 'slack' | 'teams' | 'discord';
+
+export interface NeutralButton {
+  text: string;
+  url: string;
+}
+
+/**
+ * Bloco de conteúdo de uma seção
+ */
+export type NeutralBlock =
+  | { type: 'text'; text: string }
+  | { type: 'field'; label?: string; text: string; bottomLabel?: string }
+  | { type: 'buttons'; buttons: NeutralButton[] }
+  | { type: 'image'; url: string; altText?: string }
+  | { type: 'divider' };
+
+export interface NeutralSection {
+  /** Título da seção (opcional) */
+  title?: string;
+  blocks: NeutralBlock[];
+}
+
+export interface NeutralCard {
+  /** Identificador do card (default: 'card-<n>') */
+  id?: string;
+  title?: string;
+  subtitle?: string;
+  /** Imagem do cabeçalho */
+  imageUrl?: string;
+  sections: NeutralSection[];
+}
+
+/**
+ * Mensagem no modelo neutro (pode ser retornada por EventSchema.buildCard)
+ */
+export interface NeutralMessage {
+  cards: NeutralCard[];
+  /** Mensagens com a mesma chave são agrupadas na mesma thread (quando a plataforma suporta) */
+  threadKey?: string;
+}
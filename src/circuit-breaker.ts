@@ -0,0 +1,157 @@
+/**
+ * Circuit Breaker
+ *
+ * Per-key circuit (one per webhook) consulted before each delivery.
+ * - closed: deliveries go through; `failureThreshold` consecutive failures open it
+ * - open: deliveries are refused until `resetTimeoutMs` has elapsed
+ * - half-open: one trial delivery at a time; `successThreshold` successes close
+ *   the circuit, a failure opens it again
+ *
+ * A revoked webhook or a space returning sustained 5xx then costs one refused
+ * call instead of a full retry cycle with backoff per notification.
+ */
+
+import type { CircuitBreakerOptions, CircuitState } from './types';
+
+interface Circuit {
+  state: CircuitState;
+  failures: number;
+  successes: number;
+  openedAt: number;
+  trialInFlight: boolean;
+}
+
+export type CircuitStateListener = (
+  key: string,
+  state: CircuitState,
+  previousState: CircuitState,
+) => void;
+
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly successThreshold: number;
+  private readonly circuits = new Map<string, Circuit>();
+
+  constructor(
+    options: CircuitBreakerOptions = {},
+    private readonly onStateChange?: CircuitStateListener,
+  ) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+    this.successThreshold = options.successThreshold ?? 1;
+
+    if (!(this.failureThreshold >= 1) || !(this.successThreshold >= 1)) {
+      throw new Error('Circuit breaker thresholds must be at least 1');
+    }
+    if (!(this.resetTimeoutMs >= 0)) {
+      throw new Error('Circuit breaker reset timeout cannot be negative');
+    }
+  }
+
+  /**
+   * Whether a delivery may go through now
+   * An open circuit turns half-open once the reset timeout has elapsed; a half-open
+   * circuit lets one trial through and refuses the rest until its outcome is recorded
+   */
+  allow(key: string): boolean {
+    const circuit = this.circuits.get(key);
+    if (!circuit || circuit.state === 'closed') {
+      return true;
+    }
+
+    if (circuit.state === 'open') {
+      if (Date.now() - circuit.openedAt < this.resetTimeoutMs) {
+        return false;
+      }
+      circuit.successes = 0;
+      this.transition(key, circuit, 'half-open');
+    }
+
+    if (circuit.trialInFlight) {
+      return false;
+    }
+    circuit.trialInFlight = true;
+    return true;
+  }
+
+  /**
+   * Record a delivery the webhook answered
+   */
+  recordSuccess(key: string): void {
+    const circuit = this.circuits.get(key);
+    if (!circuit) {
+      return;
+    }
+
+    circuit.failures = 0;
+    circuit.trialInFlight = false;
+    if (circuit.state === 'half-open' && ++circuit.successes >= this.successThreshold) {
+      this.transition(key, circuit, 'closed');
+    }
+  }
+
+  /**
+   * Record a delivery that failed because of the webhook (5xx, revoked, unreachable)
+   */
+  recordFailure(key: string): void {
+    const circuit = this.getCircuit(key);
+
+    circuit.failures++;
+    circuit.trialInFlight = false;
+    if (circuit.state === 'half-open' || circuit.failures >= this.failureThreshold) {
+      circuit.openedAt = Date.now();
+      if (circuit.state !== 'open') {
+        this.transition(key, circuit, 'open');
+      }
+    }
+  }
+
+  /**
+   * Record a delivery that never reached the webhook (e.g. rejected by its renderer)
+   * Frees the half-open trial slot without counting toward either threshold
+   */
+  releaseTrial(key: string): void {
+    const circuit = this.circuits.get(key);
+    if (circuit) {
+      circuit.trialInFlight = false;
+    }
+  }
+
+  /**
+   * Current state of a circuit (open circuits past their timeout are reported half-open)
+   */
+  getState(key: string): CircuitState {
+    const circuit = this.circuits.get(key);
+    if (circuit?.state === 'open' && this.retryAfterMs(key) === 0) {
+      return 'half-open';
+    }
+    return circuit?.state ?? 'closed';
+  }
+
+  /**
+   * Time until an open circuit lets a trial through (0 when not open)
+   */
+  retryAfterMs(key: string): number {
+    const circuit = this.circuits.get(key);
+    if (circuit?.state !== 'open') {
+      return 0;
+    }
+    return Math.max(0, circuit.openedAt + this.resetTimeoutMs - Date.now());
+  }
+
+  private getCircuit(key: string): Circuit {
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = { state: 'closed', failures: 0, successes: 0, openedAt: 0, trialInFlight: false };
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  private transition(key: string, circuit: Circuit, state: CircuitState): void {
+    const previousState = circuit.state;
+    circuit.state = state;
+    this.onStateChange?.(key, state, previousState);
+  }
+}
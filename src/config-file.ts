@@ -0,0 +1,670 @@
+/**
+ * Configuration File Loader
+ *
+ * Reads notifier settings from a `.chatnotifierrc` file (JSON or YAML):
+ * - Named webhooks with separate tokens (`default` is the default webhook)
+ * - Webhook groups and aliases
+ * - Retry, rate limit, batch and idempotency settings
+ * - Per-environment profiles merged over the base settings, selected by an
+ *   explicit profile name or NODE_ENV
+ * - `${VAR}` / `${VAR:-fallback}` interpolation from the environment
+ *
+ * Precedence (highest first): NotifierOptions > selected profile > file base
+ * settings > environment variables (CHAT_WEBHOOK_*, CHAT_BATCH_*) > defaults.
+ *
+ * Every problem is reported with its path (e.g. profiles.prod.batch.size).
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { extname, join } from 'path';
+import { ConfigFileError, YamlSyntaxError, type ConfigFileIssue } from './errors';
+import { isPlatform, PLATFORMS } from './channels/platforms';
+import { matchesHost } from './utils/url';
+import { parseYaml } from './utils/yaml';
+import type { NotifierOptions, WebhookDefinition } from './types';
+
+/** Files searched in the working directory, in order */
+export const CONFIG_FILE_NAMES = [
+  '.chatnotifierrc',
+  '.chatnotifierrc.json',
+  '.chatnotifierrc.yaml',
+  '.chatnotifierrc.yml',
+];
+
+/**
+ * Options read from a configuration file
+ */
+export type ConfigFileOptions = Pick<
+  NotifierOptions,
+  | 'webhookUrl'
+  | 'webhooks'
+  | 'webhookGroups'
+  | 'webhookAliases'
+  | 'webhookResolution'
+  | 'level'
+  | 'maxMessage'
+  | 'cardValidation'
+  | 'messageReplyOption'
+  | 'routingMode'
+  | 'allowedHosts'
+  | 'allowLocalhost'
+  | 'proxy'
+  | 'timeoutMs'
+  | 'retryMax'
+  | 'retryBaseMs'
+  | 'retryMaxDelayMs'
+  | 'rateLimitPerSecond'
+  | 'rateLimitBurst'
+  | 'idempotencyEnabled'
+  | 'idempotencyTtlMs'
+  | 'idempotencyReservationTtlMs'
+  | 'batchEnabled'
+  | 'batchSize'
+  | 'batchIntervalMs'
+  | 'batchFlushOnDestroy'
+  | 'batchAggregation'
+  | 'batchMaxCardsPerMessage'
+  | 'batchWalPath'
+>;
+
+export interface LoadConfigFileOptions {
+  /** File path (default: CHAT_NOTIFIER_CONFIG, then CONFIG_FILE_NAMES in `cwd`) */
+  path?: string;
+  /** Profile to apply (default: NODE_ENV, ignored when the file has no such profile) */
+  profile?: string;
+  /** Directory searched for the file (default: process.cwd()) */
+  cwd?: string;
+  /** Variables used for interpolation and profile selection (default: process.env) */
+  env?: NodeJS.ProcessEnv;
+}
+
+type FieldType =
+  | { kind: 'boolean' }
+  | { kind: 'string' }
+  | { kind: 'hosts' }
+  | { kind: 'number'; min: number; integer: boolean }
+  | { kind: 'enum'; values: readonly string[] };
+
+interface FieldSpec {
+  option: keyof ConfigFileOptions;
+  type: FieldType;
+}
+
+const integer = (min: number): FieldType => ({ kind: 'number', min, integer: true });
+const oneOf = (...values: string[]): FieldType => ({ kind: 'enum', values });
+
+/** File keys (dotted for sections) and the option they set */
+const FIELDS: Record<string, FieldSpec> = {
+  webhookResolution: { option: 'webhookResolution', type: oneOf('strict', 'fallback', 'warn') },
+  level: { option: 'level', type: oneOf('all', 'important') },
+  maxMessage: { option: 'maxMessage', type: integer(1) },
+  cardValidation: { option: 'cardValidation', type: oneOf('strict', 'lenient', 'off') },
+  messageReplyOption: {
+    option: 'messageReplyOption',
+    type: oneOf('REPLY_MESSAGE_FALLBACK_TO_NEW_THREAD', 'REPLY_MESSAGE_OR_FAIL'),
+  },
+  routingMode: { option: 'routingMode', type: oneOf('first-match', 'all-match') },
+  allowedHosts: { option: 'allowedHosts', type: { kind: 'hosts' } },
+  allowLocalhost: { option: 'allowLocalhost', type: { kind: 'boolean' } },
+  proxy: { option: 'proxy', type: { kind: 'string' } },
+  'retry.max': { option: 'retryMax', type: integer(1) },
+  'retry.baseMs': { option: 'retryBaseMs', type: integer(0) },
+  'retry.maxDelayMs': { option: 'retryMaxDelayMs', type: integer(0) },
+  'retry.timeoutMs': { option: 'timeoutMs', type: integer(1) },
+  'rateLimit.perSecond': {
+    option: 'rateLimitPerSecond',
+    type: { kind: 'number', min: Number.MIN_VALUE, integer: false },
+  },
+  'rateLimit.burst': { option: 'rateLimitBurst', type: integer(1) },
+  'idempotency.enabled': { option: 'idempotencyEnabled', type: { kind: 'boolean' } },
+  'idempotency.ttlMs': { option: 'idempotencyTtlMs', type: integer(1) },
+  'idempotency.reservationTtlMs': { option: 'idempotencyReservationTtlMs', type: integer(1) },
+  'batch.enabled': { option: 'batchEnabled', type: { kind: 'boolean' } },
+  'batch.size': { option: 'batchSize', type: integer(1) },
+  'batch.intervalMs': { option: 'batchIntervalMs', type: integer(1) },
+  'batch.flushOnDestroy': { option: 'batchFlushOnDestroy', type: { kind: 'boolean' } },
+  'batch.aggregation': { option: 'batchAggregation', type: oneOf('cards', 'digest', 'none') },
+  'batch.maxCardsPerMessage': { option: 'batchMaxCardsPerMessage', type: integer(1) },
+  'batch.walPath': { option: 'batchWalPath', type: { kind: 'string' } },
+};
+
+const SECTIONS = new Set(
+  Object.keys(FIELDS)
+    .filter((key) => key.includes('.'))
+    .map((key) => key.split('.')[0]),
+);
+
+/** Name of the default webhook in the `webhooks` map */
+const DEFAULT_WEBHOOK = 'default';
+
+/**
+ * Load notifier options from a configuration file
+ * @returns Options from the file ({} when no file was found by discovery)
+ * @throws ConfigFileError when the file is missing (explicit path) or invalid
+ */
+export function loadConfigFile(options: LoadConfigFileOptions = {}): ConfigFileOptions {
+  const env = options.env ?? process.env;
+  const path =
+    options.path ?? env.CHAT_NOTIFIER_CONFIG ?? findConfigFile(options.cwd ?? process.cwd());
+  if (!path) {
+    return {};
+  }
+
+  const issues: ConfigFileIssue[] = [];
+  const report = (issuePath: string, message: string): void => {
+    issues.push({ path: issuePath, message });
+  };
+  const fail = (): never => {
+    throw new ConfigFileError(issues, path);
+  };
+
+  const raw = parseConfigFile(path);
+  if (!isRecord(raw)) {
+    report('config', 'must be an object');
+    return fail();
+  }
+
+  const { profiles, ...base } = raw;
+  // Interpolation keeps the shape of the value
+  const baseOptions = readOptions(interpolate(base, '', env, report) as typeof base, '', report);
+  const result = { ...baseOptions };
+
+  // Explicit profile must exist; NODE_ENV only applies when the file defines it
+  const profileName = options.profile ?? env.NODE_ENV;
+  if (profiles !== undefined && !isRecord(profiles)) {
+    report('profiles', 'must map profile names to settings');
+  } else if (
+    profileName &&
+    profiles &&
+    Object.prototype.hasOwnProperty.call(profiles, profileName)
+  ) {
+    const profilePath = `profiles.${profileName}`;
+    const profile = interpolate(profiles[profileName], profilePath, env, report);
+    if (isRecord(profile)) {
+      const overrides = readOptions(profile, profilePath, report, baseOptions);
+      Object.assign(result, overrides, {
+        webhooks: { ...result.webhooks, ...overrides.webhooks },
+        webhookGroups: { ...result.webhookGroups, ...overrides.webhookGroups },
+        webhookAliases: { ...result.webhookAliases, ...overrides.webhookAliases },
+      });
+    } else {
+      report(profilePath, 'must be an object');
+    }
+  } else if (options.profile) {
+    const available = profiles ? Object.keys(profiles) : [];
+    report(
+      'profiles',
+      `has no profile '${options.profile}'` +
+        (available.length ? ` (available: ${available.join(', ')})` : ''),
+    );
+  }
+
+  // Other profiles are validated too (a typo in prod must not wait for a prod deploy),
+  // except values with ${VAR}: their variables may only exist in that environment
+  if (isRecord(profiles)) {
+    Object.entries(profiles)
+      .filter(([name]) => name !== profileName)
+      .forEach(([name, profile]) => {
+        if (!isRecord(profile)) {
+          report(`profiles.${name}`, 'must be an object');
+        } else {
+          readOptions(profile, `profiles.${name}`, report, baseOptions, true);
+        }
+      });
+  }
+
+  if (issues.length > 0) {
+    fail();
+  }
+
+  for (const key of ['webhooks', 'webhookGroups', 'webhookAliases'] as const) {
+    if (result[key] && Object.keys(result[key]).length === 0) {
+      delete result[key];
+    }
+  }
+  return result;
+}
+
+/**
+ * Merge options from the configuration file under explicit options
+ * Undefined explicit values do not hide file values; webhooks, groups and aliases
+ * are merged by name
+ */
+export function mergeConfigFileOptions<TPayload>(
+  file: ConfigFileOptions,
+  options: NotifierOptions<TPayload>,
+): NotifierOptions<TPayload> {
+  const explicit = Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined),
+  ) as NotifierOptions<TPayload>;
+
+  return {
+    ...file,
+    ...explicit,
+    ...((file.webhooks || options.webhooks) && {
+      webhooks: { ...file.webhooks, ...options.webhooks },
+    }),
+    ...((file.webhookGroups || options.webhookGroups) && {
+      webhookGroups: { ...file.webhookGroups, ...options.webhookGroups },
+    }),
+    ...((file.webhookAliases || options.webhookAliases) && {
+      webhookAliases: { ...file.webhookAliases, ...options.webhookAliases },
+    }),
+  };
+}
+
+function findConfigFile(cwd: string): string | undefined {
+  return CONFIG_FILE_NAMES.map((name) => join(cwd, name)).find((path) => existsSync(path));
+}
+
+function parseConfigFile(path: string): unknown {
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf8');
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    throw new ConfigFileError(
+      [
+        {
+          path: 'file',
+          message: code === 'ENOENT' ? 'was not found' : `could not be read (${code})`,
+        },
+      ],
+      path,
+    );
+  }
+
+  // Extensionless .chatnotifierrc: JSON when it looks like JSON, YAML otherwise
+  const extension = extname(path).toLowerCase();
+  const json =
+    extension === '.json' ||
+    (extension !== '.yaml' && extension !== '.yml' && content.trimStart().startsWith('{'));
+
+  try {
+    return json ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    if (error instanceof YamlSyntaxError) {
+      throw new ConfigFileError([{ path: `line ${error.line}`, message: error.reason }], path);
+    }
+    throw new ConfigFileError(
+      [{ path: 'file', message: `is not valid JSON (${(error as Error).message})` }],
+      path,
+    );
+  }
+}
+
+/**
+ * Replace ${VAR} and ${VAR:-fallback} in every string value
+ */
+function interpolate(
+  value: unknown,
+  path: string,
+  env: NodeJS.ProcessEnv,
+  report: (path: string, message: string) => void,
+): unknown {
+  if (typeof value === 'string') {
+    return value.replace(
+      /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g,
+      (_, name: string, fallback?: string) => {
+        const resolved = env[name] ?? fallback;
+        if (resolved === undefined) {
+          report(path, `references undefined environment variable '${name}'`);
+          return '';
+        }
+        return resolved;
+      },
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolate(item, `${path}[${index}]`, env, report));
+  }
+  if (isRecord(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        interpolate(item, path ? `${path}.${key}` : key, env, report),
+      ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Validate and convert one level of settings (file base or a profile)
+ * References (fallbacks, groups, aliases) may point at names of this level or of `inherited`
+ */
+function readOptions(
+  config: Record<string, unknown>,
+  prefix: string,
+  report: (path: string, message: string) => void,
+  inherited: ConfigFileOptions = {},
+  deferPlaceholders = false,
+): ConfigFileOptions {
+  const result: ConfigFileOptions = {};
+  const check: typeof report = (path, message) => {
+    if (!deferPlaceholders || !hasPlaceholder(getValue(config, path.slice(prefix.length + 1)))) {
+      report(path, message);
+    }
+  };
+  const at = (key: string): string => (prefix ? `${prefix}.${key}` : key);
+
+  for (const [key, value] of Object.entries(config)) {
+    if (key === 'webhooks') {
+      readWebhooks(value, at(key), result, check);
+    } else if (key === 'groups') {
+      readGroups(value, at(key), result, check);
+    } else if (key === 'aliases') {
+      readAliases(value, at(key), result, check);
+    } else if (SECTIONS.has(key)) {
+      if (!isRecord(value)) {
+        check(at(key), 'must be an object');
+        continue;
+      }
+      for (const [field, fieldValue] of Object.entries(value)) {
+        readField(`${key}.${field}`, fieldValue, at(`${key}.${field}`), result, check);
+      }
+    } else if (key === 'profiles' && prefix) {
+      check(at(key), 'cannot be nested in a profile');
+    } else {
+      readField(key, value, at(key), result, check);
+    }
+  }
+
+  checkReferences(config, result, inherited, at, check);
+  return result;
+}
+
+function readField(
+  key: string,
+  value: unknown,
+  path: string,
+  result: ConfigFileOptions,
+  report: (path: string, message: string) => void,
+): void {
+  const spec = FIELDS[key];
+  if (!spec) {
+    report(path, 'is not a known setting');
+    return;
+  }
+
+  const converted = convert(value, spec.type);
+  if (converted.error) {
+    report(path, converted.error);
+    return;
+  }
+  (result as Record<string, unknown>)[spec.option] = converted.value;
+}
+
+/**
+ * Check a value against its type (strings from ${VAR} are coerced to numbers/booleans,
+ * and split on commas for host lists)
+ */
+function convert(value: unknown, type: FieldType): { value?: unknown; error?: string } {
+  switch (type.kind) {
+    case 'boolean':
+      if (typeof value === 'boolean') {
+        return { value };
+      }
+      if (value === 'true' || value === 'false') {
+        return { value: value === 'true' };
+      }
+      return { error: 'must be true or false' };
+    case 'string':
+      return typeof value === 'string' && value
+        ? { value }
+        : { error: 'must be a non-empty string' };
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+      const valid =
+        typeof number === 'number' &&
+        Number.isFinite(number) &&
+        number >= type.min &&
+        (!type.integer || Number.isInteger(number));
+      if (valid) {
+        return { value: number };
+      }
+      const kind = type.integer ? 'an integer' : 'a number';
+      return {
+        error: type.min > 0 ? `must be ${kind} greater than 0` : `must be ${kind} >= ${type.min}`,
+      };
+    }
+    case 'enum':
+      return typeof value === 'string' && type.values.includes(value)
+        ? { value }
+        : { error: `must be one of: ${type.values.join(', ')}` };
+    case 'hosts': {
+      const hosts = typeof value === 'string' ? value.split(',').map((host) => host.trim()) : value;
+      if (!Array.isArray(hosts) || hosts.some((host) => typeof host !== 'string')) {
+        return { error: 'must be a list of hostnames' };
+      }
+      const invalid = (hosts as string[]).filter((host) => !isHostPattern(host));
+      return invalid.length === 0
+        ? { value: hosts }
+        : {
+            error:
+              `has invalid hosts (${invalid.map((host) => `'${host}'`).join(', ')}); ` +
+              "use hostnames or suffixes starting with a dot (e.g. '.hooks.internal')",
+          };
+    }
+  }
+}
+
+/**
+ * Whether an allowedHosts entry can match a webhook hostname: the host it names
+ * (any host under it, for a '.suffix') must pass the notifier's own matcher
+ * Wildcards, schemes, ports and paths never match and are rejected
+ */
+function isHostPattern(pattern: string): boolean {
+  const host = pattern.startsWith('.') ? `host${pattern}` : pattern;
+  if (pattern.includes('*')) {
+    return false;
+  }
+  try {
+    return matchesHost(new URL(`https://${host}`).hostname, [pattern.toLowerCase()]);
+  } catch {
+    return false;
+  }
+}
+
+function readWebhooks(
+  value: unknown,
+  path: string,
+  result: ConfigFileOptions,
+  report: (path: string, message: string) => void,
+): void {
+  if (!isRecord(value)) {
+    report(path, 'must map webhook names to URLs');
+    return;
+  }
+
+  const webhooks: Record<string, string | WebhookDefinition> = {};
+  for (const [name, definition] of Object.entries(value)) {
+    const webhook = readWebhook(definition, `${path}.${name}`, report);
+    if (!webhook) {
+      continue;
+    }
+    if (name === DEFAULT_WEBHOOK) {
+      result.webhookUrl = webhook;
+    } else {
+      webhooks[name] = webhook;
+    }
+  }
+  result.webhooks = webhooks;
+}
+
+function readWebhook(
+  definition: unknown,
+  path: string,
+  report: (path: string, message: string) => void,
+): string | WebhookDefinition | undefined {
+  if (typeof definition === 'string') {
+    if (!definition) {
+      report(path, 'must be a non-empty URL');
+      return undefined;
+    }
+    return definition;
+  }
+  if (!isRecord(definition)) {
+    report(path, 'must be a URL or an object with url');
+    return undefined;
+  }
+
+  const { url, token, platform, fallback, ...unknown } = definition;
+  Object.keys(unknown).forEach((key) => report(`${path}.${key}`, 'is not a known setting'));
+  let valid = Object.keys(unknown).length === 0;
+
+  if (typeof url !== 'string' || !url) {
+    report(`${path}.url`, 'is required');
+    valid = false;
+  }
+  if (token !== undefined && (typeof token !== 'string' || !token)) {
+    report(`${path}.token`, 'must be a non-empty string');
+    valid = false;
+  }
+  if (platform !== undefined && (typeof platform !== 'string' || !isPlatform(platform))) {
+    report(`${path}.platform`, `must be one of: ${PLATFORMS.join(', ')}`);
+    valid = false;
+  }
+  if (fallback !== undefined && (typeof fallback !== 'string' || !fallback)) {
+    report(`${path}.fallback`, 'must be a webhook name or URL');
+    valid = false;
+  }
+  if (!valid) {
+    return undefined;
+  }
+
+  return {
+    url: url as string,
+    ...(token !== undefined && { token: token as string }),
+    ...(platform !== undefined && { platform: platform as WebhookDefinition['platform'] }),
+    ...(fallback !== undefined && { fallback: fallback as string }),
+  };
+}
+
+function readGroups(
+  value: unknown,
+  path: string,
+  result: ConfigFileOptions,
+  report: (path: string, message: string) => void,
+): void {
+  if (!isRecord(value)) {
+    report(path, 'must map group names to lists of webhooks');
+    return;
+  }
+
+  const groups: Record<string, string[]> = {};
+  for (const [name, members] of Object.entries(value)) {
+    const valid =
+      Array.isArray(members) &&
+      members.length > 0 &&
+      members.every((member) => typeof member === 'string' && member);
+    if (valid) {
+      groups[name] = members as string[];
+    } else {
+      report(`${path}.${name}`, 'must be a non-empty list of webhook names');
+    }
+  }
+  result.webhookGroups = groups;
+}
+
+function readAliases(
+  value: unknown,
+  path: string,
+  result: ConfigFileOptions,
+  report: (path: string, message: string) => void,
+): void {
+  if (!isRecord(value)) {
+    report(path, 'must map alias names to webhook names');
+    return;
+  }
+
+  const aliases: Record<string, string> = {};
+  for (const [name, target] of Object.entries(value)) {
+    if (typeof target === 'string' && target) {
+      aliases[name] = target;
+    } else {
+      report(`${path}.${name}`, 'must be a webhook or group name');
+    }
+  }
+  result.webhookAliases = aliases;
+}
+
+/**
+ * Check names referenced by fallbacks, groups and aliases
+ * Each must be defined in the file (this level or the base settings) and differ from
+ * the name referring to it; a fallback may also be a URL
+ */
+function checkReferences(
+  config: Record<string, unknown>,
+  result: ConfigFileOptions,
+  inherited: ConfigFileOptions,
+  at: (key: string) => string,
+  report: (path: string, message: string) => void,
+): void {
+  // Names as written at this level, so an invalid webhook is not also reported as undefined
+  const namesOf = (key: string, parsed?: Record<string, unknown>): string[] => [
+    ...Object.keys(parsed ?? {}),
+    ...Object.keys(isRecord(config[key]) ? config[key] : {}),
+  ];
+  const webhooks = namesOf('webhooks', inherited.webhooks).filter(
+    (name) => name !== DEFAULT_WEBHOOK,
+  );
+  const known = new Set(
+    [
+      ...webhooks,
+      ...namesOf('groups', inherited.webhookGroups),
+      ...namesOf('aliases', inherited.webhookAliases),
+    ].map((name) => name.toLowerCase()),
+  );
+  const checkName = (path: string, name: string, target: string, message: string): void => {
+    if (target.toLowerCase() === name.toLowerCase()) {
+      report(path, message);
+    } else if (!known.has(target.toLowerCase())) {
+      report(path, `references undefined webhook '${target}'`);
+    }
+  };
+
+  const definitions: Array<[string, string | WebhookDefinition | undefined]> = [
+    [DEFAULT_WEBHOOK, result.webhookUrl],
+    ...Object.entries(result.webhooks ?? {}),
+  ];
+  for (const [name, webhook] of definitions) {
+    const fallback = typeof webhook === 'object' ? webhook.fallback : undefined;
+    if (fallback && !fallback.includes('://')) {
+      checkName(at(`webhooks.${name}.fallback`), name, fallback, 'must name another webhook');
+    }
+  }
+
+  const shadowed = new Set(webhooks.map((name) => name.toLowerCase()));
+  for (const [name, members] of Object.entries(result.webhookGroups ?? {})) {
+    if (shadowed.has(name.toLowerCase())) {
+      report(at(`groups.${name}`), 'cannot reuse the name of a webhook');
+    }
+    members.forEach((member, index) =>
+      checkName(at(`groups.${name}[${index}]`), name, member, 'cannot contain itself'),
+    );
+  }
+  for (const [name, target] of Object.entries(result.webhookAliases ?? {})) {
+    if (shadowed.has(name.toLowerCase())) {
+      report(at(`aliases.${name}`), 'cannot reuse the name of a webhook');
+    }
+    checkName(at(`aliases.${name}`), name, target, 'cannot point to itself');
+  }
+}
+
+/**
+ * Value at a dotted path (e.g. batch.size, webhooks.errors.token)
+ */
+function getValue(config: Record<string, unknown>, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>((value, key) => (isRecord(value) ? value[key] : undefined), config);
+}
+
+function hasPlaceholder(value: unknown): boolean {
+  return typeof value === 'string' && value.includes('${');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -7,7 +7,20 @@
  * - Token separation via CHAT_WEBHOOK_TOKEN (security best practice)
  * - Named webhooks via CHAT_WEBHOOK_<NAME> env vars
  * - Named tokens via CHAT_WEBHOOK_<NAME>_TOKEN env vars
+ * - Platform per webhook via CHAT_WEBHOOK_PLATFORM / CHAT_WEBHOOK_<NAME>_PLATFORM
+ *   (google-chat by default; slack, teams and discord are rendered by channel renderers)
+ * - Fallback webhook per name via CHAT_WEBHOOK_FALLBACK / CHAT_WEBHOOK_<NAME>_FALLBACK
+ *   (name of another webhook, or a URL registered as webhook '<name>-fallback')
+ * - Per-instance env: custom prefix (`envPrefix: 'BILLING'` reads BILLING_WEBHOOK_*),
+ *   injected variables (`env: {...}`) or no env at all (`env: false`)
  * - Multi-webhook configuration via options
+ * - Groups (`ops = [errors, oncall]`) and aliases (`alerts -> errors`) via options or
+ *   CHAT_WEBHOOK_GROUP_<NAME>=errors,oncall / CHAT_WEBHOOK_ALIAS_<NAME>=errors
+ * - Unknown names resolved per `webhookResolution`: 'fallback' to the default
+ *   webhook (default), 'warn' (fallback + logged warning) or 'strict' (WebhookNotFoundError)
+ * - URLs are parsed and their host checked against the platform's hosts plus an
+ *   optional allow-list; http://localhost stand-ins (mock servers) are opt-in
+ *   via `allowLocalhost`. Error messages mask tokens and other URL secrets.
  * 
  * Security: Tokens can be separated from URLs for better security and rotation.
  * Example:
@@ -15,36 +28,132 @@
  *   CHAT_WEBHOOK_TOKEN=secret_token
  */
 
+import { isPlatform, isPlatformHost, PLATFORMS } from './channels/platforms';
+import type { Platform } from './channels/types';
+import { WebhookNotFoundError } from './errors';
+import { defaultLogger } from './logger';
+import { isLocalHost, maskUrl, matchesHost } from './utils/url';
+import type { Logger } from './logger';
+import type { WebhookDefinition, WebhookResolution } from './types';
+
+export interface ConfigManagerOptions {
+  /** How unknown webhook names are resolved (default: 'fallback') */
+  resolution?: WebhookResolution;
+  /** Default webhook (overrides CHAT_WEBHOOK_URL) */
+  defaultWebhook?: string | WebhookDefinition;
+  /** Extra hosts accepted for any platform: exact names, or suffixes starting with a dot */
+  allowedHosts?: string[];
+  /** Accept http(s)://localhost, 127.0.0.1 and [::1] URLs (local mock servers in tests) */
+  allowLocalhost?: boolean;
+  /** Variables read instead of process.env; false = explicit options only */
+  env?: NodeJS.ProcessEnv | false;
+  /** Prefix of webhook variables: <prefix>_WEBHOOK_URL, <prefix>_WEBHOOK_<NAME> (default: 'CHAT') */
+  envPrefix?: string;
+  /** Named groups delivered to every member (members may be webhooks, aliases or groups) */
+  groups?: Record<string, string[]>;
+  /** Alternative names of a webhook, alias or group */
+  aliases?: Record<string, string>;
+  /** Receives the warnings of 'warn' resolution (default: console) */
+  logger?: Logger;
+}
+
 export interface WebhookConfig {
   url: string;
   name?: string;
 }
 
+/** Suffixes of per-webhook attribute variables (CHAT_WEBHOOK_<NAME>_TOKEN...) */
+const ENV_ATTRIBUTES = ['_TOKEN', '_PLATFORM', '_FALLBACK'];
+
+/** Platform names used in error messages */
+const PLATFORM_LABELS: Record<Platform, string> = {
+  'google-chat': 'Google Chat',
+  slack: 'Slack',
+  teams: 'Microsoft Teams',
+  discord: 'Discord',
+};
+
 export class ConfigManager {
   private readonly webhooks: Map<string, string>;
+  private readonly platforms: Map<string, Platform>;
+  /** Group name -> member names, as configured */
+  private readonly groups = new Map<string, string[]>();
+  /** Alias name -> target name, as configured */
+  private readonly aliases = new Map<string, string>();
+  /** Webhook name -> fallback webhook name */
+  private readonly fallbacks = new Map<string, string>();
+  private defaultFallback?: string;
   private defaultWebhook?: string;
+  private defaultPlatform: Platform = 'google-chat';
+  private readonly resolution: WebhookResolution;
+  private readonly allowedHosts: string[];
+  private readonly allowLocalhost: boolean;
+  private readonly env: NodeJS.ProcessEnv;
+  /** Prefix of webhook variables (e.g. CHAT_WEBHOOK) */
+  private readonly envPrefix: string;
+  /** Unknown names already reported in 'warn' mode (warn once per name) */
+  private readonly warnedNames = new Set<string>();
+  private readonly logger: Logger;
 
-  constructor(webhookConfig?: Record<string, string> | string) {
+  constructor(
+    webhookConfig?: Record<string, string | WebhookDefinition> | string,
+    options: ConfigManagerOptions = {},
+  ) {
     this.webhooks = new Map();
+    this.platforms = new Map();
+    this.resolution = options.resolution ?? 'fallback';
+    this.allowedHosts = (options.allowedHosts ?? []).map((host) => host.toLowerCase());
+    this.allowLocalhost = options.allowLocalhost ?? false;
+    this.env = options.env === false ? {} : (options.env ?? process.env);
+    this.envPrefix = `${options.envPrefix ?? 'CHAT'}_WEBHOOK`;
+    this.logger = options.logger ?? defaultLogger();
 
     // Load from environment
     this.loadFromEnv();
 
     // Override with provided config
+    if (options.defaultWebhook) {
+      const { url, platform, fallback } = this.resolveDefinition(
+        options.defaultWebhook,
+        `${this.envPrefix}_PLATFORM`,
+      );
+      this.defaultWebhook = url;
+      this.defaultPlatform = platform;
+      this.setFallback(undefined, fallback, platform);
+    }
     if (typeof webhookConfig === 'string') {
-      this.defaultWebhook = this.validateWebhookUrl(webhookConfig);
+      this.defaultWebhook = this.validateWebhookUrl(webhookConfig, this.defaultPlatform);
     } else if (webhookConfig) {
-      Object.entries(webhookConfig).forEach(([name, url]) => {
-        this.webhooks.set(name, this.validateWebhookUrl(url));
+      Object.entries(webhookConfig).forEach(([name, definition]) => {
+        const { url, platform, fallback } = this.resolveDefinition(
+          definition,
+          `${this.envPrefix}_${name.toUpperCase()}_PLATFORM`,
+        );
+        // Lookups are case-insensitive
+        this.webhooks.set(name.toLowerCase(), url);
+        this.platforms.set(name.toLowerCase(), platform);
+        this.setFallback(name.toLowerCase(), fallback, platform);
       });
     }
 
     // Validate at least one webhook is configured
     if (!this.defaultWebhook && this.webhooks.size === 0) {
       throw new Error(
-        'No webhook configured. Provide CHAT_WEBHOOK_URL env var or webhooks option.',
+        `No webhook configured. Provide ${this.envPrefix}_URL env var or webhooks option.`,
       );
     }
+
+    // Groups and aliases (options override env entries with the same name)
+    Object.entries(options.groups ?? {}).forEach(([name, members]) => {
+      this.aliases.delete(name.toLowerCase());
+      this.groups.set(name.toLowerCase(), members.map((member) => member.toLowerCase()));
+    });
+    Object.entries(options.aliases ?? {}).forEach(([name, target]) => {
+      this.groups.delete(name.toLowerCase());
+      this.aliases.set(name.toLowerCase(), target.toLowerCase());
+    });
+    this.validateGroups();
+    this.validateFallbacks();
   }
 
   /**
@@ -55,56 +164,240 @@ export class ConfigManager {
    * 
    * For named webhooks:
    * - CHAT_WEBHOOK_<NAME>=url + CHAT_WEBHOOK_<NAME>_TOKEN=token
+   * - CHAT_WEBHOOK_<NAME>_PLATFORM=slack|teams|discord|google-chat (optional)
+   * - CHAT_WEBHOOK_<NAME>_FALLBACK=name|url (optional)
+   *
+   * CHAT is replaced by `envPrefix`, and variables come from the injected env.
    */
   private loadFromEnv(): void {
+    const prefix = this.envPrefix;
+
     // Default webhook
-    const defaultUrl = process.env.CHAT_WEBHOOK_URL;
-    const defaultToken = process.env.CHAT_WEBHOOK_TOKEN;
-    
+    const defaultUrl = this.env[`${prefix}_URL`];
+    this.defaultPlatform = this.readPlatform(`${prefix}_PLATFORM`);
+
     if (defaultUrl) {
-      // Check if URL already contains token (legacy mode)
-      if (defaultUrl.includes('token=')) {
-        this.defaultWebhook = this.validateWebhookUrl(defaultUrl);
-      } else if (defaultToken) {
-        // Build URL with separate token (new secure mode)
-        this.defaultWebhook = this.validateWebhookUrl(
-          this.buildWebhookUrl(defaultUrl, defaultToken)
+      this.defaultWebhook = this.validateWebhookUrl(
+        this.withEnvToken(defaultUrl, `${prefix}_TOKEN`),
+        this.defaultPlatform,
+      );
+      this.setFallback(undefined, this.env[`${prefix}_FALLBACK`], this.defaultPlatform);
+    }
+
+    // Named webhooks (CHAT_WEBHOOK_ERRORS, CHAT_WEBHOOK_REPORTS, etc)
+    const reserved = new Set([
+      `${prefix}_URL`,
+      `${prefix}_TOKEN`,
+      `${prefix}_PLATFORM`,
+      `${prefix}_FALLBACK`,
+    ]);
+    Object.keys(this.env).forEach((key) => {
+      const url = this.env[key];
+      if (!key.startsWith(`${prefix}_`) || reserved.has(key) || !url || this.isAttribute(key)) {
+        return;
+      }
+      if (this.loadGroupFromEnv(key, url)) {
+        return;
+      }
+
+      const name = key.slice(prefix.length + 1).toLowerCase();
+      const platform = this.readPlatform(`${key}_PLATFORM`);
+      this.webhooks.set(
+        name,
+        this.validateWebhookUrl(this.withEnvToken(url, `${key}_TOKEN`), platform),
+      );
+      this.platforms.set(name, platform);
+      this.setFallback(name, this.env[`${key}_FALLBACK`], platform);
+    });
+  }
+
+  /**
+   * Read CHAT_WEBHOOK_GROUP_<NAME>=a,b and CHAT_WEBHOOK_ALIAS_<NAME>=target
+   * Values that are URLs are still webhooks (CHAT_WEBHOOK_GROUP_CHAT=https://...)
+   * @returns Whether the variable was a group or an alias
+   */
+  private loadGroupFromEnv(key: string, value: string): boolean {
+    if (value.includes('://')) {
+      return false;
+    }
+
+    const [groupPrefix, aliasPrefix] = [`${this.envPrefix}_GROUP_`, `${this.envPrefix}_ALIAS_`];
+    if (key.startsWith(groupPrefix)) {
+      const members = value
+        .split(',')
+        .map((member) => member.trim().toLowerCase())
+        .filter(Boolean);
+      this.groups.set(key.slice(groupPrefix.length).toLowerCase(), members);
+      return true;
+    }
+    if (key.startsWith(aliasPrefix)) {
+      this.aliases.set(key.slice(aliasPrefix.length).toLowerCase(), value.trim().toLowerCase());
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Register the fallback of a webhook (undefined name = default webhook)
+   * A URL becomes webhook '<name>-fallback' ('fallback' for the default webhook)
+   * on the primary's platform; anything else names another webhook
+   */
+  private setFallback(
+    name: string | undefined,
+    value: string | undefined,
+    platform: Platform,
+  ): void {
+    const target = value?.trim();
+    if (!target) {
+      return;
+    }
+
+    let fallback = target.toLowerCase();
+    if (target.includes('://')) {
+      fallback = name ? `${name}-fallback` : 'fallback';
+      this.webhooks.set(fallback, this.validateWebhookUrl(target, platform));
+      this.platforms.set(fallback, platform);
+    }
+    if (name) {
+      this.fallbacks.set(name, fallback);
+    } else {
+      this.defaultFallback = fallback;
+    }
+  }
+
+  /**
+   * Check fallbacks: each must name another single webhook (aliases are resolved)
+   */
+  private validateFallbacks(): void {
+    const entries: Array<[string | undefined, string]> = [...this.fallbacks.entries()];
+    if (this.defaultFallback) {
+      entries.push([undefined, this.defaultFallback]);
+    }
+
+    entries.forEach(([name, fallback]) => {
+      const label = name ? `'${name}'` : 'the default webhook';
+      if (!this.hasWebhook(fallback)) {
+        throw new WebhookNotFoundError(
+          [fallback],
+          this.getWebhookNames(),
+          `referenced as fallback of ${label} but not configured`,
         );
+      }
+
+      const [target, ...others] = this.resolveWebhookNames(fallback);
+      if (others.length > 0 || target === name) {
+        throw new Error(`Fallback of ${label} must be another single webhook, got '${fallback}'`);
+      }
+      if (name) {
+        this.fallbacks.set(name, target);
       } else {
-        // URL without token - validate as is
-        this.defaultWebhook = this.validateWebhookUrl(defaultUrl);
+        this.defaultFallback = target;
       }
-    }
+    });
+  }
 
-    // Named webhooks (CHAT_WEBHOOK_ERRORS, CHAT_WEBHOOK_REPORTS, etc)
-    Object.keys(process.env).forEach((key) => {
-      if (key.startsWith('CHAT_WEBHOOK_') && 
-          key !== 'CHAT_WEBHOOK_URL' && 
-          key !== 'CHAT_WEBHOOK_TOKEN' &&
-          !key.endsWith('_TOKEN')) {
-        const name = key.replace('CHAT_WEBHOOK_', '').toLowerCase();
-        const url = process.env[key];
-        const tokenKey = `${key}_TOKEN`;
-        const token = process.env[tokenKey];
-        
-        if (url) {
-          // Check if URL already contains token (legacy mode)
-          if (url.includes('token=')) {
-            this.webhooks.set(name, this.validateWebhookUrl(url));
-          } else if (token) {
-            // Build URL with separate token (new secure mode)
-            this.webhooks.set(name, this.validateWebhookUrl(
-              this.buildWebhookUrl(url, token)
-            ));
-          } else {
-            // URL without token - validate as is
-            this.webhooks.set(name, this.validateWebhookUrl(url));
-          }
-        }
+  /**
+   * Check groups and aliases: names must not shadow webhooks, members must exist
+   * and no group may contain itself
+   */
+  private validateGroups(): void {
+    [...this.groups.keys(), ...this.aliases.keys()].forEach((name) => {
+      const kind = this.groups.has(name) ? 'group' : 'alias';
+      if (this.webhooks.has(name)) {
+        throw new Error(`Webhook ${kind} '${name}' conflicts with a webhook of the same name`);
+      }
+      if (this.groups.get(name)?.length === 0) {
+        throw new Error(`Webhook group '${name}' has no members`);
+      }
+      const unknown = (this.groups.get(name) ?? [this.aliases.get(name) ?? '']).filter(
+        (member) => !this.hasWebhook(member),
+      );
+      if (unknown.length > 0) {
+        throw new WebhookNotFoundError(
+          unknown,
+          this.getWebhookNames(),
+          `referenced by webhook ${kind} '${name}' but not configured`,
+        );
       }
+      this.expand(name, []);
     });
   }
 
+  /**
+   * Concrete webhook names behind a name (cycles throw)
+   */
+  private expand(name: string, path: string[]): string[] {
+    if (path.includes(name)) {
+      throw new Error(`Webhook group cycle: ${[...path, name].join(' -> ')}`);
+    }
+
+    const alias = this.aliases.get(name);
+    const members = this.groups.get(name) ?? (alias ? [alias] : undefined);
+    if (!members) {
+      return [name];
+    }
+    return Array.from(
+      new Set(members.flatMap((member) => this.expand(member, [...path, name]))),
+    );
+  }
+
+  /**
+   * Whether a variable is an attribute of a webhook (CHAT_WEBHOOK_<NAME>_TOKEN) rather
+   * than a webhook itself: its webhook variable exists, or its value is not a URL.
+   * A webhook may still be named like an attribute (CHAT_WEBHOOK_API_TOKEN=https://...).
+   */
+  private isAttribute(key: string): boolean {
+    return ENV_ATTRIBUTES.some(
+      (suffix) =>
+        key.endsWith(suffix) &&
+        (this.env[key.slice(0, -suffix.length)] !== undefined || !this.env[key]?.includes('://')),
+    );
+  }
+
+  /**
+   * Append the token from a separate variable, unless the URL already has one (legacy mode)
+   */
+  private withEnvToken(url: string, tokenKey: string): string {
+    const token = this.env[tokenKey];
+    return token && !url.includes('token=') ? this.buildWebhookUrl(url, token) : url;
+  }
+
+  /**
+   * Validated URL (token included) and platform of a configured webhook
+   * Platform falls back to the webhook's env var, then google-chat
+   */
+  private resolveDefinition(
+    definition: string | WebhookDefinition,
+    platformEnvKey: string,
+  ): { url: string; platform: Platform; fallback?: string } {
+    const {
+      url,
+      token,
+      platform = this.readPlatform(platformEnvKey),
+      fallback,
+    } = typeof definition === 'string' ? { url: definition } : definition;
+    const fullUrl = token && !url.includes('token=') ? this.buildWebhookUrl(url, token) : url;
+    return { url: this.validateWebhookUrl(fullUrl, platform), platform, fallback };
+  }
+
+  /**
+   * Read platform from env var (google-chat when unset)
+   */
+  private readPlatform(envKey: string): Platform {
+    const value = this.env[envKey]?.trim().toLowerCase();
+    if (!value) {
+      return 'google-chat';
+    }
+
+    if (!isPlatform(value)) {
+      throw new Error(
+        `Invalid platform '${value}' in ${envKey}. Expected one of: ${PLATFORMS.join(', ')}`,
+      );
+    }
+
+    return value;
+  }
+
   /**
    * Build webhook URL from base URL and token
    * @param baseUrl Base webhook URL (without token parameter)
@@ -118,22 +411,30 @@ export class ConfigManager {
 
   /**
    * Validate webhook URL format
+   * The hostname must belong to the webhook's platform or to the allow-list;
+   * plain http is only accepted for local endpoints when allowLocalhost is set
    */
-  private validateWebhookUrl(url: string): string {
+  private validateWebhookUrl(url: string, platform: Platform = 'google-chat'): string {
     if (!url) {
       throw new Error('Webhook URL cannot be empty');
     }
 
-    if (!url.startsWith('https://')) {
-      throw new Error(
-        `Webhook URL must use HTTPS protocol: ${url.substring(0, 50)}...`,
-      );
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new Error(`Invalid webhook URL: ${maskUrl(url)}`);
     }
 
-    if (!url.includes('chat.googleapis.com')) {
-      throw new Error(
-        `Invalid Google Chat webhook URL: ${url.substring(0, 50)}...`,
-      );
+    const local = this.allowLocalhost && isLocalHost(parsed.hostname);
+    if (parsed.protocol !== 'https:' && !(local && parsed.protocol === 'http:')) {
+      throw new Error(`Webhook URL must use HTTPS protocol: ${maskUrl(url)}`);
+    }
+
+    const { hostname } = parsed;
+    const known = isPlatformHost(platform, hostname) || matchesHost(hostname, this.allowedHosts);
+    if (!local && !known) {
+      throw new Error(`Invalid ${PLATFORM_LABELS[platform]} webhook URL: ${maskUrl(url)}`);
     }
 
     return url;
@@ -141,7 +442,7 @@ export class ConfigManager {
 
   /**
    * Get webhook URL by name
-   * Falls back to default webhook if name not found
+   * Unknown names follow the resolution mode (fallback to default, warn or throw)
    */
   getWebhook(name?: string): string {
     if (!name) {
@@ -151,31 +452,166 @@ export class ConfigManager {
       return this.defaultWebhook;
     }
 
+    const target = this.resolveSingle(name);
+    if (target !== name) {
+      return this.getWebhook(target);
+    }
+
     const webhook = this.webhooks.get(name.toLowerCase());
     if (!webhook) {
-      // Fallback to default
-      if (this.defaultWebhook) {
-        return this.defaultWebhook;
-      }
+      return this.resolveUnknown(name);
+    }
+
+    return webhook;
+  }
+
+  /**
+   * Get platform of a webhook
+   * Follows the same resolution as getWebhook (unknown names use the default webhook)
+   */
+  getPlatform(name?: string): Platform {
+    if (name && (this.aliases.has(name.toLowerCase()) || this.groups.has(name.toLowerCase()))) {
+      return this.getPlatform(this.resolveSingle(name));
+    }
+    if (name && this.webhooks.has(name.toLowerCase())) {
+      return this.platforms.get(name.toLowerCase()) ?? 'google-chat';
+    }
+    if (name && this.resolution === 'strict') {
+      throw new WebhookNotFoundError([name], this.getWebhookNames());
+    }
+    return this.defaultPlatform;
+  }
+
+  /**
+   * URLs of every webhook a name delivers to (one URL for webhooks and aliases)
+   */
+  getWebhooks(name?: string): string[] {
+    return name
+      ? this.resolveWebhookNames(name).map((member) => this.getWebhook(member))
+      : [this.getWebhook()];
+  }
+
+  /**
+   * Webhook names a name delivers to: members of a group (recursively) or the
+   * target of an alias. Webhooks and unknown names resolve to themselves.
+   */
+  resolveWebhookNames(name: string): string[] {
+    const key = name.toLowerCase();
+    return this.aliases.has(key) || this.groups.has(key) ? this.expand(key, []) : [name];
+  }
+
+  /**
+   * Concrete webhook behind a webhook or alias name (lowercase)
+   * Groups throw: they deliver to each member, never to one webhook of their own
+   */
+  resolveWebhookName(name: string): string {
+    if (this.groups.has(name.toLowerCase())) {
+      throw new Error(`'${name}' is a webhook group; name one of its members instead`);
+    }
+    return this.resolveSingle(name).toLowerCase();
+  }
+
+  /**
+   * Target of a name that must resolve to one webhook (groups with several members throw)
+   */
+  private resolveSingle(name: string): string {
+    const targets = this.resolveWebhookNames(name);
+    if (targets.length > 1) {
       throw new Error(
-        `Webhook '${name}' not found and no default webhook configured`,
+        `Webhook group '${name}' has several members (${targets.join(', ')}); ` +
+          'use getWebhooks() or notify() to deliver to all of them',
       );
     }
+    return targets[0];
+  }
 
-    return webhook;
+  /**
+   * Check names known ahead of time (schema, routing rules) at startup
+   * Throws in 'strict' mode and warns in 'warn' mode; 'fallback' accepts anything
+   */
+  validateWebhookNames(names: Iterable<string>): void {
+    if (this.resolution === 'fallback') {
+      return;
+    }
+
+    const missing = Array.from(new Set(names)).filter((name) => !this.hasWebhook(name));
+    if (missing.length === 0) {
+      return;
+    }
+
+    const error = new WebhookNotFoundError(
+      missing,
+      this.getWebhookNames(),
+      'not configured (declared by the schema or routing rules)',
+    );
+    if (this.resolution === 'strict') {
+      throw error;
+    }
+    missing.forEach((name) => this.warnedNames.add(name.toLowerCase()));
+    this.logger.warn(`${error.message}. Falling back to the default webhook.`);
+  }
+
+  /**
+   * Resolve a name that is not configured
+   */
+  private resolveUnknown(name: string): string {
+    if (this.resolution === 'strict') {
+      throw new WebhookNotFoundError([name], this.getWebhookNames());
+    }
+    if (!this.defaultWebhook) {
+      throw new WebhookNotFoundError(
+        [name],
+        this.getWebhookNames(),
+        'not found and no default webhook configured',
+      );
+    }
+
+    if (this.resolution === 'warn' && !this.warnedNames.has(name.toLowerCase())) {
+      this.warnedNames.add(name.toLowerCase());
+      this.logger.warn(`Webhook '${name}' not found, using the default webhook`);
+    }
+    return this.defaultWebhook;
   }
 
   /**
-   * Get all configured webhook names
+   * Fallback webhook of a webhook (unknown names use the default webhook's fallback)
+   */
+  getFallback(name?: string): string | undefined {
+    const key = name?.toLowerCase();
+    return key && this.webhooks.has(key) ? this.fallbacks.get(key) : this.defaultFallback;
+  }
+
+  /**
+   * Whether any webhook has a fallback
+   */
+  hasFallbacks(): boolean {
+    return this.fallbacks.size > 0 || this.defaultFallback !== undefined;
+  }
+
+  /**
+   * Get all configured names: webhooks, then aliases and groups
    */
   getWebhookNames(): string[] {
-    return Array.from(this.webhooks.keys());
+    return [...this.webhooks.keys(), ...this.aliases.keys(), ...this.groups.keys()];
+  }
+
+  /**
+   * Groups and aliases with the webhooks they deliver to (an alias has one member)
+   */
+  getWebhookGroups(): Record<string, string[]> {
+    return Object.fromEntries(
+      [...this.aliases.keys(), ...this.groups.keys()].map((name) => [
+        name,
+        this.resolveWebhookNames(name),
+      ]),
+    );
   }
 
   /**
-   * Check if a named webhook exists
+   * Check if a named webhook, alias or group exists
    */
   hasWebhook(name: string): boolean {
-    return this.webhooks.has(name.toLowerCase());
+    const key = name.toLowerCase();
+    return this.webhooks.has(key) || this.aliases.has(key) || this.groups.has(key);
   }
 }
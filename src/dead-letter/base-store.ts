@@ -0,0 +1,52 @@
+import type { CardPayload } from '../types';
+
+/**
+ * Notificação que falhou definitivamente (retries esgotados ou erro permanente)
+ */
+export interface DeadLetterEntry<TPayload = unknown> {
+  /** Identificador único da entrada */
+  id: string;
+  /** Payload original do evento */
+  payload: TPayload;
+  /** Nome do webhook resolvido (undefined = default) */
+  webhookName?: string;
+  /** Card renderizado no momento da falha */
+  card: CardPayload;
+  /** Mensagens de continuação ainda não enviadas (card dividido na validação leniente) */
+  continuations?: CardPayload[];
+  /** Último erro observado */
+  error: {
+    name: string;
+    message: string;
+    /** Status HTTP, quando a falha veio de uma resposta */
+    status?: number;
+  };
+  /** Total de tentativas HTTP (acumulado entre replays) */
+  attempts: number;
+  /** Data/hora da última falha (ISO 8601) */
+  failedAt: string;
+}
+
+/**
+ * Interface base para armazenamento de dead letters
+ * Implementações devem ser seguras para chamadas concorrentes no mesmo processo.
+ */
+export interface DeadLetterStore<TPayload = unknown> {
+  /**
+   * Inserir ou substituir entrada (pelo id)
+   * @param entry Entrada
+   */
+  put(entry: DeadLetterEntry<TPayload>): Promise<void>;
+
+  /**
+   * Listar entradas em ordem de inserção
+   * @returns Entradas armazenadas
+   */
+  list(): Promise<Array<DeadLetterEntry<TPayload>>>;
+
+  /**
+   * Remover entrada (ignora ids inexistentes)
+   * @param id Identificador da entrada
+   */
+  remove(id: string): Promise<void>;
+}
@@ -0,0 +1,4 @@
+export type { DeadLetterEntry, DeadLetterStore } from './base-store';
+export { MemoryDeadLetterStore } from './memory-store';
+export { JsonlDeadLetterStore } from './jsonl-store';
+export type { JsonlDeadLetterStoreOptions } from './jsonl-store';
@@ -0,0 +1,95 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import type { DeadLetterEntry, DeadLetterStore } from './base-store';
+
+export interface JsonlDeadLetterStoreOptions {
+  /** Caminho do arquivo JSONL (criado sob demanda) */
+  path: string;
+}
+
+/**
+ * Dead letter store em arquivo JSONL (uma entrada por linha)
+ *
+ * - Novas entradas são anexadas ao final do arquivo
+ * - Substituições e remoções reescrevem o arquivo de forma atômica (tmp + rename)
+ * - Operações são serializadas dentro do processo
+ * - Linhas corrompidas (ex: escrita interrompida) são ignoradas na leitura
+ */
+export class JsonlDeadLetterStore<TPayload = unknown> implements DeadLetterStore<TPayload> {
+  private readonly path: string;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: JsonlDeadLetterStoreOptions) {
+    this.path = options.path;
+  }
+
+  put(entry: DeadLetterEntry<TPayload>): Promise<void> {
+    return this.serialize(async () => {
+      const entries = await this.read();
+      if (entries.some((e) => e.id === entry.id)) {
+        await this.write(entries.map((e) => (e.id === entry.id ? entry : e)));
+        return;
+      }
+
+      await fs.mkdir(dirname(this.path), { recursive: true });
+      await fs.appendFile(this.path, `${JSON.stringify(entry)}\n`, 'utf8');
+    });
+  }
+
+  list(): Promise<Array<DeadLetterEntry<TPayload>>> {
+    return this.serialize(() => this.read());
+  }
+
+  remove(id: string): Promise<void> {
+    return this.serialize(async () => {
+      const entries = await this.read();
+      const remaining = entries.filter((e) => e.id !== id);
+      if (remaining.length !== entries.length) {
+        await this.write(remaining);
+      }
+    });
+  }
+
+  /**
+   * Run operations one at a time (read-modify-write must not interleave)
+   */
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async read(): Promise<Array<DeadLetterEntry<TPayload>>> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: Array<DeadLetterEntry<TPayload>> = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as DeadLetterEntry<TPayload>);
+      } catch {
+        // Partial line from an interrupted append
+      }
+    }
+    return entries;
+  }
+
+  private async write(entries: Array<DeadLetterEntry<TPayload>>): Promise<void> {
+    const tmpPath = `${this.path}.${process.pid}.tmp`;
+    const content = entries.map((e) => `${JSON.stringify(e)}\n`).join('');
+
+    await fs.mkdir(dirname(this.path), { recursive: true });
+    await fs.writeFile(tmpPath, content, 'utf8');
+    await fs.rename(tmpPath, this.path);
+  }
+}
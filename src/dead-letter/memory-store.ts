@@ -0,0 +1,28 @@
+import type { DeadLetterEntry, DeadLetterStore } from './base-store';
+
+/**
+ * Dead letter store em memória
+ * Útil para testes e processos de curta duração (perdido ao reiniciar)
+ */
+export class MemoryDeadLetterStore<TPayload = unknown> implements DeadLetterStore<TPayload> {
+  private readonly entries = new Map<string, DeadLetterEntry<TPayload>>();
+
+  async put(entry: DeadLetterEntry<TPayload>): Promise<void> {
+    this.entries.set(entry.id, entry);
+  }
+
+  async list(): Promise<Array<DeadLetterEntry<TPayload>>> {
+    return Array.from(this.entries.values());
+  }
+
+  async remove(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+
+  /**
+   * Quantidade de entradas armazenadas
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Error classes
+ */
+
+/**
+ * Error raised for non-2xx responses and timeouts
+ */
+export class HttpError extends Error {
+  /** HTTP status (undefined for timeouts) */
+  readonly status?: number;
+  readonly statusText?: string;
+  /** Response body, when available */
+  readonly body?: string;
+  /** Whether the request may succeed if retried */
+  readonly retryable: boolean;
+  /** Delay requested by the server via Retry-After (ms) */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    details: {
+      status?: number;
+      statusText?: string;
+      body?: string;
+      retryable: boolean;
+      retryAfterMs?: number;
+    },
+  ) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = details.status;
+    this.statusText = details.statusText;
+    this.body = details.body;
+    this.retryable = details.retryable;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+/**
+ * Error reply from a Redis server (e.g. WRONGTYPE, NOAUTH)
+ */
+export class RedisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisError';
+  }
+}
+
+/**
+ * Problem found in a card before sending
+ */
+export interface CardValidationIssue {
+  /** Location in the message JSON (e.g. cardsV2[0].card.sections[1].widgets[2].textParagraph.text) */
+  path: string;
+  message: string;
+}
+
+/**
+ * Error raised when a card breaks Google Chat's format or limits
+ * Never retried: sending the same card again cannot succeed
+ */
+export class CardValidationError extends Error {
+  readonly issues: CardValidationIssue[];
+
+  constructor(issues: CardValidationIssue[]) {
+    const shown = issues.slice(0, 5).map((issue) => `${issue.path} ${issue.message}`);
+    const more = issues.length > shown.length ? ` (+${issues.length - shown.length} more)` : '';
+    super(`Invalid card: ${shown.join('; ')}${more}`);
+    this.name = 'CardValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Unsupported or malformed YAML
+ */
+export class YamlSyntaxError extends Error {
+  /** Line where the problem was found (1-based) */
+  readonly line: number;
+  readonly reason: string;
+
+  constructor(line: number, reason: string) {
+    super(`YAML syntax error at line ${line}: ${reason}`);
+    this.name = 'YamlSyntaxError';
+    this.line = line;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Problem found in a template schema definition
+ */
+export interface TemplateDefinitionIssue {
+  /** Location in the definition (e.g. sections[0].widgets[2].field.label) */
+  path: string;
+  message: string;
+}
+
+/**
+ * Error raised when a template schema definition is invalid
+ */
+export class TemplateDefinitionError extends Error {
+  readonly issues: TemplateDefinitionIssue[];
+  /** File the definition was loaded from, when any */
+  readonly source?: string;
+
+  constructor(issues: TemplateDefinitionIssue[], source?: string) {
+    const shown = issues.slice(0, 5).map((issue) => `${issue.path} ${issue.message}`);
+    const more = issues.length > shown.length ? ` (+${issues.length - shown.length} more)` : '';
+    super(`Invalid template definition${source ? ` in ${source}` : ''}: ${shown.join('; ')}${more}`);
+    this.name = 'TemplateDefinitionError';
+    this.issues = issues;
+    this.source = source;
+  }
+}
+
+/**
+ * Error raised when a webhook name is not configured
+ * Thrown on send in 'strict' webhook resolution, and at startup for names
+ * declared by the schema or the routing rules
+ */
+export class WebhookNotFoundError extends Error {
+  /** Names that could not be resolved */
+  readonly webhookNames: string[];
+  /** Configured webhook names */
+  readonly knownWebhooks: string[];
+
+  constructor(webhookNames: string[], knownWebhooks: string[], reason = 'not found') {
+    const names = webhookNames.map((name) => `'${name}'`).join(', ');
+    const known = knownWebhooks.length
+      ? `Known webhooks: ${knownWebhooks.join(', ')}`
+      : 'No named webhooks configured';
+    super(`${webhookNames.length > 1 ? 'Webhooks' : 'Webhook'} ${names} ${reason}. ${known}`);
+    this.name = 'WebhookNotFoundError';
+    this.webhookNames = webhookNames;
+    this.knownWebhooks = knownWebhooks;
+  }
+}
+
+/**
+ * Error raised when a webhook's circuit is open and no fallback webhook can take the message
+ * Nothing is sent: the notification fails fast (and is dead-lettered when a store is configured)
+ */
+export class CircuitOpenError extends Error {
+  /** Webhook whose circuit is open (undefined = default) */
+  readonly webhookName?: string;
+  /** Time until the circuit lets a trial delivery through (ms) */
+  readonly retryAfterMs: number;
+
+  constructor(webhookName: string | undefined, retryAfterMs: number) {
+    const label = webhookName ? `'${webhookName}'` : 'default webhook';
+    super(`Circuit open for ${label}: failing fast (next trial in ${retryAfterMs}ms)`);
+    this.name = 'CircuitOpenError';
+    this.webhookName = webhookName;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Problem found in a configuration file
+ */
+export interface ConfigFileIssue {
+  /** Location in the file (e.g. profiles.prod.batch.size, or line 12 for syntax errors) */
+  path: string;
+  message: string;
+}
+
+/**
+ * Error raised when a configuration file (.chatnotifierrc) cannot be used
+ */
+export class ConfigFileError extends Error {
+  readonly issues: ConfigFileIssue[];
+  /** Path of the configuration file */
+  readonly source: string;
+
+  constructor(issues: ConfigFileIssue[], source: string) {
+    const shown = issues.slice(0, 5).map((issue) => `${issue.path} ${issue.message}`);
+    const more = issues.length > shown.length ? ` (+${issues.length - shown.length} more)` : '';
+    super(`Invalid config in ${source}: ${shown.join('; ')}${more}`);
+    this.name = 'ConfigFileError';
+    this.issues = issues;
+    this.source = source;
+  }
+}
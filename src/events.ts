@@ -0,0 +1,105 @@
+/**
+ * Notifier Events
+ *
+ * Typed event emitter for the notification lifecycle.
+ * Listeners are isolated: an exception thrown by one listener never breaks
+ * delivery nor prevents the remaining listeners from running.
+ * An optional observer sees every event without counting as a listener (metrics).
+ */
+
+import { defaultLogger } from './logger';
+import type { Logger } from './logger';
+import type { NotifierEventListener, NotifierEventMap, NotifierEventName } from './types';
+
+type AnyListener<TPayload> = NotifierEventListener<TPayload, NotifierEventName>;
+
+/** Called for every emitted event, before the listeners */
+export type NotifierEventObserver<TPayload> = (
+  event: NotifierEventName,
+  data: NotifierEventMap<TPayload>[NotifierEventName],
+) => void;
+
+export class NotifierEvents<TPayload> {
+  private readonly listeners = new Map<NotifierEventName, Array<AnyListener<TPayload>>>();
+  /** once() wrapper -> original listener, so off() accepts the listener given to once() */
+  private readonly onceOriginals = new WeakMap<AnyListener<TPayload>, AnyListener<TPayload>>();
+
+  constructor(
+    private readonly observer?: NotifierEventObserver<TPayload>,
+    private readonly logger: Logger = defaultLogger(),
+  ) {}
+
+  /**
+   * Register listener for an event
+   */
+  on<K extends NotifierEventName>(event: K, listener: NotifierEventListener<TPayload, K>): this {
+    const current = this.listeners.get(event) ?? [];
+    this.listeners.set(event, [...current, listener as AnyListener<TPayload>]);
+    return this;
+  }
+
+  /**
+   * Register listener for the next occurrence of an event only
+   */
+  once<K extends NotifierEventName>(event: K, listener: NotifierEventListener<TPayload, K>): this {
+    const wrapper: NotifierEventListener<TPayload, K> = (data) => {
+      this.off(event, wrapper);
+      listener(data);
+    };
+    this.onceOriginals.set(wrapper as AnyListener<TPayload>, listener as AnyListener<TPayload>);
+    return this.on(event, wrapper);
+  }
+
+  /**
+   * Remove listener (registered with on() or still pending from once())
+   */
+  off<K extends NotifierEventName>(event: K, listener: NotifierEventListener<TPayload, K>): this {
+    const current = this.listeners.get(event);
+    if (current) {
+      this.listeners.set(
+        event,
+        current.filter((l) => l !== listener && this.onceOriginals.get(l) !== listener),
+      );
+    }
+    return this;
+  }
+
+  /**
+   * Emit event to all registered listeners
+   */
+  emit<K extends NotifierEventName>(event: K, data: NotifierEventMap<TPayload>[K]): void {
+    try {
+      this.observer?.(event, data);
+    } catch (error) {
+      this.logger.error(`Notifier '${event}' observer failed`, { event, error });
+    }
+
+    const current = this.listeners.get(event);
+    if (!current) {
+      return;
+    }
+
+    // Snapshot: listeners removed during emit (once) must not affect iteration
+    for (const listener of [...current]) {
+      try {
+        (listener as NotifierEventListener<TPayload, K>)(data);
+      } catch (error) {
+        this.logger.error(`Notifier '${event}' listener failed`, { event, error });
+      }
+    }
+  }
+
+  /**
+   * Number of listeners registered for an event
+   */
+  listenerCount(event: NotifierEventName): number {
+    return this.listeners.get(event)?.length ?? 0;
+  }
+
+  /**
+   * Remove all listeners
+   */
+  clear(): void {
+    this.listeners.clear();
+  }
+}
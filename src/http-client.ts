@@ -2,83 +2,144 @@
  * HTTP Client
  *
  * Handles Google Chat webhook requests with retry logic and exponential backoff.
+ * Each attempt is delegated to a Transport (FetchTransport by default).
+ *
+ * Retry policy:
+ * - Retries network errors, timeouts, 408, 429 and 5xx responses
+ * - Fails fast on other statuses (400, 401, 403, 404...) since retrying cannot fix them
+ * - Backoff grows exponentially from initialDelayMs, capped at maxDelayMs, with jitter
+ * - Honors the Retry-After header (seconds or HTTP date) on 429/503
  */
 
-import fetch from 'node-fetch';
+import { HttpError } from './errors';
+import { defaultLogger } from './logger';
+import { FetchTransport } from './transports/fetch-transport';
+import type { Logger } from './logger';
+import type { Transport, TransportRequest, TransportResponse } from './transports/base-transport';
 
 export interface HttpClientOptions {
+  /** Timeout per attempt (ms) */
   timeoutMs?: number;
+  /** Maximum number of attempts (including the first one) */
   maxRetries?: number;
+  /** Base delay for exponential backoff (ms) */
   initialDelayMs?: number;
+  /** Upper bound for a single backoff delay, including Retry-After (ms) */
+  maxDelayMs?: number;
+  /** Randomize delays to avoid synchronized retries across workers */
+  jitter?: boolean;
+  /** Outbound HTTP(S) proxy for the default transport */
+  proxy?: string;
+  /** Receives debug output of requests, responses and retries (default: console) */
+  logger?: Logger;
+}
+
+export interface HttpResponse extends TransportResponse {
+  /** Number of attempts needed (1 = first try) */
+  attempts: number;
+}
+
+export interface HttpRetryInfo {
+  /** Attempt that just failed (1-based) */
+  attempt: number;
+  error: Error;
+  /** Delay before the next attempt */
+  delayMs: number;
+}
+
+export interface HttpAttemptInfo {
+  /** Attempt that just finished (1-based) */
+  attempt: number;
+  /** Time spent in the transport (ms) */
+  durationMs: number;
+  /** Response status (undefined for timeouts and network errors) */
+  status?: number;
+  error?: Error;
 }
 
-export interface HttpResponse {
-  ok: boolean;
-  status: number;
-  statusText: string;
-  body: string;
+export interface HttpRequestHooks {
+  /** Awaited before every attempt (e.g. rate limiting) */
+  beforeAttempt?: () => Promise<void>;
+  /** Called after every attempt, successful or not (e.g. latency metrics) */
+  afterAttempt?: (info: HttpAttemptInfo) => void;
+  /** Called before sleeping for the next attempt */
+  onRetry?: (info: HttpRetryInfo) => void;
 }
 
 export class HttpClient {
+  private readonly transport: Transport;
   private readonly maxRetries: number;
   private readonly initialDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly jitter: boolean;
+  private readonly logger: Logger;
 
-  constructor(options: HttpClientOptions = {}) {
+  constructor(options: HttpClientOptions = {}, transport?: Transport) {
+    this.logger = options.logger ?? defaultLogger();
+    this.transport =
+      transport ??
+      new FetchTransport({
+        timeoutMs: options.timeoutMs,
+        proxy: options.proxy,
+        logger: this.logger,
+      });
     this.maxRetries = options.maxRetries ?? 3;
     this.initialDelayMs = options.initialDelayMs ?? 300;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+    this.jitter = options.jitter ?? true;
   }
 
   /**
    * POST JSON to webhook with retry logic
+   * Payload is sent as-is; transports only serialize it
    */
-  async post(url: string, payload: unknown): Promise<HttpResponse> {
+  async post(url: string, payload: unknown, hooks: HttpRequestHooks = {}): Promise<HttpResponse> {
+    return this.send({ url, payload: payload as TransportRequest['payload'] }, hooks);
+  }
+
+  /**
+   * Deliver request through the transport with retry logic
+   */
+  async send(request: TransportRequest, hooks: HttpRequestHooks = {}): Promise<HttpResponse> {
+    const { url, webhookName, payload } = request;
     let lastError: Error | undefined;
 
-    // Log do payload sendo enviado
-    if (process.env.DEBUG_CHAT_NOTIFIER === 'true') {
-      // eslint-disable-next-line no-console
-      console.log('\n📤 HTTP CLIENT - SENDING:');
-      // eslint-disable-next-line no-console
-      console.log(JSON.stringify(payload, null, 2));
-    }
+    this.logger.debug('Sending webhook request', { url, webhook: webhookName, payload });
 
     for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      // Outside the try: a rejected hook aborts the request instead of being retried
+      await hooks.beforeAttempt?.();
+
+      const startedAt = Date.now();
       try {
-        const response = await fetch(url, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json; charset=UTF-8',
-          },
-          body: JSON.stringify(payload),
+        const response = await this.transport.send(request);
+        const durationMs = Date.now() - startedAt;
+        hooks.afterAttempt?.({ attempt, durationMs, status: response.status });
+        return { ...response, attempts: attempt };
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        hooks.afterAttempt?.({
+          attempt,
+          durationMs: Date.now() - startedAt,
+          status: lastError instanceof HttpError ? lastError.status : undefined,
+          error: lastError,
         });
 
-        const body = await response.text();
-
-        // Log da resposta recebida
-        if (process.env.DEBUG_CHAT_NOTIFIER === 'true') {
-          // eslint-disable-next-line no-console
-          console.log('\n📥 HTTP CLIENT - RESPONSE:');
-          // eslint-disable-next-line no-console
-          console.log('   Status:', response.status, response.statusText);
-          // eslint-disable-next-line no-console
-          console.log('   Body:', body);
-        }
-
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        // Permanent failures are not worth another attempt
+        if (lastError instanceof HttpError && !lastError.retryable) {
+          throw lastError;
         }
 
-        return {
-          ok: response.ok,
-          status: response.status,
-          statusText: response.statusText,
-          body,
-        };
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-
         if (attempt < this.maxRetries) {
-          const delay = this.initialDelayMs * Math.pow(2, attempt - 1); // Exponential backoff
+          const delay = this.computeDelay(attempt, lastError);
+          this.logger.debug('Retrying webhook request', {
+            url,
+            webhook: webhookName,
+            attempt,
+            delayMs: delay,
+            error: lastError,
+          });
+          hooks.onRetry?.({ attempt, error: lastError, delayMs: delay });
           await this.sleep(delay);
         }
       }
@@ -87,6 +148,28 @@ export class HttpClient {
     throw lastError || new Error('Max retries reached');
   }
 
+  /**
+   * Backoff delay before the attempt following `attempt`
+   */
+  private computeDelay(attempt: number, error: Error): number {
+    if (error instanceof HttpError && error.retryAfterMs !== undefined) {
+      return Math.min(error.retryAfterMs, this.maxDelayMs);
+    }
+
+    const exponential = Math.min(
+      this.initialDelayMs * Math.pow(2, attempt - 1), // Exponential backoff
+      this.maxDelayMs,
+    );
+
+    if (!this.jitter) {
+      return exponential;
+    }
+
+    // Equal jitter: keep at least half of the delay, randomize the rest
+    const half = exponential / 2;
+    return Math.round(half + Math.random() * half);
+  }
+
   /**
    * Sleep for specified milliseconds
    */
@@ -44,14 +44,21 @@ export class IdempotencyCache {
   }
 
   /**
-   * Add key to cache with TTL
+   * Add key to cache with TTL (defaults to the cache TTL)
    */
-  set(key: string): void {
+  set(key: string, ttlMs: number = this.ttlMs): void {
     this.cache.set(key, {
-      expiresAt: Date.now() + this.ttlMs,
+      expiresAt: Date.now() + ttlMs,
     });
   }
 
+  /**
+   * Remove key from cache
+   */
+  delete(key: string): void {
+    this.cache.delete(key);
+  }
+
   /**
    * Remove expired entries
    */
@@ -0,0 +1,51 @@
+/**
+ * Interface base para armazenamento de chaves de idempotência
+ *
+ * Implementações compartilhadas (arquivo, Redis) permitem que reinícios e
+ * múltiplas réplicas enxerguem as mesmas chaves já enviadas.
+ *
+ * Ciclo de vida de uma chave:
+ * - reserve(): pending (envio em andamento; bloqueia envios concorrentes)
+ * - set(): committed (enviada com sucesso)
+ * - release(): reserva desfeita (falha no envio), a chave pode ser enviada novamente
+ */
+export interface IdempotencyStore {
+  /**
+   * Verificar se a chave foi confirmada (committed e não expirada)
+   * Reservas pendentes não contam.
+   * @param key Idempotency key
+   */
+  has(key: string): Promise<boolean>;
+
+  /**
+   * Reservar chave de forma atômica
+   * @param key Idempotency key
+   * @param ttlMs Tempo de vida da reserva (ms), libera reservas órfãs (ex: crash)
+   * @returns false se a chave já estiver reservada ou confirmada
+   */
+  reserve(key: string, ttlMs: number): Promise<boolean>;
+
+  /**
+   * Confirmar chave como enviada (remove a reserva, se houver)
+   * @param key Idempotency key
+   * @param ttlMs Tempo de vida (ms)
+   */
+  set(key: string, ttlMs: number): Promise<void>;
+
+  /**
+   * Desfazer reserva pendente (chaves confirmadas não são afetadas)
+   * @param key Idempotency key
+   */
+  release(key: string): Promise<void>;
+
+  /**
+   * Remover chave, confirmada ou pendente (ignora chaves inexistentes)
+   * @param key Idempotency key
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Liberar recursos (timers, conexões) - opcional
+   */
+  destroy?(): Promise<void>;
+}
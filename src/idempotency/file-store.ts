@@ -0,0 +1,131 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { sha1 } from '../utils/crypto';
+import type { IdempotencyStore } from './base-store';
+
+export interface FileIdempotencyStoreOptions {
+  /** Diretório das chaves (criado sob demanda) */
+  dir: string;
+}
+
+/**
+ * Idempotency store em disco: um arquivo por chave
+ *
+ * - O nome do arquivo é o SHA-1 da chave; o conteúdo é a data de expiração
+ * - Chaves confirmadas (`.key`) são gravadas de forma atômica (tmp + rename)
+ * - Reservas (`.pending`) são criadas com a flag `wx`: apenas um processo vence
+ * - Vários processos no mesmo host podem compartilhar o diretório
+ * - Chaves e reservas expiradas são removidas quando consultadas
+ */
+export class FileIdempotencyStore implements IdempotencyStore {
+  private readonly dir: string;
+
+  constructor(options: FileIdempotencyStoreOptions) {
+    this.dir = options.dir;
+  }
+
+  async has(key: string): Promise<boolean> {
+    return this.isAlive(this.pathFor(key, 'key'));
+  }
+
+  async reserve(key: string, ttlMs: number): Promise<boolean> {
+    if (await this.has(key)) {
+      return false;
+    }
+
+    const pendingPath = this.pathFor(key, 'pending');
+    await fs.mkdir(this.dir, { recursive: true });
+
+    if (!(await this.createExclusive(pendingPath, Date.now() + ttlMs))) {
+      // Someone holds the reservation, unless it is an orphan from a crashed process
+      if (await this.isAlive(pendingPath)) {
+        return false;
+      }
+      if (!(await this.createExclusive(pendingPath, Date.now() + ttlMs))) {
+        return false;
+      }
+    }
+
+    // A sender may have committed between our check and the reservation
+    if (await this.has(key)) {
+      await this.unlink(pendingPath);
+      return false;
+    }
+
+    return true;
+  }
+
+  async set(key: string, ttlMs: number): Promise<void> {
+    const path = this.pathFor(key, 'key');
+    const tmpPath = `${path}.${process.pid}.${Date.now()}.tmp`;
+
+    // Committed key is written before the reservation goes away (see reserve)
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(tmpPath, String(Date.now() + ttlMs), 'utf8');
+    await fs.rename(tmpPath, path);
+    await this.unlink(this.pathFor(key, 'pending'));
+  }
+
+  async release(key: string): Promise<void> {
+    await this.unlink(this.pathFor(key, 'pending'));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.unlink(this.pathFor(key, 'key'));
+    await this.unlink(this.pathFor(key, 'pending'));
+  }
+
+  private pathFor(key: string, kind: 'key' | 'pending'): string {
+    return join(this.dir, `${sha1(key)}.${kind}`);
+  }
+
+  /**
+   * Whether file exists and has not expired (expired files are removed)
+   */
+  private async isAlive(path: string): Promise<boolean> {
+    let content: string;
+    try {
+      content = await fs.readFile(path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+
+    // Empty content: the owner created the file but has not written it yet
+    if (content && Date.now() > Number(content)) {
+      await this.unlink(path);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Create file only if it does not exist
+   * @returns false when the file already exists
+   */
+  private async createExclusive(path: string, expiresAt: number): Promise<boolean> {
+    try {
+      await fs.writeFile(path, String(expiresAt), { encoding: 'utf8', flag: 'wx' });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async unlink(path: string): Promise<void> {
+    try {
+      await fs.unlink(path);
+    } catch (error) {
+      // Already removed (possibly by another process)
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+}
@@ -0,0 +1,8 @@
+export type { IdempotencyStore } from './base-store';
+export { MemoryIdempotencyStore } from './memory-store';
+export { FileIdempotencyStore } from './file-store';
+export type { FileIdempotencyStoreOptions } from './file-store';
+export { RedisIdempotencyStore } from './redis-store';
+export type { RedisIdempotencyStoreOptions } from './redis-store';
+export { RedisClient } from './redis-client';
+export type { RedisClientOptions, RespValue } from './redis-client';
@@ -0,0 +1,56 @@
+import { IdempotencyCache } from '../idempotency-cache';
+import type { IdempotencyStore } from './base-store';
+
+/**
+ * Idempotency store em memória (default)
+ * Chaves são perdidas ao reiniciar e não são compartilhadas entre processos
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private readonly cache: IdempotencyCache;
+  private readonly pending: IdempotencyCache;
+
+  constructor() {
+    this.cache = new IdempotencyCache();
+    this.pending = new IdempotencyCache();
+  }
+
+  async has(key: string): Promise<boolean> {
+    return this.cache.has(key);
+  }
+
+  async reserve(key: string, ttlMs: number): Promise<boolean> {
+    // Check and reservation run in the same tick: atomic within the process
+    if (this.cache.has(key) || this.pending.has(key)) {
+      return false;
+    }
+
+    this.pending.set(key, ttlMs);
+    return true;
+  }
+
+  async set(key: string, ttlMs: number): Promise<void> {
+    this.cache.set(key, ttlMs);
+    this.pending.delete(key);
+  }
+
+  async release(key: string): Promise<void> {
+    this.pending.delete(key);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.cache.delete(key);
+    this.pending.delete(key);
+  }
+
+  async destroy(): Promise<void> {
+    this.cache.destroy();
+    this.pending.destroy();
+  }
+
+  /**
+   * Quantidade de chaves confirmadas (inclui expiradas ainda não limpas)
+   */
+  get size(): number {
+    return this.cache.size;
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Redis Client
+ *
+ * Minimal RESP2 client, just enough for the idempotency store (no dependency on a
+ * Redis driver). Commands are pipelined over a single connection and replies are
+ * matched in FIFO order.
+ * - Connects lazily on the first command, sending AUTH/SELECT when configured
+ * - Error replies reject only their own command (RedisError)
+ * - Connection errors reject every pending command; the next command reconnects
+ */
+
+import { connect, type Socket } from 'net';
+import { RedisError } from '../errors';
+
+export type RespValue = string | number | null | RedisError | RespValue[];
+
+export interface RedisClientOptions {
+  /** Connection URL: redis://[:password@]host[:port][/db] */
+  url?: string;
+  host?: string;
+  port?: number;
+  password?: string;
+  db?: number;
+  /** Connection timeout (ms) */
+  connectTimeoutMs?: number;
+}
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+export class RedisClient {
+  private readonly host: string;
+  private readonly port: number;
+  private readonly password?: string;
+  private readonly db?: number;
+  private readonly connectTimeoutMs: number;
+  private socket?: Socket;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingReply[] = [];
+
+  constructor(options: RedisClientOptions = {}) {
+    const url = options.url ? new URL(options.url) : undefined;
+    const db = url?.pathname.slice(1);
+
+    this.host = options.host ?? (url?.hostname || '127.0.0.1');
+    this.port = options.port ?? (Number(url?.port) || 6379);
+    this.password = options.password ?? (url?.password ? decodeURIComponent(url.password) : undefined);
+    this.db = options.db ?? (db ? Number(db) : undefined);
+    this.connectTimeoutMs = options.connectTimeoutMs ?? 5000;
+  }
+
+  /**
+   * Send command and wait for its reply
+   */
+  command(args: Array<string | number>): Promise<RespValue> {
+    const socket = this.socket ?? this.open();
+    return this.write(socket, args);
+  }
+
+  /**
+   * Close connection gracefully
+   */
+  async quit(): Promise<void> {
+    const socket = this.socket;
+    if (!socket) {
+      return;
+    }
+
+    try {
+      await this.write(socket, ['QUIT']);
+    } finally {
+      socket.destroy();
+    }
+  }
+
+  private open(): Socket {
+    const socket = connect({ host: this.host, port: this.port });
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+
+    socket.setNoDelay(true);
+    socket.setTimeout(this.connectTimeoutMs, () => {
+      socket.destroy(new Error(`Redis connection timed out after ${this.connectTimeoutMs}ms`));
+    });
+    socket.once('connect', () => socket.setTimeout(0));
+    socket.on('data', (chunk) => this.onData(chunk));
+    socket.on('error', (error) => this.fail(socket, error));
+    socket.on('close', () => this.fail(socket, new Error('Redis connection closed')));
+
+    // Queued before any caller command, so replies stay in order
+    if (this.password !== undefined) {
+      this.write(socket, ['AUTH', this.password]).catch(() => undefined);
+    }
+    if (this.db !== undefined) {
+      this.write(socket, ['SELECT', this.db]).catch(() => undefined);
+    }
+
+    return socket;
+  }
+
+  private write(socket: Socket, args: Array<string | number>): Promise<RespValue> {
+    return new Promise<RespValue>((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    try {
+      let parsed = parseReply(this.buffer, 0);
+      while (parsed) {
+        this.buffer = this.buffer.subarray(parsed.offset);
+        const reply = this.pending.shift();
+        if (parsed.value instanceof RedisError) {
+          reply?.reject(parsed.value);
+        } else {
+          reply?.resolve(parsed.value);
+        }
+        parsed = parseReply(this.buffer, 0);
+      }
+    } catch (error) {
+      // Out of sync with the server: drop the connection
+      this.socket?.destroy(error as Error);
+    }
+  }
+
+  private fail(socket: Socket, error: Error): void {
+    if (this.socket !== socket) {
+      return;
+    }
+
+    this.socket = undefined;
+    this.pending.splice(0).forEach((reply) => reply.reject(error));
+  }
+}
+
+/**
+ * Encode command as a RESP array of bulk strings
+ */
+export function encodeCommand(args: Array<string | number>): Buffer {
+  const parts = args.map((arg) => {
+    const value = String(arg);
+    return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  });
+  return Buffer.from(`*${args.length}\r\n${parts.join('')}`);
+}
+
+/**
+ * Parse one reply starting at offset
+ * @returns Parsed value and the offset after it, or undefined when incomplete
+ */
+export function parseReply(
+  buffer: Buffer,
+  offset: number,
+): { value: RespValue; offset: number } | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) {
+    return undefined;
+  }
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new RedisError(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) {
+        return { value: null, offset: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return undefined;
+      }
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) {
+        return { value: null, offset: next };
+      }
+      const values: RespValue[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) {
+          return undefined;
+        }
+        values.push(item.value);
+        position = item.offset;
+      }
+      return { value: values, offset: position };
+    }
+    default:
+      throw new RedisError(`Unexpected RESP reply type: ${type}`);
+  }
+}
@@ -0,0 +1,89 @@
+import { RedisClient, type RedisClientOptions } from './redis-client';
+import type { IdempotencyStore } from './base-store';
+
+export interface RedisIdempotencyStoreOptions extends RedisClientOptions {
+  /** Cliente já existente (compartilhado); por padrão um novo é criado */
+  client?: RedisClient;
+  /** Prefixo das chaves no Redis (default: 'chat-notifier:idempotency:') */
+  keyPrefix?: string;
+}
+
+/**
+ * Idempotency store no Redis (compartilhado entre réplicas)
+ *
+ * Reservas e chaves confirmadas usam chaves separadas (`<prefix>pending:<key>` e
+ * `<prefix><key>`) e apenas EXISTS, SET ... NX PX e DEL: funciona com Redis, Valkey,
+ * KeyDB e qualquer servidor compatível com o protocolo RESP, sem scripts Lua.
+ */
+export class RedisIdempotencyStore implements IdempotencyStore {
+  private readonly client: RedisClient;
+  private readonly ownsClient: boolean;
+  private readonly keyPrefix: string;
+
+  constructor(options: RedisIdempotencyStoreOptions = {}) {
+    this.client = options.client ?? new RedisClient(options);
+    this.ownsClient = !options.client;
+    this.keyPrefix = options.keyPrefix ?? 'chat-notifier:idempotency:';
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.client.command(['EXISTS', this.committedKey(key)])) === 1;
+  }
+
+  async reserve(key: string, ttlMs: number): Promise<boolean> {
+    if (await this.has(key)) {
+      return false;
+    }
+
+    const reply = await this.client.command(['SET', this.pendingKey(key), '1', 'NX', 'PX', toPx(ttlMs)]);
+    if (reply !== 'OK') {
+      return false;
+    }
+
+    // set() writes the committed key before dropping the reservation, so a commit
+    // racing with this reservation is always visible here
+    if (await this.has(key)) {
+      await this.release(key);
+      return false;
+    }
+
+    return true;
+  }
+
+  async set(key: string, ttlMs: number): Promise<void> {
+    await this.client.command(['SET', this.committedKey(key), '1', 'PX', toPx(ttlMs)]);
+    await this.release(key);
+  }
+
+  async release(key: string): Promise<void> {
+    await this.client.command(['DEL', this.pendingKey(key)]);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.command(['DEL', this.committedKey(key), this.pendingKey(key)]);
+  }
+
+  /**
+   * Fecha a conexão (apenas quando o cliente foi criado pelo store)
+   */
+  async destroy(): Promise<void> {
+    if (this.ownsClient) {
+      await this.client.quit();
+    }
+  }
+
+  private committedKey(key: string): string {
+    return this.keyPrefix + key;
+  }
+
+  private pendingKey(key: string): string {
+    return `${this.keyPrefix}pending:${key}`;
+  }
+}
+
+/**
+ * Redis expects a positive integer for PX
+ */
+function toPx(ttlMs: number): number {
+  return Math.max(1, Math.ceil(ttlMs));
+}
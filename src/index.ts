@@ -3,7 +3,120 @@
  */
 
 export { NotifierImpl } from './notifier';
+export {
+  HttpError,
+  RedisError,
+  CardValidationError,
+  YamlSyntaxError,
+  TemplateDefinitionError,
+  WebhookNotFoundError,
+  ConfigFileError,
+  CircuitOpenError,
+} from './errors';
+export type { CardValidationIssue, TemplateDefinitionIssue, ConfigFileIssue } from './errors';
+export { loadConfigFile, mergeConfigFileOptions, CONFIG_FILE_NAMES } from './config-file';
+export type { ConfigFileOptions, LoadConfigFileOptions } from './config-file';
+export { validateCard, assertValidCard, fitCard, CARD_LIMITS } from './card-validator';
+export type { CardLimits, CardValidationMode } from './card-validator';
+export { FetchTransport, RecordingTransport } from './transports';
+export type { Transport, TransportRequest, TransportResponse } from './transports';
+export type { RecordedRequest, ScriptedResponse } from './transports/recording-transport';
+export { MemoryDeadLetterStore, JsonlDeadLetterStore } from './dead-letter';
+export { MetricsRegistry, formatPrometheus, PROMETHEUS_CONTENT_TYPE } from './metrics';
+export type {
+  MetricSnapshot,
+  CounterSnapshot,
+  GaugeSnapshot,
+  HistogramSnapshot,
+  MetricSample,
+  HistogramSample,
+  MetricLabels,
+} from './metrics';
+export { ConsoleLogger, JsonLinesLogger, withRedaction } from './logger';
+export type { Logger, LogLevel, LogContext, LogThreshold, JsonLinesLoggerOptions } from './logger';
+export type {
+  DeadLetterEntry,
+  DeadLetterStore,
+  JsonlDeadLetterStoreOptions,
+} from './dead-letter';
+export {
+  MemoryIdempotencyStore,
+  FileIdempotencyStore,
+  RedisIdempotencyStore,
+  RedisClient,
+} from './idempotency';
+export type {
+  IdempotencyStore,
+  FileIdempotencyStoreOptions,
+  RedisIdempotencyStoreOptions,
+  RedisClientOptions,
+} from './idempotency';
+export { EnvSecretsProvider, FileSecretsProvider } from './secrets';
+export type {
+  SecretsProvider,
+  EnvSecretsProviderOptions,
+  FileSecretsProviderOptions,
+} from './secrets';
+export {
+  card,
+  knownIcon,
+  iconUrl,
+  materialIcon,
+  openLink,
+  linkButton,
+  hexColor,
+} from './cards';
+export type {
+  CardDraft,
+  SectionBuilder,
+  ColumnBuilder,
+  SectionOptions,
+  GridOptions,
+  ColumnDefinition,
+  Card,
+  CardHeader,
+  CardSection,
+  CardWidget,
+  ColumnWidget,
+  CardColumn,
+  CardButton,
+  CardIcon,
+  CardColor,
+  CardOnClick,
+  KnownIcon,
+  DecoratedText,
+  GridItem,
+} from './cards';
+export {
+  SlackRenderer,
+  TeamsRenderer,
+  DiscordRenderer,
+  GoogleChatRenderer,
+  getRenderer,
+  toGoogleCard,
+  fromGoogleCard,
+  PLATFORMS,
+} from './channels';
+export type {
+  ChannelRenderer,
+  Platform,
+  NeutralMessage,
+  NeutralCard,
+  NeutralSection,
+  NeutralBlock,
+  NeutralButton,
+} from './channels';
 export { TombamentoSchema } from './schemas/tombamento-schema';
+export { TemplateSchema, validateTemplateDefinition } from './schemas/template-schema';
+export type {
+  TemplateDefinition,
+  TemplateSection,
+  TemplateWidget,
+  TemplateButton,
+  TemplateCondition,
+} from './schemas/template-schema';
+export { parseYaml } from './utils/yaml';
+export { redactSecrets } from './utils/url';
 export type { EventSchema } from './schemas/base-schema';
 export type {
   Notifier,
@@ -12,6 +125,30 @@ export type {
   TombamentoEvent,
   TombamentoNotifier,
   CardPayload,
+  WebhookDefinition,
+  MessageReplyOption,
+  NotificationEvent,
+  NotifierEventMap,
+  NotifierEventName,
+  NotifierEventListener,
+  NotifyResult,
+  NotifySentResult,
+  NotifyFilteredResult,
+  NotifyDuplicateResult,
+  NotifyQueuedResult,
+  NotifyFanOutResult,
+  NotifyTargetResult,
+  NotifyFailedResult,
+  RoutingRule,
+  WebhookResolution,
+  CircuitState,
+  CircuitBreakerOptions,
+  CircuitEvent,
+  RoutingMode,
+  RouteCondition,
+  RouteValue,
+  ReplayDeadLettersOptions,
+  ReplayDeadLettersResult,
 } from './types';
 
 // Factory functions
@@ -47,7 +184,25 @@ export function createTombamentoNotifier(
   return {
     notify: (payload, webhookName) => notifier.notify(payload, webhookName),
     flush: () => notifier.flush(),
+    replayDeadLetters: (replayOptions) => notifier.replayDeadLetters(replayOptions),
+    getMetrics: () => notifier.getMetrics(),
+    getRateLimitQueueDepth: (webhookName) => notifier.getRateLimitQueueDepth(webhookName),
+    getCircuitState: (webhookName) => notifier.getCircuitState(webhookName),
+    getWebhookNames: () => notifier.getWebhookNames(),
+    getWebhookGroups: () => notifier.getWebhookGroups(),
     destroy: () => notifier.destroy(),
+    on(event, listener) {
+      notifier.on(event, listener);
+      return this;
+    },
+    once(event, listener) {
+      notifier.once(event, listener);
+      return this;
+    },
+    off(event, listener) {
+      notifier.off(event, listener);
+      return this;
+    },
 
     // Convenience methods
     uploaded: (payload) =>
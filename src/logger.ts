@@ -0,0 +1,232 @@
+/**
+ * Logger
+ *
+ * Structured, level-based logging for the notifier and its components.
+ * - Logger: the interface to implement (or adapt pino/winston to)
+ * - ConsoleLogger: default; warnings and errors on the console, debug output
+ *   when DEBUG_CHAT_NOTIFIER=true
+ * - JsonLinesLogger: one JSON object per line (time, level, msg + context)
+ * - withRedaction: wraps any logger so webhook tokens, key= parameters and
+ *   URL secrets never reach the output, including inside error messages
+ */
+
+import { redactSecrets } from './utils/url';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/** Structured fields attached to a log call */
+export type LogContext = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  error(message: string, context?: LogContext): void;
+  /** Whether a level is written (optional; lets callers skip building and redacting context) */
+  isLevelEnabled?(level: LogLevel): boolean;
+}
+
+/** Minimum level of the built-in loggers ('silent' = nothing) */
+export type LogThreshold = LogLevel | 'silent';
+
+const LEVELS: Record<LogThreshold, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 50,
+};
+
+/** Context keys whose values are always masked */
+const SECRET_KEYS = /^(token|secret|password|authorization|proxy-authorization)$/i;
+
+/**
+ * Console output (the default logger)
+ * Only warn and error are printed unless DEBUG_CHAT_NOTIFIER=true or another level is given
+ * Notifiers pass their own env, so `env: false` or an injected env is honored
+ */
+export class ConsoleLogger implements Logger {
+  private readonly threshold: number;
+
+  constructor(level?: LogThreshold, env: NodeJS.ProcessEnv = process.env) {
+    const fallback = env.DEBUG_CHAT_NOTIFIER === 'true' ? 'debug' : 'warn';
+    this.threshold = LEVELS[level ?? fallback];
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return this.threshold <= LEVELS[level];
+  }
+
+  debug(message: string, context?: LogContext): void {
+    if (this.isLevelEnabled('debug')) {
+      // eslint-disable-next-line no-console
+      console.debug(...consoleArgs(message, context));
+    }
+  }
+
+  info(message: string, context?: LogContext): void {
+    if (this.isLevelEnabled('info')) {
+      // eslint-disable-next-line no-console
+      console.info(...consoleArgs(message, context));
+    }
+  }
+
+  warn(message: string, context?: LogContext): void {
+    if (this.isLevelEnabled('warn')) {
+      console.warn(...consoleArgs(message, context));
+    }
+  }
+
+  error(message: string, context?: LogContext): void {
+    if (this.isLevelEnabled('error')) {
+      console.error(...consoleArgs(message, context));
+    }
+  }
+}
+
+export interface JsonLinesLoggerOptions {
+  /** Minimum level written (default: 'info') */
+  level?: LogThreshold;
+  /** Destination (default: process.stdout) */
+  stream?: { write(chunk: string): unknown };
+  /** Fields added to every line (e.g. { service: 'ingest' }) */
+  base?: LogContext;
+}
+
+/**
+ * One JSON object per line: {"time":"...","level":"warn","msg":"...", ...context}
+ * Errors are serialized with name, message, stack and their own fields (e.g. status)
+ */
+export class JsonLinesLogger implements Logger {
+  private readonly threshold: number;
+  private readonly stream: { write(chunk: string): unknown };
+  private readonly base: LogContext;
+
+  constructor(options: JsonLinesLoggerOptions = {}) {
+    this.threshold = LEVELS[options.level ?? 'info'];
+    this.stream = options.stream ?? process.stdout;
+    this.base = options.base ?? {};
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return this.threshold <= LEVELS[level];
+  }
+
+  debug(message: string, context?: LogContext): void {
+    this.write('debug', message, context);
+  }
+
+  info(message: string, context?: LogContext): void {
+    this.write('info', message, context);
+  }
+
+  warn(message: string, context?: LogContext): void {
+    this.write('warn', message, context);
+  }
+
+  error(message: string, context?: LogContext): void {
+    this.write('error', message, context);
+  }
+
+  private write(level: LogLevel, message: string, context: LogContext = {}): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const line = { time: new Date().toISOString(), level, msg: message, ...this.base, ...context };
+    this.stream.write(`${JSON.stringify(line, (_key, value: unknown) => serializeError(value))}\n`);
+  }
+}
+
+/**
+ * Wrap a logger so messages and context never carry webhook secrets
+ * Errors keep their class (instanceof, pino/winston serializers) with masked message and stack
+ * Calls of disabled levels (isLevelEnabled) are dropped before any copy is made
+ */
+export function withRedaction(logger: Logger): Logger {
+  const isLevelEnabled = (level: LogLevel): boolean => logger.isLevelEnabled?.(level) ?? true;
+  const redacted =
+    (level: LogLevel) =>
+    (message: string, context?: LogContext): void => {
+      if (!isLevelEnabled(level)) {
+        return;
+      }
+      if (context === undefined) {
+        logger[level](redactSecrets(message));
+      } else {
+        logger[level](redactSecrets(message), redactValue(context, new WeakSet()) as LogContext);
+      }
+    };
+
+  return {
+    debug: redacted('debug'),
+    info: redacted('info'),
+    warn: redacted('warn'),
+    error: redacted('error'),
+    isLevelEnabled,
+  };
+}
+
+/**
+ * Default logger of components created without one (console, redacted)
+ */
+export function defaultLogger(): Logger {
+  return withRedaction(new ConsoleLogger());
+}
+
+function consoleArgs(message: string, context?: LogContext): unknown[] {
+  return context === undefined ? [message] : [message, context];
+}
+
+/**
+ * Copy of a value with secrets masked (strings, errors, arrays and plain objects)
+ */
+function redactValue(value: unknown, seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') {
+    return redactSecrets(value);
+  }
+  if (value === null || typeof value !== 'object' || seen.has(value)) {
+    return value;
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    return redactError(value, seen);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, seen));
+  }
+  if (Object.getPrototypeOf(value) !== Object.prototype && Object.getPrototypeOf(value) !== null) {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_KEYS.test(key) && item ? '***' : redactValue(item, seen),
+    ]),
+  );
+}
+
+function redactError(error: Error, seen: WeakSet<object>): Error {
+  const copy = Object.create(Object.getPrototypeOf(error) as object) as Error;
+  Object.entries(error).forEach(([key, item]) => {
+    (copy as unknown as Record<string, unknown>)[key] = redactValue(item, seen);
+  });
+  for (const key of ['message', 'stack'] as const) {
+    Object.defineProperty(copy, key, {
+      value: error[key] === undefined ? undefined : redactSecrets(error[key] ?? ''),
+      writable: true,
+      configurable: true,
+      enumerable: false,
+    });
+  }
+  return copy;
+}
+
+function serializeError(value: unknown): unknown {
+  if (!(value instanceof Error)) {
+    return value;
+  }
+  return { ...value, name: value.name, message: value.message, stack: value.stack };
+}
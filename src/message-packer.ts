@@ -0,0 +1,199 @@
+/**
+ * Message Packer
+ *
+ * Packs several rendered cards into as few Google Chat messages as possible.
+ * Two strategies:
+ * - 'cards': concatenate cards into one message's cardsV2 array
+ * - 'digest': merge cards into a single digest card (one section per item)
+ *
+ * 'cards' expects entries of a single thread. 'digest' accepts entries of several
+ * threads: the digest keeps the thread only when every item shares it.
+ *
+ * Every produced message respects the per-message byte limit, the card/widget
+ * counts given in PackLimits and, when given, the destination platform's own check
+ * (e.g. Slack's 50 blocks); when an item does not fit, a new message is started.
+ * An item that exceeds the limits on its own is still emitted alone, so callers never
+ * lose it silently (Google Chat will reject it with a 400, other platforms' renderers
+ * with a CardValidationError).
+ */
+
+import type { CardPayload } from './types';
+
+type CardEntry = CardPayload['cardsV2'][number];
+type Section = CardEntry['card']['sections'][number];
+
+export interface PackLimits {
+  /** Maximum serialized message size (bytes) */
+  maxMessageBytes: number;
+  /** Maximum cards in a message's cardsV2 array */
+  maxCardsPerMessage: number;
+  /** Maximum widgets in a single card */
+  maxWidgetsPerCard: number;
+  /** Extra check of a packed message (e.g. limits of the platform's rendered body) */
+  fits?: (payload: CardPayload) => boolean;
+}
+
+/**
+ * Google Chat message limits (conservative defaults)
+ */
+export const CHAT_LIMITS: PackLimits = {
+  maxMessageBytes: 32000,
+  maxCardsPerMessage: 10,
+  maxWidgetsPerCard: 100,
+};
+
+export interface PackEntry<TRef> {
+  /** Rendered message for a single item */
+  card: CardPayload;
+  /** Caller reference carried to the packed message (e.g. batch item) */
+  ref: TRef;
+}
+
+export interface PackedMessage<TRef> {
+  payload: CardPayload;
+  /** References of every item contained in the message */
+  refs: TRef[];
+}
+
+export type PackStrategy = 'cards' | 'digest';
+
+/**
+ * Pack entries that share the same destination (webhook + thread)
+ */
+export function packMessages<TRef>(
+  entries: Array<PackEntry<TRef>>,
+  strategy: PackStrategy,
+  limits: PackLimits = CHAT_LIMITS,
+): Array<PackedMessage<TRef>> {
+  return strategy === 'digest' ? packDigest(entries, limits) : packCards(entries, limits);
+}
+
+/**
+ * Serialized size of a message in bytes
+ */
+export function messageBytes(payload: CardPayload): number {
+  return Buffer.byteLength(JSON.stringify(payload), 'utf8');
+}
+
+function packCards<TRef>(
+  entries: Array<PackEntry<TRef>>,
+  limits: PackLimits,
+): Array<PackedMessage<TRef>> {
+  const messages: Array<PackedMessage<TRef>> = [];
+  let current: PackedMessage<TRef> | undefined;
+
+  for (const entry of entries) {
+    if (current) {
+      const candidate = withCards(current.payload, entry.card.cardsV2);
+      if (
+        candidate.cardsV2.length <= limits.maxCardsPerMessage &&
+        messageBytes(candidate) <= limits.maxMessageBytes &&
+        (limits.fits?.(candidate) ?? true)
+      ) {
+        current.payload = candidate;
+        current.refs.push(entry.ref);
+        continue;
+      }
+    }
+
+    current = { payload: withCards(threadOnly(entry.card), entry.card.cardsV2), refs: [entry.ref] };
+    messages.push(current);
+  }
+
+  return messages;
+}
+
+function packDigest<TRef>(
+  entries: Array<PackEntry<TRef>>,
+  limits: PackLimits,
+): Array<PackedMessage<TRef>> {
+  const groups: Array<{ thread: CardPayload; sections: Section[]; refs: TRef[] }> = [];
+  let current: (typeof groups)[number] | undefined;
+
+  for (const entry of entries) {
+    const sections = toDigestSections(entry.card);
+
+    if (current) {
+      const candidate = [...current.sections, ...sections];
+      const thread = sameThread(current.thread, entry.card) ? current.thread : { cardsV2: [] };
+      const digest = buildDigest(thread, candidate, current.refs.length + 1);
+      if (
+        countWidgets(candidate) <= limits.maxWidgetsPerCard &&
+        messageBytes(digest) <= limits.maxMessageBytes &&
+        (limits.fits?.(digest) ?? true)
+      ) {
+        current.thread = thread;
+        current.sections = candidate;
+        current.refs.push(entry.ref);
+        continue;
+      }
+    }
+
+    current = { thread: threadOnly(entry.card), sections, refs: [entry.ref] };
+    groups.push(current);
+  }
+
+  return groups.map((group) => ({
+    payload: buildDigest(group.thread, group.sections, group.refs.length),
+    refs: group.refs,
+  }));
+}
+
+/**
+ * Append cards, renaming cardIds so they stay unique inside the message
+ */
+function withCards(base: CardPayload, cards: CardEntry[]): CardPayload {
+  const existing = base.cardsV2.length;
+  return {
+    ...base,
+    cardsV2: [
+      ...base.cardsV2,
+      ...cards.map((entry, index) => ({ ...entry, cardId: `${entry.cardId}-${existing + index}` })),
+    ],
+  };
+}
+
+/**
+ * Empty message carrying only the thread of the given one
+ */
+function threadOnly(payload: CardPayload): CardPayload {
+  return payload.thread ? { thread: payload.thread, cardsV2: [] } : { cardsV2: [] };
+}
+
+function sameThread(a: CardPayload, b: CardPayload): boolean {
+  return a.thread?.threadKey === b.thread?.threadKey;
+}
+
+/**
+ * Each card section becomes a digest section titled with the card header
+ */
+function toDigestSections(payload: CardPayload): Section[] {
+  return payload.cardsV2.flatMap(({ card }) => {
+    const title = card.header
+      ? [card.header.title, card.header.subtitle].filter(Boolean).join(' · ')
+      : undefined;
+    const widgets = card.sections.flatMap((section) => section.widgets);
+    return [title ? { header: title, widgets } : { widgets }];
+  });
+}
+
+function buildDigest(thread: CardPayload, sections: Section[], count: number): CardPayload {
+  return {
+    ...thread,
+    cardsV2: [
+      {
+        cardId: `digest-${Date.now()}`,
+        card: {
+          header: {
+            title: `📦 ${count} ${count === 1 ? 'notificação' : 'notificações'}`,
+          },
+          sections,
+        },
+      },
+    ],
+  };
+}
+
+function countWidgets(sections: Section[]): number {
+  return sections.reduce((total, section) => total + section.widgets.length, 0);
+}
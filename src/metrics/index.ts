@@ -0,0 +1,13 @@
+export { MetricsRegistry, Counter, Histogram, DEFAULT_LATENCY_BUCKETS } from './registry';
+export type {
+  MetricLabels,
+  MetricSample,
+  HistogramSample,
+  MetricSnapshot,
+  CounterSnapshot,
+  GaugeSnapshot,
+  HistogramSnapshot,
+  GaugeCollector,
+} from './registry';
+export { formatPrometheus, PROMETHEUS_CONTENT_TYPE } from './prometheus';
+export { NotifierMetrics } from './notifier-metrics';
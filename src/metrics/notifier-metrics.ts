@@ -0,0 +1,99 @@
+/**
+ * Notifier Metrics
+ *
+ * Metrics recorded by one notifier (every series carries its schema name):
+ * - chat_notifier_notifications_total{schema,event,webhook,outcome}
+ *   outcome: filtered, deduplicated, queued, sent or failed
+ * - chat_notifier_retries_total{schema,event,webhook}
+ * - chat_notifier_circuit_transitions_total{schema,webhook,state}
+ * - chat_notifier_http_request_duration_seconds{schema,webhook,status} (one observation
+ *   per HTTP attempt; status is 'error' for timeouts and network errors)
+ * - chat_notifier_batch_queue_depth{schema} and chat_notifier_idempotency_cache_size{schema}
+ *
+ * Lifecycle counters are fed by the notifier's event emitter, so they match
+ * the events seen by listeners.
+ */
+
+import type { Counter, Histogram, MetricsRegistry, MetricSnapshot } from './registry';
+import type { NotifierEventMap, NotifierEventName } from '../types';
+
+export class NotifierMetrics<TPayload> {
+  private readonly notifications: Counter;
+  private readonly retries: Counter;
+  private readonly circuitTransitions: Counter;
+  private readonly httpDuration: Histogram;
+  /** Gauge collectors of this notifier (removed on destroy) */
+  private readonly collectors: Array<() => void> = [];
+
+  constructor(
+    private readonly registry: MetricsRegistry,
+    private readonly schema: string,
+    private readonly getEvent: (payload: TPayload) => string | undefined,
+  ) {
+    this.notifications = registry.counter(
+      'chat_notifier_notifications_total',
+      'Notifications by lifecycle outcome',
+    );
+    this.retries = registry.counter('chat_notifier_retries_total', 'Delivery attempts retried');
+    this.circuitTransitions = registry.counter(
+      'chat_notifier_circuit_transitions_total',
+      'Webhook circuit breaker state changes',
+    );
+    this.httpDuration = registry.histogram(
+      'chat_notifier_http_request_duration_seconds',
+      'Duration of webhook HTTP attempts',
+    );
+  }
+
+  /**
+   * Count a lifecycle event
+   */
+  recordEvent(event: NotifierEventName, data: NotifierEventMap<TPayload>[NotifierEventName]): void {
+    const webhook = data.webhookName ?? 'default';
+    if (!('payload' in data)) {
+      this.circuitTransitions.inc({ schema: this.schema, webhook, state: data.state });
+      return;
+    }
+
+    const labels = { schema: this.schema, event: this.getEvent(data.payload) ?? '', webhook };
+    if (event === 'retrying') {
+      this.retries.inc(labels);
+    } else {
+      this.notifications.inc({ ...labels, outcome: event });
+    }
+  }
+
+  /**
+   * Record the duration of one HTTP attempt
+   */
+  observeHttp(webhookName: string | undefined, durationMs: number, status?: number): void {
+    this.httpDuration.observe(
+      {
+        schema: this.schema,
+        webhook: webhookName ?? 'default',
+        status: status === undefined ? 'error' : String(status),
+      },
+      durationMs / 1000,
+    );
+  }
+
+  /**
+   * Report a value read when metrics are collected (e.g. queue depth)
+   */
+  trackGauge(name: string, help: string, read: () => number): void {
+    this.collectors.push(
+      this.registry.gauge(name, help, () => [{ labels: { schema: this.schema }, value: read() }]),
+    );
+  }
+
+  snapshot(): MetricSnapshot[] {
+    return this.registry.snapshot();
+  }
+
+  /**
+   * Stop reporting this notifier's gauges (counters stay in the registry)
+   */
+  destroy(): void {
+    this.collectors.splice(0).forEach((remove) => remove());
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Prometheus Text Exposition
+ *
+ * Serializes metric snapshots in the Prometheus text format (version 0.0.4),
+ * ready to be returned by an existing /metrics route.
+ */
+
+import type { MetricLabels, MetricSnapshot } from './registry';
+
+/** Content-Type of the Prometheus text format */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Render snapshots (e.g. notifier.getMetrics()) as Prometheus text
+ */
+export function formatPrometheus(metrics: MetricSnapshot[]): string {
+  const lines: string[] = [];
+
+  metrics.forEach((metric) => {
+    lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+
+    if (metric.type !== 'histogram') {
+      metric.samples.forEach(({ labels, value }) => {
+        lines.push(`${metric.name}${formatLabels(labels)} ${formatValue(value)}`);
+      });
+      return;
+    }
+
+    metric.samples.forEach(({ labels, bucketCounts, sum, count }) => {
+      metric.buckets.forEach((bound, index) => {
+        const bucketLabels = { ...labels, le: formatValue(bound) };
+        lines.push(`${metric.name}_bucket${formatLabels(bucketLabels)} ${bucketCounts[index]}`);
+      });
+      lines.push(`${metric.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${metric.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+      lines.push(`${metric.name}_count${formatLabels(labels)} ${count}`);
+    });
+  });
+
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function escapeHelp(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,209 @@
+/**
+ * Metrics Registry
+ *
+ * Minimal in-process registry for counters, histograms and gauges.
+ * - Counters and histograms are updated as things happen
+ * - Gauges are read from collectors when a snapshot is taken (queue depth, cache size)
+ * - Registering a metric twice returns the existing one, so several notifiers
+ *   can share a registry (and a single /metrics route)
+ */
+
+/** Label values of one series (e.g. { webhook: 'errors', outcome: 'sent' }) */
+export type MetricLabels = Record<string, string>;
+
+export interface MetricSample {
+  labels: MetricLabels;
+  value: number;
+}
+
+export interface HistogramSample {
+  labels: MetricLabels;
+  /** Cumulative count per bucket upper bound (same order as `buckets`) */
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+export interface CounterSnapshot {
+  type: 'counter';
+  name: string;
+  help: string;
+  samples: MetricSample[];
+}
+
+export interface GaugeSnapshot {
+  type: 'gauge';
+  name: string;
+  help: string;
+  samples: MetricSample[];
+}
+
+export interface HistogramSnapshot {
+  type: 'histogram';
+  name: string;
+  help: string;
+  /** Bucket upper bounds (+Inf is implied) */
+  buckets: number[];
+  samples: HistogramSample[];
+}
+
+export type MetricSnapshot = CounterSnapshot | GaugeSnapshot | HistogramSnapshot;
+
+/** Reads the current values of a gauge */
+export type GaugeCollector = () => MetricSample[];
+
+/** Default latency buckets (seconds) */
+export const DEFAULT_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export class Counter {
+  private readonly series = new Map<string, MetricSample>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+  ) {}
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    const key = seriesKey(labels);
+    const sample = this.series.get(key);
+    if (sample) {
+      sample.value += value;
+    } else {
+      this.series.set(key, { labels: { ...labels }, value });
+    }
+  }
+
+  snapshot(): CounterSnapshot {
+    return { type: 'counter', name: this.name, help: this.help, samples: copySamples(this.series) };
+  }
+}
+
+export class Histogram {
+  private readonly series = new Map<string, HistogramSample>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly buckets: number[] = DEFAULT_LATENCY_BUCKETS,
+  ) {}
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = seriesKey(labels);
+    let sample = this.series.get(key);
+    if (!sample) {
+      sample = { labels: { ...labels }, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, sample);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        sample.bucketCounts[index]++;
+      }
+    });
+    sample.sum += value;
+    sample.count++;
+  }
+
+  snapshot(): HistogramSnapshot {
+    return {
+      type: 'histogram',
+      name: this.name,
+      help: this.help,
+      buckets: [...this.buckets],
+      samples: Array.from(this.series.values(), (sample) => ({
+        ...sample,
+        labels: { ...sample.labels },
+        bucketCounts: [...sample.bucketCounts],
+      })),
+    };
+  }
+}
+
+interface Gauge {
+  name: string;
+  help: string;
+  collectors: Set<GaugeCollector>;
+}
+
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Counter | Histogram | Gauge>();
+
+  /**
+   * Get or create a counter
+   */
+  counter(name: string, help: string): Counter {
+    return this.register(name, Counter, () => new Counter(name, help));
+  }
+
+  /**
+   * Get or create a histogram
+   */
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(name, Histogram, () => new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Add a collector to a gauge (created on first use)
+   * @returns Function removing the collector (e.g. when its notifier is destroyed)
+   */
+  gauge(name: string, help: string, collect: GaugeCollector): () => void {
+    const existing = this.metrics.get(name);
+    if (existing && !isGauge(existing)) {
+      throw new Error(`Metric '${name}' is already registered with another type`);
+    }
+
+    const gauge = existing ?? { name, help, collectors: new Set<GaugeCollector>() };
+    this.metrics.set(name, gauge);
+    gauge.collectors.add(collect);
+    return () => {
+      gauge.collectors.delete(collect);
+    };
+  }
+
+  /**
+   * Current value of every metric (gauges are collected now)
+   */
+  snapshot(): MetricSnapshot[] {
+    return Array.from(this.metrics.values(), (metric) => {
+      if (!isGauge(metric)) {
+        return metric.snapshot();
+      }
+
+      const samples = Array.from(metric.collectors).flatMap((collect) => collect());
+      return { type: 'gauge' as const, name: metric.name, help: metric.help, samples };
+    });
+  }
+
+  private register<T extends Counter | Histogram>(
+    name: string,
+    type: new (...args: never[]) => T,
+    create: () => T,
+  ): T {
+    const existing = this.metrics.get(name);
+    if (existing instanceof type) {
+      return existing;
+    }
+    if (existing) {
+      throw new Error(`Metric '${name}' is already registered with another type`);
+    }
+
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+function isGauge(metric: Counter | Histogram | Gauge): metric is Gauge {
+  return 'collectors' in metric;
+}
+
+/**
+ * Stable key of a label set (label order does not matter)
+ */
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.keys(labels).sort().map((name) => [name, labels[name]]));
+}
+
+function copySamples(series: Map<string, MetricSample>): MetricSample[] {
+  return Array.from(series.values(), (sample) => ({ ...sample, labels: { ...sample.labels } }));
+}
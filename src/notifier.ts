@@ -4,149 +4,1013 @@
  * Orchestrates all components: config, schema, card builder, idempotency, HTTP client
  */
 
+import { randomUUID } from 'crypto';
 import { ConfigManager } from './config';
+import { loadConfigFile, mergeConfigFileOptions } from './config-file';
 import { CardBuilder } from './card-builder';
-import { IdempotencyCache } from './idempotency-cache';
-import { HttpClient } from './http-client';
+import { MemoryIdempotencyStore, type IdempotencyStore } from './idempotency';
+import { HttpClient, type HttpResponse } from './http-client';
 import { BatchManager, type BatchItem } from './batch-manager';
+import { BatchWal } from './batch-wal';
+import { NotifierEvents } from './events';
+import { ConsoleLogger, withRedaction, type Logger } from './logger';
+import { RateLimiter } from './rate-limiter';
+import { CircuitBreaker } from './circuit-breaker';
+import { MetricsRegistry, NotifierMetrics, type MetricSnapshot } from './metrics';
+import { Router } from './router';
+import { SecretsCache } from './secrets';
+import { CardValidationError, CircuitOpenError, HttpError } from './errors';
+import {
+  CHAT_LIMITS,
+  packMessages,
+  type PackEntry,
+  type PackLimits,
+  type PackStrategy,
+} from './message-packer';
+import { appendQueryParam, setQueryParam } from './utils/url';
+import { createDeferred } from './utils/deferred';
+import { getRenderer } from './channels/platforms';
+import type { Platform } from './channels/types';
 import type { EventSchema } from './schemas/base-schema';
-import type { Notifier, NotifierOptions } from './types';
+import type { DeadLetterEntry, DeadLetterStore } from './dead-letter/base-store';
+import type {
+  CardPayload,
+  CircuitState,
+  MessageReplyOption,
+  Notifier,
+  NotifierEventListener,
+  NotifierEventName,
+  NotifierOptions,
+  NotifyFailedResult,
+  NotifyResult,
+  NotifySentResult,
+  NotifyTargetResult,
+  ReplayDeadLettersOptions,
+  ReplayDeadLettersResult,
+} from './types';
+
+/**
+ * Rendered card bound to its destination
+ */
+interface PreparedMessage {
+  card: CardPayload;
+  /** Messages sent right after `card` (oversized cards split in lenient validation) */
+  continuations?: CardPayload[];
+  webhookName?: string;
+  url: string;
+  platform: Platform;
+}
+
+/**
+ * Webhook a message is actually sent to (its own, or its fallback while its circuit is open)
+ */
+interface DeliveryTarget {
+  webhookName?: string;
+  url: string;
+  platform: Platform;
+  /** Configured name: secrets provider token and circuit breaker key */
+  key: string;
+  fallback?: boolean;
+}
+
+/**
+ * Payload carried by a message, with its own rendered card (for dead-lettering)
+ */
+interface DeliveryItem<TPayload> {
+  payload: TPayload;
+  card: CardPayload;
+  continuations?: CardPayload[];
+  /** Existing entry when replaying a dead letter */
+  deadLetter?: DeadLetterEntry<TPayload>;
+  /** Called once the item was stored in the dead-letter store */
+  onDeadLettered?: () => void;
+}
+
+/**
+ * Batch items sharing the same destination
+ */
+interface BatchGroup<TPayload> {
+  message: PreparedMessage;
+  entries: Array<PackEntry<{ item: BatchItem<TPayload>; card: CardPayload }>>;
+}
 
 export class NotifierImpl<TPayload, TEvent extends string = string>
   implements Notifier<TPayload>
 {
   private readonly config: ConfigManager;
   private readonly cardBuilder: CardBuilder<TPayload, TEvent>;
-  private readonly cache?: IdempotencyCache;
+  private readonly idempotencyStore?: IdempotencyStore;
+  /** Stores created here are destroyed here; injected ones belong to the caller */
+  private readonly ownsIdempotencyStore: boolean;
+  private readonly idempotencyTtlMs: number;
+  private readonly idempotencyReservationTtlMs: number;
+  /** Releases triggered by failed batch items, awaited on destroy */
+  private readonly pendingReleases = new Set<Promise<void>>();
   private readonly httpClient: HttpClient;
   private readonly batchManager?: BatchManager<TPayload>;
   private readonly schema: EventSchema<TPayload, TEvent>;
   private readonly level: 'all' | 'important';
+  private readonly messageReplyOption: MessageReplyOption;
+  private readonly logger: Logger;
+  private readonly events: NotifierEvents<TPayload>;
+  private readonly metrics?: NotifierMetrics<TPayload>;
+  private readonly rateLimiter?: RateLimiter;
+  private readonly circuitBreaker?: CircuitBreaker;
+  private readonly deadLetterStore?: DeadLetterStore<TPayload>;
+  private readonly batchAggregation: 'none' | PackStrategy;
+  private readonly packLimits: PackLimits;
+  private readonly router?: Router<TPayload>;
+  /** Idempotency keys are scoped per webhook when a payload may reach several */
+  private readonly scopedIdempotencyKeys: boolean;
+  private readonly secrets?: SecretsCache;
 
   constructor(
     schema: EventSchema<TPayload, TEvent>,
-    options: NotifierOptions<TPayload> = {},
+    notifierOptions: NotifierOptions<TPayload> = {},
   ) {
+    // Env source of this instance (false = explicit options only)
+    const env = notifierOptions.env === false ? {} : (notifierOptions.env ?? process.env);
+    const envPrefix = notifierOptions.envPrefix ?? 'CHAT';
+
+    // Configuration file settings sit below explicit options
+    const { configFile, profile } = notifierOptions;
+    const options = configFile
+      ? mergeConfigFileOptions(
+          loadConfigFile({
+            path: typeof configFile === 'string' ? configFile : undefined,
+            profile,
+            env,
+          }),
+          notifierOptions,
+        )
+      : notifierOptions;
+
     this.schema = schema;
+    // Every component logs through the same logger; secrets are masked before it sees them
+    // (the default one reads DEBUG_CHAT_NOTIFIER from this instance's env)
+    this.logger = withRedaction(options.logger ?? new ConsoleLogger(undefined, env));
+    this.events = new NotifierEvents<TPayload>(
+      (event, data) => this.metrics?.recordEvent(event, data),
+      this.logger,
+    );
     this.level = options.level ?? 'all';
+    this.messageReplyOption =
+      options.messageReplyOption ?? 'REPLY_MESSAGE_FALLBACK_TO_NEW_THREAD';
+
+    // Legacy callbacks are plain listeners of the lifecycle events
+    const { onSuccess, onError } = options;
+    if (onSuccess) {
+      this.events.on('sent', (event) => onSuccess(event.payload));
+    }
+    if (onError) {
+      this.events.on('failed', (event) => onError(event.payload, event.error));
+    }
 
     // Initialize components
-    this.config = new ConfigManager(options.webhooks);
+    this.config = new ConfigManager(options.webhooks, {
+      resolution: options.webhookResolution,
+      defaultWebhook: options.webhookUrl,
+      allowedHosts: options.allowedHosts,
+      allowLocalhost: options.allowLocalhost,
+      env,
+      envPrefix,
+      groups: options.webhookGroups,
+      aliases: options.webhookAliases,
+      logger: this.logger,
+    });
+
+    // Declarative routing rules (optional)
+    if (options.routes?.length) {
+      this.router = new Router(options.routes, options.routingMode);
+    }
+
+    this.scopedIdempotencyKeys =
+      !!this.router || Object.keys(this.config.getWebhookGroups()).length > 0;
+
+    // Names known ahead of time are checked now instead of on the first send
+    this.config.validateWebhookNames([
+      ...(schema.webhookNames ?? []),
+      ...(this.router?.getWebhookNames() ?? []),
+    ]);
     
     this.cardBuilder = new CardBuilder(schema, {
       maxMessage: options.maxMessage ?? 4000,
+      validation: options.cardValidation ?? 'strict',
     });
 
-    // Idempotency cache (optional)
+    // Idempotency store (optional, in-memory unless one is injected)
+    this.idempotencyTtlMs = options.idempotencyTtlMs ?? 24 * 60 * 60 * 1000;
+    this.idempotencyReservationTtlMs = options.idempotencyReservationTtlMs ?? 10 * 60 * 1000;
+    this.ownsIdempotencyStore = !options.idempotencyStore;
     if (options.idempotencyEnabled !== false) {
-      this.cache = new IdempotencyCache({
-        ttlMs: options.idempotencyTtlMs ?? 24 * 60 * 60 * 1000,
+      this.idempotencyStore = options.idempotencyStore ?? new MemoryIdempotencyStore();
+    }
+
+    // HTTP client with retry (transport is pluggable, fetch by default)
+    this.httpClient = new HttpClient(
+      {
+        timeoutMs: options.timeoutMs ?? 10000,
+        maxRetries: options.retryMax ?? 3,
+        initialDelayMs: options.retryBaseMs ?? 300,
+        maxDelayMs: options.retryMaxDelayMs ?? 30000,
+        proxy: options.proxy,
+        logger: this.logger,
+      },
+      options.transport,
+    );
+
+    // Per-webhook rate limiting (optional), shared by immediate sends and batch flushes
+    if (options.rateLimitPerSecond !== undefined) {
+      this.rateLimiter = new RateLimiter({
+        ratePerSecond: options.rateLimitPerSecond,
+        burst: options.rateLimitBurst,
       });
     }
 
-    // HTTP client with retry
-    this.httpClient = new HttpClient({
-      timeoutMs: options.timeoutMs ?? 10000,
-      maxRetries: options.retryMax ?? 3,
-    });
+    // Per-webhook circuit breaker (on by default when a webhook has a fallback)
+    const circuitBreaker = options.circuitBreaker ?? this.config.hasFallbacks();
+    if (circuitBreaker) {
+      this.circuitBreaker = new CircuitBreaker(
+        circuitBreaker === true ? {} : circuitBreaker,
+        (key, state, previousState) => {
+          const name = key === 'default' ? undefined : key;
+          if (state === 'open') {
+            this.logger.warn(`Circuit opened for webhook '${key}'`, { webhook: name, state });
+          } else if (state === 'closed') {
+            this.logger.info(`Circuit closed for webhook '${key}'`, { webhook: name, state });
+          }
+          this.events.emit('circuit', { webhookName: name, state, previousState });
+        },
+      );
+    }
+
+    // Webhook tokens resolved on send (optional), so rotated tokens apply without a restart
+    if (options.secretsProvider) {
+      this.secrets = new SecretsCache(options.secretsProvider, options.secretsRefreshMs);
+    }
+
+    // Dead-letter store for permanently failed notifications (optional)
+    this.deadLetterStore = options.deadLetterStore;
+
+    // Batch aggregation (how flushed items are packed into messages)
+    this.batchAggregation = options.batchAggregation ?? 'cards';
+    // Google Chat limits; other platforms add their own check (see packLimitsFor)
+    this.packLimits = {
+      ...CHAT_LIMITS,
+      maxCardsPerMessage: options.batchMaxCardsPerMessage ?? CHAT_LIMITS.maxCardsPerMessage,
+    };
 
     // Batch manager (optional)
-    const batchEnabled = options.batchEnabled ?? process.env.CHAT_BATCH_ENABLED === 'true';
+    const batchEnabled = options.batchEnabled ?? env[`${envPrefix}_BATCH_ENABLED`] === 'true';
     if (batchEnabled) {
-      const batchSize = options.batchSize ?? (Number(process.env.CHAT_BATCH_SIZE) || 10);
-      const batchIntervalMs = options.batchIntervalMs ?? (Number(process.env.CHAT_BATCH_INTERVAL_MS) || 5000);
-      const flushOnDestroy = options.batchFlushOnDestroy ?? process.env.CHAT_BATCH_FLUSH_ON_EXIT !== 'false';
+      const batchSize = options.batchSize ?? (Number(env[`${envPrefix}_BATCH_SIZE`]) || 10);
+      const batchIntervalMs =
+        options.batchIntervalMs ?? (Number(env[`${envPrefix}_BATCH_INTERVAL_MS`]) || 5000);
+      const flushOnDestroy =
+        options.batchFlushOnDestroy ?? env[`${envPrefix}_BATCH_FLUSH_ON_EXIT`] !== 'false';
+      const walPath = options.batchWalPath ?? env[`${envPrefix}_BATCH_WAL_PATH`];
 
       this.batchManager = new BatchManager<TPayload>({
         size: batchSize,
         intervalMs: batchIntervalMs,
         flushOnDestroy,
+        wal: walPath ? new BatchWal({ path: walPath }) : undefined,
+        logger: this.logger,
         onFlush: async (batch) => {
           await this.sendBatch(batch as Array<BatchItem<TPayload>>);
         },
       });
     }
+
+    // Metrics (own registry unless one is shared between notifiers)
+    if (options.metrics !== false) {
+      this.metrics = new NotifierMetrics<TPayload>(
+        options.metrics ?? new MetricsRegistry(),
+        schema.name,
+        (payload) => this.extractEvent(payload),
+      );
+      const { batchManager, idempotencyStore } = this;
+      if (batchManager) {
+        this.metrics.trackGauge(
+          'chat_notifier_batch_queue_depth',
+          'Notifications waiting in the batch queue',
+          () => batchManager.size(),
+        );
+      }
+      if (idempotencyStore instanceof MemoryIdempotencyStore) {
+        this.metrics.trackGauge(
+          'chat_notifier_idempotency_cache_size',
+          'Idempotency keys held in memory',
+          () => idempotencyStore.size,
+        );
+      }
+    }
+  }
+
+  /**
+   * Register listener for a lifecycle event
+   */
+  on<K extends NotifierEventName>(event: K, listener: NotifierEventListener<TPayload, K>): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Register listener for the next occurrence of a lifecycle event
+   */
+  once<K extends NotifierEventName>(event: K, listener: NotifierEventListener<TPayload, K>): this {
+    this.events.once(event, listener);
+    return this;
+  }
+
+  /**
+   * Remove lifecycle event listener
+   */
+  off<K extends NotifierEventName>(event: K, listener: NotifierEventListener<TPayload, K>): this {
+    this.events.off(event, listener);
+    return this;
   }
 
   /**
    * Send notification
+   * Several routed destinations fan out: each target is reserved, retried and
+   * dead-lettered on its own, and a failing target does not stop the others.
    */
-  async notify(payload: TPayload, webhookName?: string): Promise<void> {
+  async notify(payload: TPayload, webhookName?: string): Promise<NotifyResult> {
+    const targets = this.resolveTargets(payload, webhookName);
+
     // Check importance level filtering
     if (this.level === 'important' && this.schema.isImportantEvent) {
       const event = this.extractEvent(payload);
       if (event && !this.schema.isImportantEvent(event)) {
         // Skip non-important event
-        return;
+        targets.forEach((target) => {
+          this.events.emit('filtered', { payload, webhookName: target, attempts: 0 });
+        });
+        return { status: 'filtered' };
       }
     }
 
-    // Check idempotency
-    if (this.cache && this.schema.getIdempotencyKey) {
-      const key = this.schema.getIdempotencyKey(payload);
-      if (key && this.cache.has(key)) {
-        // Already sent
-        return;
-      }
+    if (targets.length === 1) {
+      return this.notifyTarget(payload, targets[0]);
+    }
+
+    const results = await Promise.all(
+      targets.map(async (target): Promise<NotifyTargetResult> => {
+        try {
+          return await this.notifyTarget(payload, target);
+        } catch (error) {
+          return { status: 'failed', webhookName: target, error: toError(error) };
+        }
+      }),
+    );
+    return { status: 'fanout', results };
+  }
+
+  /**
+   * Send notification to one resolved destination
+   */
+  private async notifyTarget(
+    payload: TPayload,
+    webhookName: string | undefined,
+  ): Promise<Exclude<NotifyTargetResult, NotifyFailedResult>> {
+    // Reserve idempotency key (pending until sent, released on failure)
+    // Concurrent notify() calls for the same event: only one wins the reservation
+    const key = this.getIdempotencyKey(payload, webhookName);
+    if (key && !(await this.reserveKey(key))) {
+      // Already sent, or being sent
+      this.events.emit('deduplicated', { payload, webhookName, attempts: 0, idempotencyKey: key });
+      return { status: 'duplicate', webhookName, idempotencyKey: key };
     }
 
     // If batching enabled, add to queue instead of sending immediately
     if (this.batchManager) {
-      this.batchManager.add(payload, webhookName);
-      
-      // Mark as queued in cache (to prevent duplicates in queue)
-      if (this.cache && this.schema.getIdempotencyKey) {
-        const key = this.schema.getIdempotencyKey(payload);
-        if (key) {
-          this.cache.set(key);
-        }
+      const delivery = createDeferred<NotifySentResult>();
+      // Failed or dropped (destroy without flush): let the event be sent again.
+      // Also keeps an ignored promise from surfacing as an unhandled rejection.
+      delivery.promise.catch(() => this.trackRelease(key));
+
+      try {
+        this.batchManager.add(payload, webhookName, {
+          resolve: (result) => delivery.resolve(result as NotifySentResult),
+          reject: delivery.reject,
+        });
+      } catch (error) {
+        // Not queued (e.g. WAL write failed)
+        await this.releaseKey(key);
+        throw error;
       }
-      
-      return;
+
+      this.events.emit('queued', { payload, webhookName, attempts: 0 });
+      return { status: 'queued', webhookName, delivered: delivery.promise };
     }
 
     // Immediate send (non-batch mode)
-    await this.sendSingle(payload, webhookName);
+    try {
+      return await this.sendSingle(payload, webhookName);
+    } catch (error) {
+      await this.releaseKey(key);
+      throw error;
+    }
   }
 
   /**
    * Send single notification (non-batch mode)
    */
-  private async sendSingle(payload: TPayload, webhookName?: string): Promise<void> {
-    // Build card
-    const card = this.cardBuilder.buildCard(payload);
+  private async sendSingle(payload: TPayload, webhookName?: string): Promise<NotifySentResult> {
+    const message = this.prepare(payload, webhookName);
+    return this.deliver(message, [
+      { payload, card: message.card, continuations: message.continuations },
+    ]);
+  }
+
+  /**
+   * Build (and validate) card and resolve webhook for a payload
+   * Emits 'failed' (0 attempts) when the item cannot even be rendered or routed
+   */
+  private prepare(payload: TPayload, webhookName?: string): PreparedMessage {
+    const resolvedWebhookName = this.resolveWebhookName(payload, webhookName);
+
+    try {
+      const [card, ...continuations] = this.cardBuilder.buildMessages(payload);
+      return {
+        card,
+        ...(continuations.length > 0 && { continuations }),
+        webhookName: resolvedWebhookName,
+        url: this.config.getWebhook(resolvedWebhookName),
+        platform: this.config.getPlatform(resolvedWebhookName),
+      };
+    } catch (error) {
+      this.events.emit('failed', {
+        payload,
+        webhookName: resolvedWebhookName,
+        attempts: 0,
+        error: toError(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Deliver one message on behalf of one or more items (aggregated batches)
+   * Lifecycle events are emitted for every payload carried by the message;
+   * on failure every item is dead-lettered (when a store is configured).
+   * Continuations are sent in order after the main card; a failure stops the
+   * sequence and only the unsent parts are dead-lettered.
+   */
+  private async deliver(
+    message: PreparedMessage,
+    items: Array<DeliveryItem<TPayload>>,
+  ): Promise<NotifySentResult> {
+    const payloads = items.map((item) => item.payload);
+    const { webhookName } = message;
+    const parts = [message.card, ...(message.continuations ?? [])];
+    const limiter = this.rateLimiter;
+    const breaker = this.circuitBreaker;
+
+    // Send to Google Chat (attempts add up across parts)
+    let attempts = 0;
+    let firstResponseBody: string | undefined;
+    // Picked on the first part, so every part of a message goes to the same webhook
+    let target: DeliveryTarget | undefined;
+    // Token from the secrets provider (when configured) replaces the configured one
+    let token: string | undefined;
+    const sendPart = async (
+      card: CardPayload,
+      url: string,
+      // Limiter is keyed by webhook URL: aliases of the same space share one bucket
+      { webhookName: sentTo, url: limiterKey, platform, key }: DeliveryTarget,
+    ): Promise<HttpResponse> => {
+      // Cards v2 is Google Chat's own format; other platforms get a rendered body
+      // (rendering rejects messages over the platform's limits before any attempt)
+      const body = platform === 'google-chat' ? undefined : getRenderer(platform).render(card);
+      token = await this.secrets?.get(key);
+      const previousAttempts = attempts;
+      attempts++;
+      const response = await this.httpClient.send(
+        {
+          url: token ? setQueryParam(url, 'token', token) : url,
+          webhookName: sentTo,
+          payload: card,
+          ...(platform !== 'google-chat' && { platform, body }),
+        },
+        {
+          beforeAttempt: limiter ? () => limiter.acquire(limiterKey) : undefined,
+          afterAttempt: ({ durationMs, status }) => {
+            this.metrics?.observeHttp(sentTo, durationMs, status);
+          },
+          onRetry: ({ attempt, error, delayMs }) => {
+            attempts = previousAttempts + attempt + 1;
+            this.penalizeOnRateLimit(limiterKey, error);
+            payloads.forEach((payload) => {
+              this.events.emit('retrying', {
+                payload,
+                webhookName,
+                attempts: previousAttempts + attempt,
+                error,
+                delayMs,
+              });
+            });
+          },
+        },
+      );
+      attempts = previousAttempts + response.attempts;
+      return response;
+    };
 
-    // Determine webhook
-    const resolvedWebhookName = webhookName ?? this.schema.getWebhookName?.(payload);
-    const webhookUrl = this.config.getWebhook(resolvedWebhookName);
+    for (const [index, card] of parts.entries()) {
+      try {
+        target ??= this.selectTarget(message);
+        let url = target.url;
 
-    // Send to Google Chat
-    await this.httpClient.post(webhookUrl, card);
+        // Threaded messages need messageReplyOption, otherwise Chat ignores threadKey
+        // (other platforms' webhooks have no threads)
+        if (target.platform === 'google-chat' && card.thread?.threadKey) {
+          url = appendQueryParam(url, 'messageReplyOption', this.messageReplyOption);
+        }
 
-    // Mark as sent in cache
-    if (this.cache && this.schema.getIdempotencyKey) {
-      const key = this.schema.getIdempotencyKey(payload);
-      if (key) {
-        this.cache.set(key);
+        let response: HttpResponse;
+        try {
+          response = await sendPart(card, url, target);
+        } catch (error) {
+          if (!this.secrets || !isAuthError(error)) {
+            throw error;
+          }
+          // The token may have been rotated: read it again and retry once if it changed
+          const previousToken = token;
+          const refreshedToken = await this.secrets.refresh(target.key);
+          if (!refreshedToken || refreshedToken === previousToken) {
+            throw error;
+          }
+          payloads.forEach((payload) => {
+            this.events.emit('retrying', {
+              payload,
+              webhookName,
+              attempts,
+              error: toError(error),
+              delayMs: 0,
+            });
+          });
+          response = await sendPart(card, url, target);
+        }
+        breaker?.recordSuccess(target.key);
+        firstResponseBody ??= response.body;
+      } catch (error) {
+        if (target && breaker) {
+          // A webhook that answered (400, 429) is reachable: only its own failures count
+          // Messages rejected by a platform renderer never reached it: nothing is recorded
+          if (error instanceof CardValidationError) {
+            breaker.releaseTrial(target.key);
+          } else if (isCircuitFailure(error)) {
+            breaker.recordFailure(target.key);
+          } else {
+            breaker.recordSuccess(target.key);
+          }
+        }
+        this.penalizeOnRateLimit(target?.url ?? message.url, error);
+        const unsent = message.continuations
+          ? items.map((item) => ({
+              ...item,
+              card,
+              continuations: index + 1 < parts.length ? parts.slice(index + 1) : undefined,
+            }))
+          : items;
+        await this.deadLetter(unsent, webhookName, attempts, error);
+        payloads.forEach((payload) => {
+          this.events.emit('failed', { payload, webhookName, attempts, error: toError(error) });
+        });
+        throw error;
       }
     }
+
+    // Mark as sent in store
+    await Promise.all(payloads.map((payload) => this.rememberSent(payload, webhookName)));
+
+    payloads.forEach((payload) => {
+      this.events.emit('sent', { payload, webhookName, attempts });
+    });
+
+    return {
+      status: 'sent',
+      webhookName,
+      attempts,
+      ...(target?.fallback && { fallbackWebhook: target.webhookName }),
+      ...parseMessageResponse(firstResponseBody ?? ''),
+    };
+  }
+
+  /**
+   * Webhook a message goes to: its own, or its fallback while its circuit is open
+   * Throws CircuitOpenError (nothing is sent) when neither can take it
+   */
+  private selectTarget(message: PreparedMessage): DeliveryTarget {
+    const { webhookName, url, platform } = message;
+    const key = this.getConfiguredName(webhookName);
+    const breaker = this.circuitBreaker;
+    if (!breaker || breaker.allow(key)) {
+      return { webhookName, url, platform, key };
+    }
+
+    const fallback = this.config.getFallback(webhookName);
+    if (fallback && breaker.allow(this.getConfiguredName(fallback))) {
+      return {
+        webhookName: fallback,
+        url: this.config.getWebhook(fallback),
+        platform: this.config.getPlatform(fallback),
+        key: this.getConfiguredName(fallback),
+        fallback: true,
+      };
+    }
+    throw new CircuitOpenError(webhookName, breaker.retryAfterMs(key));
+  }
+
+  /**
+   * Configured name of a webhook, used as its secrets provider token name and
+   * circuit breaker key (lowercase, 'default' for the default webhook and fallbacks)
+   * Aliases resolve to their webhook; group names throw
+   */
+  private getConfiguredName(webhookName: string | undefined): string {
+    return webhookName && this.config.hasWebhook(webhookName)
+      ? this.config.resolveWebhookName(webhookName)
+      : 'default';
+  }
+
+  /**
+   * Idempotency key of a payload for one destination (undefined = no deduplication)
+   * With routing rules or webhook groups, keys are scoped per target so each
+   * fan-out destination is deduplicated on its own
+   */
+  private getIdempotencyKey(payload: TPayload, webhookName: string | undefined): string | undefined {
+    const key = this.idempotencyStore ? this.schema.getIdempotencyKey?.(payload) : undefined;
+    if (!key || !this.scopedIdempotencyKeys) {
+      return key;
+    }
+    return `${key}:${webhookName?.toLowerCase() ?? ''}`;
+  }
+
+  /**
+   * Check whether key was committed (sent)
+   * A failing shared store must not block notifications: prefer a duplicate over a lost card
+   */
+  private async isAlreadySent(key: string): Promise<boolean> {
+    try {
+      return (await this.idempotencyStore?.has(key)) ?? false;
+    } catch (error) {
+      this.logger.error('Failed to check idempotency store', { key, error });
+      return false;
+    }
+  }
+
+  /**
+   * Reserve key before sending (false = already sent or being sent)
+   */
+  private async reserveKey(key: string): Promise<boolean> {
+    try {
+      return (await this.idempotencyStore?.reserve(key, this.idempotencyReservationTtlMs)) ?? true;
+    } catch (error) {
+      this.logger.error('Failed to check idempotency store', { key, error });
+      return true;
+    }
+  }
+
+  /**
+   * Undo reservation after a failed or dropped send (no-op without key)
+   */
+  private async releaseKey(key: string | undefined): Promise<void> {
+    if (!this.idempotencyStore || !key) {
+      return;
+    }
+
+    try {
+      await this.idempotencyStore.release(key);
+    } catch (error) {
+      this.logger.error('Failed to update idempotency store', { key, error });
+    }
+  }
+
+  /**
+   * Release in the background, keeping track so destroy() can wait for it
+   */
+  private trackRelease(key: string | undefined): void {
+    const release = this.releaseKey(key).finally(() => this.pendingReleases.delete(release));
+    this.pendingReleases.add(release);
+  }
+
+  /**
+   * Commit payload's idempotency key as sent (no-op without store or key)
+   */
+  private async rememberSent(payload: TPayload, webhookName: string | undefined): Promise<void> {
+    const key = this.getIdempotencyKey(payload, webhookName);
+    if (!key) {
+      return;
+    }
+
+    try {
+      await this.idempotencyStore?.set(key, this.idempotencyTtlMs);
+    } catch (error) {
+      this.logger.error('Failed to update idempotency store', { key, error });
+    }
+  }
+
+  /**
+   * Store permanently failed items in the dead-letter store
+   * Replayed items update their existing entry instead of creating a new one
+   */
+  private async deadLetter(
+    items: Array<DeliveryItem<TPayload>>,
+    webhookName: string | undefined,
+    attempts: number,
+    error: unknown,
+  ): Promise<void> {
+    const store = this.deadLetterStore;
+    if (!store) {
+      return;
+    }
+
+    const failure = toError(error);
+    const failedAt = new Date().toISOString();
+
+    await Promise.all(
+      items.map(async (item) => {
+        try {
+          await store.put({
+            id: item.deadLetter?.id ?? randomUUID(),
+            payload: item.payload,
+            webhookName,
+            card: item.card,
+            ...(item.continuations && { continuations: item.continuations }),
+            error: {
+              name: failure.name,
+              message: failure.message,
+              status: failure instanceof HttpError ? failure.status : undefined,
+            },
+            attempts: (item.deadLetter?.attempts ?? 0) + attempts,
+            failedAt,
+          });
+          item.onDeadLettered?.();
+        } catch (storeError) {
+          // Never mask the delivery error with a storage error
+          this.logger.error('Failed to store dead letter', {
+            webhook: webhookName,
+            error: storeError,
+          });
+        }
+      }),
+    );
+  }
+
+  /**
+   * Resend dead-lettered notifications
+   * - Entries whose idempotency key was already delivered meanwhile are dropped (skipped)
+   * - Successfully resent entries are removed from the store
+   * - Entries that fail again stay in the store with updated error and attempts
+   */
+  async replayDeadLetters(
+    options: ReplayDeadLettersOptions<TPayload> = {},
+  ): Promise<ReplayDeadLettersResult> {
+    const store = this.deadLetterStore;
+    const result: ReplayDeadLettersResult = { replayed: 0, failed: 0, skipped: 0 };
+    if (!store) {
+      return result;
+    }
+
+    let entries = await store.list();
+    if (options.filter) {
+      entries = entries.filter(options.filter);
+    }
+    if (options.limit !== undefined) {
+      entries = entries.slice(0, options.limit);
+    }
+
+    for (const entry of entries) {
+      const key = this.getIdempotencyKey(entry.payload, entry.webhookName);
+      if (key && (await this.isAlreadySent(key))) {
+        await store.remove(entry.id);
+        result.skipped++;
+        continue;
+      }
+      if (key && !(await this.reserveKey(key))) {
+        // Being sent right now by another path: keep the entry until it settles
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        await this.deliver(
+          {
+            card: entry.card,
+            continuations: entry.continuations,
+            webhookName: entry.webhookName,
+            url: this.config.getWebhook(entry.webhookName),
+            platform: this.config.getPlatform(entry.webhookName),
+          },
+          [
+            {
+              payload: entry.payload,
+              card: entry.card,
+              continuations: entry.continuations,
+              deadLetter: entry,
+            },
+          ],
+        );
+        await store.remove(entry.id);
+        result.replayed++;
+      } catch {
+        await this.releaseKey(key);
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Feed observed 429s back into the rate limiter
+   */
+  private penalizeOnRateLimit(limiterKey: string, error: unknown): void {
+    if (this.rateLimiter && error instanceof HttpError && error.status === 429) {
+      this.rateLimiter.penalize(limiterKey, error.retryAfterMs);
+    }
+  }
+
+  /**
+   * Configured webhook names, aliases and groups
+   */
+  getWebhookNames(): string[] {
+    return this.config.getWebhookNames();
+  }
+
+  /**
+   * Groups and aliases with the webhooks they deliver to (e.g. { ops: ['errors', 'oncall'] })
+   */
+  getWebhookGroups(): Record<string, string[]> {
+    return this.config.getWebhookGroups();
+  }
+
+  /**
+   * Snapshot of the notifier's metrics (empty when metrics are disabled)
+   * Render it for a /metrics route with formatPrometheus()
+   */
+  getMetrics(): MetricSnapshot[] {
+    return this.metrics?.snapshot() ?? [];
+  }
+
+  /**
+   * State of a webhook's circuit ('closed' when the circuit breaker is disabled)
+   * @param webhookName Webhook or alias to inspect (omit for the default webhook)
+   */
+  getCircuitState(webhookName?: string): CircuitState {
+    return this.circuitBreaker?.getState(this.getConfiguredName(webhookName)) ?? 'closed';
+  }
+
+  /**
+   * Number of sends waiting for a rate limit token
+   * @param webhookName Webhook to inspect (omit for the total across webhooks)
+   */
+  getRateLimitQueueDepth(webhookName?: string): number {
+    if (!this.rateLimiter) {
+      return 0;
+    }
+
+    return webhookName === undefined
+      ? this.rateLimiter.queueDepth()
+      : this.rateLimiter.queueDepth(this.config.getWebhook(webhookName));
   }
 
   /**
    * Send batch of notifications
+   * Items are grouped by webhook + thread and packed into as few messages as the
+   * Chat limits allow; 'none' keeps the legacy one-message-per-item behavior.
    */
   private async sendBatch(batch: Array<BatchItem<TPayload>>): Promise<void> {
-    // Send all items in parallel (with individual error handling)
-    const promises = batch.map(async (item) => {
+    if (this.batchAggregation === 'none') {
+      // Send all items in parallel (with individual error handling)
+      const promises = batch.map(async (item) => {
+        let message: PreparedMessage;
+        try {
+          message = this.prepare(item.payload, item.webhookName);
+        } catch (error) {
+          // Retrying after a restart would fail the same way
+          item.ack?.();
+          this.rejectBatchItem(item, error);
+          return;
+        }
+
+        await this.deliverBatchItem(item, message);
+      });
+
+      await Promise.all(promises);
+      return;
+    }
+
+    // Group by destination; a message can only target one webhook and, on Google Chat,
+    // one thread (digests summarize several threads, so they only group by webhook;
+    // other platforms have no threads)
+    const groups = new Map<string, BatchGroup<TPayload>>();
+    // Split cards (with continuations) already fill their messages: sent on their own
+    const standalone: Array<{ item: BatchItem<TPayload>; message: PreparedMessage }> = [];
+    for (const item of batch) {
+      let message: PreparedMessage;
       try {
-        await this.sendSingle(item.payload, item.webhookName);
+        message = this.prepare(item.payload, item.webhookName);
       } catch (error) {
-        // Log error but don't fail entire batch
-        console.error('Failed to send notification in batch:', error);
+        item.ack?.();
+        this.rejectBatchItem(item, error);
+        continue;
+      }
+
+      if (message.continuations) {
+        standalone.push({ item, message });
+        continue;
+      }
+
+      const threaded = this.batchAggregation !== 'digest' && message.platform === 'google-chat';
+      const threadKey = threaded ? message.card.thread?.threadKey : undefined;
+      const groupKey = `${message.url}\n${threadKey ?? ''}`;
+      const group = groups.get(groupKey) ?? { message, entries: [] };
+      group.entries.push({ card: message.card, ref: { item, card: message.card } });
+      groups.set(groupKey, group);
+    }
+
+    // Webhooks are independent; messages to the same webhook go out in order
+    const promises = Array.from(groups.values()).map(async ({ message, entries }) => {
+      const packed = packMessages(
+        entries,
+        this.batchAggregation as PackStrategy,
+        this.packLimitsFor(message.platform),
+      );
+
+      for (const { payload: card, refs } of packed) {
+        try {
+          const result = await this.deliver(
+            { ...message, card },
+            refs.map(({ item, card: itemCard }) => ({
+              payload: item.payload,
+              card: itemCard,
+              onDeadLettered: item.ack,
+            })),
+          );
+          refs.forEach(({ item }) => {
+            item.ack?.();
+            item.resolve?.(result);
+          });
+        } catch (error) {
+          refs.forEach(({ item }) => this.rejectBatchItem(item, error));
+        }
       }
     });
 
-    await Promise.all(promises);
+    await Promise.all([
+      ...promises,
+      ...standalone.map(({ item, message }) => this.deliverBatchItem(item, message)),
+    ]);
+  }
+
+  /**
+   * Pack limits of a platform: Google Chat's, plus the renderer's own limits
+   * (e.g. Slack blocks, Discord embeds) so packing never builds an unsendable message
+   */
+  private packLimitsFor(platform: Platform): PackLimits {
+    const renderer = getRenderer(platform);
+    if (platform === 'google-chat' || !renderer.validate) {
+      return this.packLimits;
+    }
+    return { ...this.packLimits, fits: (card) => renderer.validate?.(card).length === 0 };
+  }
+
+  /**
+   * Deliver a batch item in its own message(s) and settle it
+   */
+  private async deliverBatchItem(item: BatchItem<TPayload>, message: PreparedMessage): Promise<void> {
+    try {
+      const result = await this.deliver(message, [
+        {
+          payload: item.payload,
+          card: message.card,
+          continuations: message.continuations,
+          onDeadLettered: item.ack,
+        },
+      ]);
+      item.ack?.();
+      item.resolve?.(result);
+    } catch (error) {
+      this.rejectBatchItem(item, error);
+    }
+  }
+
+  /**
+   * Settle a failed batch item
+   */
+  private rejectBatchItem(item: BatchItem<TPayload>, error: unknown): void {
+    item.reject?.(toError(error));
+
+    // Failure was already emitted as 'failed'; only log when nobody listens
+    if (this.events.listenerCount('failed') === 0) {
+      this.logger.error('Failed to send notification in batch', {
+        webhook: item.webhookName,
+        error,
+      });
+    }
   }
 
   /**
@@ -159,10 +1023,36 @@ export class NotifierImpl<TPayload, TEvent extends string = string>
     }
   }
 
+  /**
+   * Destinations of a payload: explicit argument, then routing rules, then schema routing
+   * Groups and aliases are expanded into the webhooks they deliver to
+   */
+  private resolveTargets(payload: TPayload, webhookName?: string): Array<string | undefined> {
+    const routed = webhookName
+      ? [webhookName]
+      : this.router?.resolve(payload, this.extractEvent(payload));
+    const names = routed?.length ? routed : [this.schema.getWebhookName?.(payload)];
+
+    return Array.from(
+      new Set(names.flatMap((name) => (name ? this.config.resolveWebhookNames(name) : [name]))),
+    );
+  }
+
+  /**
+   * Resolve webhook name: explicit argument wins over schema routing
+   */
+  private resolveWebhookName(payload: TPayload, webhookName?: string): string | undefined {
+    return webhookName ?? this.schema.getWebhookName?.(payload);
+  }
+
   /**
    * Extract event from payload (helper)
    */
   private extractEvent(payload: TPayload): TEvent | undefined {
+    if (this.schema.getEvent) {
+      return this.schema.getEvent(payload);
+    }
+
     // Try common event field names
     const p = payload as Record<string, unknown>;
     return (p.event ?? p.type ?? p.status) as TEvent | undefined;
@@ -177,9 +1067,57 @@ export class NotifierImpl<TPayload, TEvent extends string = string>
       await this.batchManager.destroy();
     }
 
-    // Then cleanup cache
-    if (this.cache) {
-      this.cache.destroy();
+    // Then cleanup idempotency store (only if created by this notifier),
+    // once reservations of dropped items are released
+    await Promise.all(this.pendingReleases);
+    if (this.idempotencyStore && this.ownsIdempotencyStore) {
+      await this.idempotencyStore.destroy?.();
     }
+
+    this.rateLimiter?.destroy();
+    this.metrics?.destroy();
+
+    this.events.clear();
+  }
+}
+
+/**
+ * Whether a send was rejected for its credentials (401/403)
+ */
+function isAuthError(error: unknown): boolean {
+  return error instanceof HttpError && (error.status === 401 || error.status === 403);
+}
+
+/**
+ * Whether a failure points at the webhook itself and counts toward opening its circuit:
+ * 5xx, timeouts and network errors, or a revoked/deleted webhook (401, 403, 404)
+ */
+function isCircuitFailure(error: unknown): boolean {
+  if (!(error instanceof HttpError) || error.status === undefined) {
+    return true;
+  }
+  return error.status >= 500 || [401, 403, 404].includes(error.status);
+}
+
+/**
+ * Normalize unknown thrown values
+ */
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Extract message and thread names from Chat's Message response body
+ * Non-JSON bodies (custom transports, proxies) are tolerated
+ */
+function parseMessageResponse(body: string): Pick<NotifySentResult, 'messageName' | 'threadName'> {
+  try {
+    const message = JSON.parse(body) as { name?: unknown; thread?: { name?: unknown } };
+    return {
+      messageName: typeof message.name === 'string' ? message.name : undefined,
+      threadName: typeof message.thread?.name === 'string' ? message.thread.name : undefined,
+    };
+  } catch {
+    return {};
   }
 }
@@ -0,0 +1,162 @@
+/**
+ * Rate Limiter
+ *
+ * Per-key token bucket (one bucket per webhook) placed in front of every HTTP attempt.
+ * - Tokens refill continuously at `ratePerSecond`, up to `burst`
+ * - Waiting callers are served in FIFO order per key, so no caller can starve
+ * - Observed 429s pause the bucket (Retry-After when known, one token interval otherwise)
+ *
+ * Google Chat throttles webhooks per space, so keying by webhook URL keeps
+ * a burst on one space from delaying deliveries to the others.
+ */
+
+export interface RateLimiterOptions {
+  /** Sustained rate (tokens per second) */
+  ratePerSecond: number;
+  /** Bucket capacity: how many sends may go out back-to-back (default: ratePerSecond, min 1) */
+  burst?: number;
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+interface Bucket {
+  tokens: number;
+  lastRefill: number;
+  pausedUntil: number;
+  queue: Waiter[];
+  timer?: NodeJS.Timeout;
+}
+
+export class RateLimiter {
+  private readonly ratePerSecond: number;
+  private readonly burst: number;
+  private readonly buckets = new Map<string, Bucket>();
+
+  constructor(options: RateLimiterOptions) {
+    if (!(options.ratePerSecond > 0)) {
+      throw new Error('Rate limit must be greater than zero');
+    }
+
+    this.ratePerSecond = options.ratePerSecond;
+    this.burst = Math.max(1, options.burst ?? Math.ceil(options.ratePerSecond));
+  }
+
+  /**
+   * Wait for a token for the given key
+   */
+  acquire(key: string): Promise<void> {
+    const bucket = this.getBucket(key);
+
+    return new Promise<void>((resolve, reject) => {
+      bucket.queue.push({ resolve, reject });
+      this.drain(bucket);
+    });
+  }
+
+  /**
+   * Feedback from a 429: empty the bucket and pause it
+   * @param delayMs Server-provided delay (Retry-After), defaults to one token interval
+   */
+  penalize(key: string, delayMs?: number): void {
+    const bucket = this.getBucket(key);
+    const now = Date.now();
+
+    bucket.tokens = 0;
+    bucket.lastRefill = now;
+    bucket.pausedUntil = Math.max(bucket.pausedUntil, now + (delayMs ?? this.intervalMs()));
+    this.schedule(bucket);
+  }
+
+  /**
+   * Number of callers waiting for a token (for one key, or across all keys)
+   */
+  queueDepth(key?: string): number {
+    if (key !== undefined) {
+      return this.buckets.get(key)?.queue.length ?? 0;
+    }
+
+    let total = 0;
+    for (const bucket of this.buckets.values()) {
+      total += bucket.queue.length;
+    }
+    return total;
+  }
+
+  /**
+   * Stop timers and reject every waiting caller
+   */
+  destroy(): void {
+    for (const bucket of this.buckets.values()) {
+      if (bucket.timer) {
+        clearTimeout(bucket.timer);
+      }
+      bucket.queue.splice(0).forEach((waiter) => {
+        waiter.reject(new Error('Rate limiter destroyed'));
+      });
+    }
+    this.buckets.clear();
+  }
+
+  private getBucket(key: string): Bucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: this.burst, lastRefill: Date.now(), pausedUntil: 0, queue: [] };
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Hand out available tokens to waiting callers, in order
+   */
+  private drain(bucket: Bucket): void {
+    const now = Date.now();
+    this.refill(bucket, now);
+
+    while (bucket.queue.length > 0 && bucket.tokens >= 1 && now >= bucket.pausedUntil) {
+      bucket.tokens -= 1;
+      bucket.queue.shift()?.resolve();
+    }
+
+    this.schedule(bucket);
+  }
+
+  private refill(bucket: Bucket, now: number): void {
+    // No refill while paused: the pause is the server telling us to back off
+    const from = Math.max(bucket.lastRefill, bucket.pausedUntil);
+    if (now > from) {
+      bucket.tokens = Math.min(
+        this.burst,
+        bucket.tokens + ((now - from) / 1000) * this.ratePerSecond,
+      );
+    }
+    bucket.lastRefill = Math.max(now, bucket.lastRefill);
+  }
+
+  /**
+   * Wake up when the next token is available (only if someone is waiting)
+   */
+  private schedule(bucket: Bucket): void {
+    if (bucket.timer || bucket.queue.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const untilResume = Math.max(0, bucket.pausedUntil - now);
+    const untilToken =
+      bucket.tokens >= 1 ? 0 : ((1 - bucket.tokens) / this.ratePerSecond) * 1000;
+    const delay = Math.ceil(Math.max(untilResume, untilToken));
+
+    bucket.timer = setTimeout(() => {
+      bucket.timer = undefined;
+      this.drain(bucket);
+    }, delay);
+  }
+
+  private intervalMs(): number {
+    return 1000 / this.ratePerSecond;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Router
+ *
+ * Declarative routing rules evaluated in order against each payload:
+ * - 'first-match': the first matching rule decides the destinations
+ * - 'all-match': destinations of every matching rule are merged (fan-out)
+ *
+ * A rule matches when every condition it declares matches; a rule without
+ * conditions is a catch-all. Destinations are deduplicated (case-insensitive,
+ * like webhook names) and keep their first-seen order.
+ */
+
+import type { RouteCondition, RouteValue, RoutingMode, RoutingRule } from './types';
+
+export class Router<TPayload> {
+  private readonly rules: Array<RoutingRule<TPayload>>;
+  private readonly mode: RoutingMode;
+
+  constructor(rules: Array<RoutingRule<TPayload>>, mode: RoutingMode = 'first-match') {
+    rules.forEach((rule, index) => {
+      if (toList(rule.webhooks).length === 0) {
+        throw new Error(`Routing rule '${rule.name ?? index}' has no webhooks`);
+      }
+    });
+
+    this.rules = rules;
+    this.mode = mode;
+  }
+
+  /**
+   * Every webhook name referenced by the rules
+   */
+  getWebhookNames(): string[] {
+    return this.rules.flatMap((rule) => toList(rule.webhooks));
+  }
+
+  /**
+   * Webhook names for a payload (empty when no rule matches)
+   * @param payload Event payload
+   * @param event Event name extracted from the payload
+   */
+  resolve(payload: TPayload, event?: string): string[] {
+    const targets = new Map<string, string>();
+
+    for (const rule of this.rules) {
+      if (!matches(rule.when, payload, event)) {
+        continue;
+      }
+
+      for (const webhook of toList(rule.webhooks)) {
+        if (!targets.has(webhook.toLowerCase())) {
+          targets.set(webhook.toLowerCase(), webhook);
+        }
+      }
+
+      if (this.mode === 'first-match') {
+        break;
+      }
+    }
+
+    return Array.from(targets.values());
+  }
+}
+
+function matches<TPayload>(
+  condition: RouteCondition<TPayload> | undefined,
+  payload: TPayload,
+  event: string | undefined,
+): boolean {
+  if (!condition) {
+    return true;
+  }
+
+  const record = payload as Record<string, unknown>;
+  const checks: Array<[unknown, RouteValue | RouteValue[] | undefined]> = [
+    [event, condition.event],
+    [record.partner, condition.partner],
+    [record.severity, condition.severity],
+    ...Object.entries(condition.fields ?? {}).map(
+      ([path, expected]): [unknown, RouteValue | RouteValue[]] => [
+        getPath(payload, path),
+        expected,
+      ],
+    ),
+  ];
+
+  return (
+    checks.every(
+      ([actual, expected]) =>
+        expected === undefined || toList(expected).includes(actual as RouteValue),
+    ) &&
+    (condition.test?.(payload) ?? true)
+  );
+}
+
+/**
+ * Read dotted path from payload (e.g. 'counts.error')
+ */
+function getPath(payload: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        typeof value === 'object' && value !== null
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      payload,
+    );
+}
+
+function toList<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
@@ -1,4 +1,5 @@
 import { CardPayload } from '../types';
+import type { NeutralMessage } from '../channels/types';
 
 /**
  * Interface base para schemas de eventos customizáveis
@@ -11,12 +12,13 @@ export interface EventSchema<TPayload, TEvent extends string = string> {
   readonly name: string;
 
   /**
-   * Construir payload Cards v2 do Google Chat
+   * Construir payload Cards v2 do Google Chat, ou uma mensagem no modelo neutro
+   * Ambos são entregues em qualquer plataforma (Google Chat, Slack, Teams, Discord)
    * @param payload Dados do evento
    * @param config Configurações (ex: maxMessage)
    * @returns Payload do card
    */
-  buildCard(payload: TPayload, config: { maxMessage: number }): CardPayload;
+  buildCard(payload: TPayload, config: { maxMessage: number }): CardPayload | NeutralMessage;
 
   /**
    * Determinar se evento deve ser enviado quando level='important'
@@ -25,6 +27,22 @@ export interface EventSchema<TPayload, TEvent extends string = string> {
    */
   isImportantEvent?(event: TEvent): boolean;
 
+  /**
+   * Extrair nome do evento (opcional)
+   * Sem este método, usa os campos 'event', 'type' ou 'status' do payload
+   * @param payload Dados do evento
+   * @returns Nome do evento ou undefined
+   */
+  getEvent?(payload: TPayload): TEvent | undefined;
+
+  /**
+   * Gerar chave de thread (opcional)
+   * Mensagens com a mesma chave são agrupadas na mesma thread do Google Chat
+   * @param payload Dados do evento
+   * @returns Thread key ou undefined para enviar sem thread
+   */
+  getThreadKey?(payload: TPayload): string | undefined;
+
   /**
    * Gerar chave de idempotência (opcional)
    * Retornar string única por evento, ou undefined para desabilitar
@@ -40,4 +58,10 @@ export interface EventSchema<TPayload, TEvent extends string = string> {
    * @returns Nome do webhook ou undefined
    */
   getWebhookName?(payload: TPayload): string | undefined;
+
+  /**
+   * Nomes que getWebhookName pode retornar (opcional)
+   * Verificados na criação do notifier quando webhookResolution é 'strict' ou 'warn'
+   */
+  readonly webhookNames?: readonly string[];
 }
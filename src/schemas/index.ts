@@ -1,2 +1,10 @@
 export { EventSchema } from './base-schema';
 export { TombamentoSchema } from './tombamento-schema';
+export { TemplateSchema, validateTemplateDefinition } from './template-schema';
+export type {
+  TemplateDefinition,
+  TemplateSection,
+  TemplateWidget,
+  TemplateButton,
+  TemplateCondition,
+} from './template-schema';
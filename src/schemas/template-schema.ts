@@ -0,0 +1,607 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { EventSchema } from './base-schema';
+import { CardPayload } from '../types';
+import { card, linkButton, SectionBuilder } from '../cards';
+import { TemplateDefinitionError, YamlSyntaxError, type TemplateDefinitionIssue } from '../errors';
+import { sha1 } from '../utils/crypto';
+import { truncateMessage } from '../utils/truncate';
+import { parseYaml } from '../utils/yaml';
+
+// ============= DEFINIÇÃO =============
+
+/**
+ * Condição para exibir um widget ou seção
+ * Expressões usam a mesma sintaxe dos placeholders, sem chaves (ex: 'payload.author')
+ */
+export interface TemplateCondition {
+  /** Exibir apenas se o valor existir e não for vazio */
+  if?: string;
+  /** Exibir apenas se o valor estiver ausente ou vazio */
+  unless?: string;
+}
+
+export interface TemplateButton {
+  text: string;
+  url: string;
+}
+
+/**
+ * Widget de template (exatamente um tipo por item)
+ */
+export type TemplateWidget = TemplateCondition &
+  (
+    | { text: string }
+    | { field: { label?: string; value: string; bottomLabel?: string } }
+    | { buttons: TemplateButton[] }
+    | { image: { url: string; altText?: string } }
+    | { divider: true }
+  );
+
+export interface TemplateSection extends TemplateCondition {
+  header?: string;
+  /** Seção recolhível: quantidade de widgets visíveis antes de expandir */
+  collapsible?: number;
+  widgets: TemplateWidget[];
+}
+
+/**
+ * Definição declarativa de um schema (JSON/YAML)
+ *
+ * Placeholders disponíveis nos textos:
+ * - {{payload.campo}} / {{payload.a.b}}: valor do payload (vazio quando ausente)
+ * - {{event}}: nome do evento (ver eventField)
+ * - {{emoji}}: emoji do evento (ver emoji)
+ */
+export interface TemplateDefinition {
+  /** Nome do schema */
+  name: string;
+  /** Campo do payload com o nome do evento (default: 'event') */
+  eventField?: string;
+  header: {
+    title: string;
+    subtitle?: string;
+    imageUrl?: string;
+  };
+  /** Emoji por evento, disponível como {{emoji}} */
+  emoji?: Record<string, string>;
+  sections: TemplateSection[];
+  /** Eventos enviados com level 'important' (default: todos) */
+  importantEvents?: string[];
+  /** Campos do payload que compõem a chave de idempotência (default: sem idempotência) */
+  idempotencyKey?: string[];
+  /** Campo do payload com o nome do webhook de destino */
+  webhookField?: string;
+  /** Webhooks que webhookField pode indicar (verificados na criação do notifier) */
+  webhookNames?: string[];
+  /** Template da chave de thread (ex: '{{payload.service}}') */
+  threadKey?: string;
+}
+
+const WIDGET_TYPES = ['text', 'field', 'buttons', 'image', 'divider'] as const;
+const DEFINITION_KEYS = [
+  'name',
+  'eventField',
+  'header',
+  'emoji',
+  'sections',
+  'importantEvents',
+  'idempotencyKey',
+  'webhookField',
+  'webhookNames',
+  'threadKey',
+];
+const PLACEHOLDER = /\{\{\s*([^}]*?)\s*\}\}/g;
+const EXPRESSION = /^(payload(\.[A-Za-z0-9_$-]+)+|event|emoji)$/;
+
+/**
+ * Schema montado a partir de uma definição declarativa, sem escrever TypeScript
+ *
+ * Exemplo:
+ *   const notifier = createNotifier(TemplateSchema.fromFile('deploy.yaml'));
+ */
+export class TemplateSchema<TPayload = Record<string, unknown>> implements EventSchema<
+  TPayload,
+  string
+> {
+  readonly name: string;
+  readonly webhookNames?: readonly string[];
+  private readonly definition: TemplateDefinition;
+
+  /**
+   * @param definition Definição do schema
+   * @param source Origem da definição (usada nas mensagens de erro)
+   * @throws TemplateDefinitionError quando a definição é inválida
+   */
+  constructor(definition: TemplateDefinition, source?: string) {
+    const issues = validateTemplateDefinition(definition);
+    if (issues.length > 0) {
+      throw new TemplateDefinitionError(issues, source);
+    }
+
+    this.definition = definition;
+    this.name = definition.name;
+    this.webhookNames = definition.webhookNames;
+  }
+
+  /**
+   * Carregar definição de um arquivo .json, .yaml ou .yml
+   * @param path Caminho do arquivo
+   * @throws TemplateDefinitionError quando o arquivo não pode ser lido ou não é válido
+   */
+  static fromFile<TPayload = Record<string, unknown>>(path: string): TemplateSchema<TPayload> {
+    let content: string;
+    try {
+      content = readFileSync(path, 'utf8');
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      throw new TemplateDefinitionError(
+        [
+          {
+            path: 'file',
+            message: code === 'ENOENT' ? 'was not found' : `could not be read (${code})`,
+          },
+        ],
+        path,
+      );
+    }
+    const extension = extname(path).toLowerCase();
+
+    let definition: unknown;
+    try {
+      if (extension === '.json') {
+        definition = JSON.parse(content);
+      } else if (extension === '.yaml' || extension === '.yml') {
+        definition = parseYaml(content);
+      } else {
+        throw new TemplateDefinitionError(
+          [
+            {
+              path: 'file',
+              message: `has unsupported extension '${extension}' (use .json, .yaml or .yml)`,
+            },
+          ],
+          path,
+        );
+      }
+    } catch (error) {
+      if (error instanceof YamlSyntaxError) {
+        throw new TemplateDefinitionError(
+          [{ path: `line ${error.line}`, message: error.reason }],
+          path,
+        );
+      }
+      if (error instanceof SyntaxError) {
+        throw new TemplateDefinitionError(
+          [{ path: 'file', message: `is not valid JSON (${error.message})` }],
+          path,
+        );
+      }
+      throw error;
+    }
+
+    return TemplateSchema.fromDefinition<TPayload>(definition, path);
+  }
+
+  /**
+   * Criar schema a partir de um valor não tipado (ex: objeto lido de outra fonte)
+   * @param definition Definição a validar
+   * @param source Origem da definição (usada nas mensagens de erro)
+   * @throws TemplateDefinitionError quando a definição é inválida
+   */
+  static fromDefinition<TPayload = Record<string, unknown>>(
+    definition: unknown,
+    source?: string,
+  ): TemplateSchema<TPayload> {
+    return new TemplateSchema<TPayload>(definition as TemplateDefinition, source);
+  }
+
+  buildCard(payload: TPayload, config: { maxMessage: number }): CardPayload {
+    const { header, sections } = this.definition;
+    const context = this.contextFor(payload);
+    const render = (template: string): string => renderTemplate(template, context);
+
+    // Optional header parts whose placeholders are all missing are omitted
+    const subtitle = header.subtitle && render(header.subtitle);
+    const imageUrl = header.imageUrl && render(header.imageUrl);
+    const draft = card(slugify(this.name)).header(render(header.title), {
+      ...(subtitle && { subtitle }),
+      ...(imageUrl && { imageUrl }),
+    });
+
+    let section: SectionBuilder | undefined;
+    for (const definition of sections) {
+      const widgets = definition.widgets.filter((widget) => isVisible(widget, context));
+      if (!isVisible(definition, context) || widgets.length === 0) {
+        continue;
+      }
+
+      const sectionHeader = definition.header ? render(definition.header) : undefined;
+      section = section ? section.section(sectionHeader) : draft.section(sectionHeader);
+      if (definition.collapsible !== undefined) {
+        section.collapsible(definition.collapsible);
+      }
+
+      for (const widget of widgets) {
+        if ('text' in widget) {
+          section.textParagraph(truncateMessage(render(widget.text), config.maxMessage));
+        } else if ('field' in widget) {
+          const { label, value, bottomLabel } = widget.field;
+          section.decoratedText({
+            ...(label && { topLabel: render(label) }),
+            text: truncateMessage(render(value), config.maxMessage),
+            ...(bottomLabel && { bottomLabel: render(bottomLabel) }),
+            wrapText: true,
+          });
+        } else if ('buttons' in widget) {
+          section.buttonList(
+            ...widget.buttons.map((button) => linkButton(render(button.text), render(button.url))),
+          );
+        } else if ('image' in widget) {
+          section.image(render(widget.image.url), {
+            ...(widget.image.altText && { altText: render(widget.image.altText) }),
+          });
+        } else {
+          section.divider();
+        }
+      }
+    }
+
+    // Every widget was hidden: still send the header
+    return (section ?? draft.section().textParagraph(render(header.title))).build();
+  }
+
+  isImportantEvent(event: string): boolean {
+    const { importantEvents } = this.definition;
+    return !importantEvents || importantEvents.includes(event);
+  }
+
+  getEvent(payload: TPayload): string | undefined {
+    const value = getPath(payload, this.definition.eventField ?? 'event');
+    return value === undefined || value === null ? undefined : String(value);
+  }
+
+  getThreadKey(payload: TPayload): string | undefined {
+    const { threadKey } = this.definition;
+    return (threadKey && renderTemplate(threadKey, this.contextFor(payload))) || undefined;
+  }
+
+  getIdempotencyKey(payload: TPayload): string | undefined {
+    const { idempotencyKey } = this.definition;
+    if (!idempotencyKey) {
+      return undefined;
+    }
+    return sha1(
+      [this.name, ...idempotencyKey.map((field) => toText(getPath(payload, field)))].join(':'),
+    );
+  }
+
+  getWebhookName(payload: TPayload): string | undefined {
+    const { webhookField } = this.definition;
+    const value = webhookField ? getPath(payload, webhookField) : undefined;
+    return typeof value === 'string' && value ? value : undefined;
+  }
+
+  private contextFor(payload: TPayload): TemplateContext {
+    const event = this.getEvent(payload);
+    return {
+      payload,
+      event,
+      emoji: event ? this.definition.emoji?.[event] : undefined,
+    };
+  }
+}
+
+// ============= VALIDAÇÃO =============
+
+/**
+ * Listar problemas de uma definição (vazio = válida)
+ * @param definition Definição (qualquer valor, ex: vindo de JSON/YAML)
+ */
+export function validateTemplateDefinition(definition: unknown): TemplateDefinitionIssue[] {
+  const issues: TemplateDefinitionIssue[] = [];
+  const report = (path: string, message: string): void => {
+    issues.push({ path, message });
+  };
+
+  if (!isRecord(definition)) {
+    report('definition', 'must be an object');
+    return issues;
+  }
+
+  checkKeys(definition, DEFINITION_KEYS, '', report);
+  checkString(definition.name, 'name', true, report);
+  checkString(definition.eventField, 'eventField', false, report);
+  checkString(definition.webhookField, 'webhookField', false, report);
+  checkTemplate(definition.threadKey, 'threadKey', false, report);
+  checkStringList(definition.importantEvents, 'importantEvents', report);
+  checkStringList(definition.idempotencyKey, 'idempotencyKey', report);
+  checkStringList(definition.webhookNames, 'webhookNames', report);
+
+  if (!isRecord(definition.header)) {
+    report('header', 'is required (object with title)');
+  } else {
+    checkKeys(definition.header, ['title', 'subtitle', 'imageUrl'], 'header', report);
+    checkTemplate(definition.header.title, 'header.title', true, report);
+    checkTemplate(definition.header.subtitle, 'header.subtitle', false, report);
+    checkTemplate(definition.header.imageUrl, 'header.imageUrl', false, report);
+  }
+
+  if (definition.emoji !== undefined) {
+    if (!isRecord(definition.emoji)) {
+      report('emoji', 'must map event names to emojis');
+    } else {
+      Object.entries(definition.emoji).forEach(([event, emoji]) => {
+        checkString(emoji, `emoji.${event}`, true, report);
+      });
+    }
+  }
+
+  if (!Array.isArray(definition.sections) || definition.sections.length === 0) {
+    report('sections', 'must contain at least one section');
+  } else {
+    definition.sections.forEach((section, index) =>
+      validateSection(section, `sections[${index}]`, report),
+    );
+  }
+
+  return issues;
+}
+
+function validateSection(
+  section: unknown,
+  path: string,
+  report: (path: string, message: string) => void,
+): void {
+  if (!isRecord(section)) {
+    report(path, 'must be an object');
+    return;
+  }
+
+  checkKeys(section, ['header', 'collapsible', 'widgets', 'if', 'unless'], path, report);
+  checkTemplate(section.header, `${path}.header`, false, report);
+  checkCondition(section, path, report);
+  if (
+    section.collapsible !== undefined &&
+    (!Number.isInteger(section.collapsible) || (section.collapsible as number) < 0)
+  ) {
+    report(`${path}.collapsible`, 'must be a non-negative integer');
+  }
+
+  if (!Array.isArray(section.widgets) || section.widgets.length === 0) {
+    report(`${path}.widgets`, 'must contain at least one widget');
+    return;
+  }
+  section.widgets.forEach((widget, index) =>
+    validateWidget(widget, `${path}.widgets[${index}]`, report),
+  );
+}
+
+function validateWidget(
+  widget: unknown,
+  path: string,
+  report: (path: string, message: string) => void,
+): void {
+  if (!isRecord(widget)) {
+    report(path, 'must be an object');
+    return;
+  }
+
+  checkCondition(widget, path, report);
+  const types = Object.keys(widget).filter((key) => key !== 'if' && key !== 'unless');
+  if (types.length !== 1) {
+    report(
+      path,
+      `must have exactly one widget type (found ${types.length ? types.join(', ') : 'none'}; ` +
+        `expected one of ${WIDGET_TYPES.join(', ')})`,
+    );
+    return;
+  }
+
+  const [type] = types;
+  const value = widget[type];
+  const typePath = `${path}.${type}`;
+
+  switch (type) {
+    case 'text':
+      checkTemplate(value, typePath, true, report);
+      break;
+    case 'field':
+      if (!isRecord(value)) {
+        report(typePath, 'must be an object with label and value');
+        break;
+      }
+      checkKeys(value, ['label', 'value', 'bottomLabel'], typePath, report);
+      checkTemplate(value.label, `${typePath}.label`, false, report);
+      checkTemplate(value.value, `${typePath}.value`, true, report);
+      checkTemplate(value.bottomLabel, `${typePath}.bottomLabel`, false, report);
+      break;
+    case 'buttons':
+      if (!Array.isArray(value) || value.length === 0) {
+        report(typePath, 'must contain at least one button');
+        break;
+      }
+      value.forEach((button, index) => {
+        const buttonPath = `${typePath}[${index}]`;
+        if (!isRecord(button)) {
+          report(buttonPath, 'must be an object with text and url');
+          return;
+        }
+        checkKeys(button, ['text', 'url'], buttonPath, report);
+        checkTemplate(button.text, `${buttonPath}.text`, true, report);
+        checkTemplate(button.url, `${buttonPath}.url`, true, report);
+      });
+      break;
+    case 'image':
+      if (!isRecord(value)) {
+        report(typePath, 'must be an object with url');
+        break;
+      }
+      checkKeys(value, ['url', 'altText'], typePath, report);
+      checkTemplate(value.url, `${typePath}.url`, true, report);
+      checkTemplate(value.altText, `${typePath}.altText`, false, report);
+      break;
+    case 'divider':
+      if (value !== true) {
+        report(typePath, 'must be true');
+      }
+      break;
+    default:
+      report(typePath, `is not a widget type (expected one of ${WIDGET_TYPES.join(', ')})`);
+  }
+}
+
+function checkKeys(
+  value: Record<string, unknown>,
+  allowed: string[],
+  path: string,
+  report: (path: string, message: string) => void,
+): void {
+  Object.keys(value)
+    .filter((key) => !allowed.includes(key))
+    .forEach((key) => report(path ? `${path}.${key}` : key, 'is not a known property'));
+}
+
+function checkString(
+  value: unknown,
+  path: string,
+  required: boolean,
+  report: (path: string, message: string) => void,
+): void {
+  if (value === undefined || value === null) {
+    if (required) {
+      report(path, 'is required');
+    }
+    return;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    report(path, 'must be a non-empty string');
+  }
+}
+
+/**
+ * String with valid placeholders
+ */
+function checkTemplate(
+  value: unknown,
+  path: string,
+  required: boolean,
+  report: (path: string, message: string) => void,
+): void {
+  checkString(value, path, required, report);
+  if (typeof value !== 'string') {
+    return;
+  }
+  for (const [placeholder, expression] of value.matchAll(PLACEHOLDER)) {
+    if (!EXPRESSION.test(expression)) {
+      report(
+        path,
+        `has invalid placeholder '${placeholder}' (use {{payload.<field>}}, {{event}} or {{emoji}})`,
+      );
+    }
+  }
+}
+
+function checkCondition(
+  value: Record<string, unknown>,
+  path: string,
+  report: (path: string, message: string) => void,
+): void {
+  for (const key of ['if', 'unless']) {
+    if (value[key] === undefined) {
+      continue;
+    }
+    if (typeof value[key] !== 'string' || !EXPRESSION.test(value[key] as string)) {
+      report(`${path}.${key}`, "must be an expression like 'payload.<field>', 'event' or 'emoji'");
+    }
+  }
+}
+
+function checkStringList(
+  value: unknown,
+  path: string,
+  report: (path: string, message: string) => void,
+): void {
+  if (value === undefined) {
+    return;
+  }
+  if (!Array.isArray(value) || value.length === 0) {
+    report(path, 'must be a non-empty list of strings');
+    return;
+  }
+  value.forEach((item, index) => checkString(item, `${path}[${index}]`, true, report));
+}
+
+// ============= RENDERIZAÇÃO =============
+
+interface TemplateContext {
+  payload: unknown;
+  event?: string;
+  emoji?: string;
+}
+
+function renderTemplate(template: string, context: TemplateContext): string {
+  return template.replace(PLACEHOLDER, (_, expression: string) =>
+    toText(evaluate(expression, context)),
+  );
+}
+
+function isVisible(condition: TemplateCondition, context: TemplateContext): boolean {
+  if (condition.if !== undefined && isEmpty(evaluate(condition.if, context))) {
+    return false;
+  }
+  if (condition.unless !== undefined && !isEmpty(evaluate(condition.unless, context))) {
+    return false;
+  }
+  return true;
+}
+
+function evaluate(expression: string, context: TemplateContext): unknown {
+  if (expression === 'event' || expression === 'emoji') {
+    return context[expression];
+  }
+  return getPath(context.payload, expression);
+}
+
+/**
+ * Read dotted path from payload ('payload.' prefix is optional)
+ */
+function getPath(payload: unknown, path: string): unknown {
+  return path
+    .replace(/^payload\./, '')
+    .split('.')
+    .reduce<unknown>((value, key) => (isRecord(value) ? value[key] : undefined), payload);
+}
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === false ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(toText).join(', ');
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function slugify(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '') || 'template'
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,7 +1,8 @@
 import { EventSchema } from './base-schema';
 import { TombamentoPayload, TombamentoEvent, CardPayload } from '../types';
-import { sha1 } from '../utils/crypto';
+import { sha1, generateThreadKey } from '../utils/crypto';
 import { truncateMessage } from '../utils/truncate';
+import { card } from '../cards';
 
 /**
  * Schema padrão para eventos de tombamento de arquivos
@@ -28,37 +29,25 @@ export class TombamentoSchema implements EventSchema<TombamentoPayload, Tombamen
       ? truncateMessage(payload.message, config.maxMessage)
       : undefined;
 
-    const widgets = [
-      this.buildTextField('Parceiro', payload.partner),
-      this.buildTextField('Arquivo', payload.object),
-      this.buildTextField('Etapa', payload.stage || payload.event),
-      this.buildTextField('Data/Hora', payload.ts || new Date().toISOString()),
-    ];
+    const section = card(`tombamento-${Date.now()}`)
+      .header(`${eventConfig.emoji} ${payload.event}`, { subtitle: payload.partner })
+      .section()
+      .textParagraph(this.formatField('Parceiro', payload.partner))
+      .textParagraph(this.formatField('Arquivo', payload.object))
+      .textParagraph(this.formatField('Etapa', payload.stage || payload.event))
+      .textParagraph(this.formatField('Data/Hora', payload.ts || new Date().toISOString()));
 
     // Adicionar contadores se existirem
     if (payload.counts) {
-      widgets.push(this.buildCountsField(payload.counts));
+      section.textParagraph(this.formatField('Totais', this.formatCounts(payload.counts)));
     }
 
     // Adicionar mensagem se existir
     if (message) {
-      widgets.push(this.buildTextField('Mensagem', message));
+      section.textParagraph(this.formatField('Mensagem', message));
     }
 
-    return {
-      cardsV2: [
-        {
-          cardId: `tombamento-${Date.now()}`,
-          card: {
-            header: {
-              title: `${eventConfig.emoji} ${payload.event}`,
-              subtitle: payload.partner,
-            },
-            sections: [{ widgets }],
-          },
-        },
-      ],
-    };
+    return section.build();
   }
 
   isImportantEvent(event: TombamentoEvent): boolean {
@@ -66,6 +55,11 @@ export class TombamentoSchema implements EventSchema<TombamentoPayload, Tombamen
     return event !== 'PROCESSING';
   }
 
+  getThreadKey(payload: TombamentoPayload): string {
+    // Todos os eventos do mesmo arquivo ficam na mesma thread
+    return generateThreadKey(payload.bucket, payload.object);
+  }
+
   getIdempotencyKey(payload: TombamentoPayload): string {
     return sha1(
       [
@@ -77,15 +71,11 @@ export class TombamentoSchema implements EventSchema<TombamentoPayload, Tombamen
     );
   }
 
-  private buildTextField(label: string, value: string): Record<string, unknown> {
-    return {
-      textParagraph: {
-        text: `<b>${label}:</b> ${value}`,
-      },
-    };
+  private formatField(label: string, value: string): string {
+    return `<b>${label}:</b> ${value}`;
   }
 
-  private buildCountsField(counts: NonNullable<TombamentoPayload['counts']>): Record<string, unknown> {
+  private formatCounts(counts: NonNullable<TombamentoPayload['counts']>): string {
     const parts: string[] = [];
     if (counts.received !== undefined) parts.push(`received: ${counts.received}`);
     if (counts.valid !== undefined) parts.push(`valid: ${counts.valid}`);
@@ -93,10 +83,6 @@ export class TombamentoSchema implements EventSchema<TombamentoPayload, Tombamen
     if (counts.processed !== undefined) parts.push(`processed: ${counts.processed}`);
     if (counts.error !== undefined) parts.push(`error: ${counts.error}`);
 
-    return {
-      textParagraph: {
-        text: `<b>Totais:</b> ${parts.join(' · ')}`,
-      },
-    };
+    return parts.join(' · ');
   }
 }
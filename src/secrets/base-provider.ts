@@ -0,0 +1,17 @@
+/**
+ * Interface base para provedores de tokens de webhook
+ *
+ * Os tokens são resolvidos sob demanda (no envio) em vez de lidos uma única vez
+ * na inicialização: tokens rotacionados passam a valer sem reiniciar a aplicação.
+ * O notifier mantém os tokens em cache por `secretsRefreshMs` e força uma nova
+ * leitura quando o webhook responde 401/403.
+ */
+export interface SecretsProvider {
+  /**
+   * Token atual de um webhook
+   * @param webhookName Nome do webhook (minúsculo; 'default' para o webhook padrão)
+   * @returns undefined quando o provider não tem token para o webhook
+   *   (a URL configurada é usada como está)
+   */
+  getToken(webhookName: string): Promise<string | undefined>;
+}
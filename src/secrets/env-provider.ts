@@ -0,0 +1,36 @@
+import type { SecretsProvider } from './base-provider';
+
+export interface EnvSecretsProviderOptions {
+  /** Variáveis de ambiente consultadas (default: process.env, lido a cada consulta) */
+  env?: NodeJS.ProcessEnv;
+  /** Prefixo das variáveis, como o envPrefix do notifier (default: 'CHAT') */
+  envPrefix?: string;
+}
+
+/**
+ * Secrets provider baseado em variáveis de ambiente
+ *
+ * - Webhook padrão: CHAT_WEBHOOK_TOKEN
+ * - Webhooks nomeados: CHAT_WEBHOOK_<NAME>_TOKEN
+ * - Variáveis vazias são tratadas como ausentes
+ * - Com envPrefix 'BILLING': BILLING_WEBHOOK_TOKEN e BILLING_WEBHOOK_<NAME>_TOKEN
+ */
+export class EnvSecretsProvider implements SecretsProvider {
+  private readonly env?: NodeJS.ProcessEnv;
+  private readonly prefix: string;
+
+  constructor(options: EnvSecretsProviderOptions = {}) {
+    this.env = options.env;
+    this.prefix = `${options.envPrefix ?? 'CHAT'}_WEBHOOK`;
+  }
+
+  async getToken(webhookName: string): Promise<string | undefined> {
+    const env = this.env ?? process.env;
+    const key =
+      webhookName === 'default'
+        ? `${this.prefix}_TOKEN`
+        : `${this.prefix}_${webhookName.toUpperCase()}_TOKEN`;
+
+    return env[key]?.trim() || undefined;
+  }
+}
@@ -0,0 +1,43 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { SecretsProvider } from './base-provider';
+
+export interface FileSecretsProviderOptions {
+  /** Diretório dos secrets montados (default: /run/secrets) */
+  dir?: string;
+  /** Arquivo por webhook, quando não segue a convenção do diretório */
+  files?: Record<string, string>;
+}
+
+/**
+ * Secrets provider baseado em arquivos (Docker/Kubernetes secrets)
+ *
+ * - Um arquivo por webhook: `<dir>/chat_<name>_token` (ex: /run/secrets/chat_errors_token)
+ * - Webhook padrão: `<dir>/chat_default_token`
+ * - O conteúdo é lido a cada consulta, sem espaços e quebras de linha nas pontas
+ * - Arquivo inexistente ou vazio = sem token (outros erros de leitura são propagados)
+ */
+export class FileSecretsProvider implements SecretsProvider {
+  private readonly dir: string;
+  private readonly files: Map<string, string>;
+
+  constructor(options: FileSecretsProviderOptions = {}) {
+    this.dir = options.dir ?? '/run/secrets';
+    this.files = new Map(
+      Object.entries(options.files ?? {}).map(([name, path]) => [name.toLowerCase(), path]),
+    );
+  }
+
+  async getToken(webhookName: string): Promise<string | undefined> {
+    const path = this.files.get(webhookName) ?? join(this.dir, `chat_${webhookName}_token`);
+
+    try {
+      return (await fs.readFile(path, 'utf8')).trim() || undefined;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,6 @@
+export type { SecretsProvider } from './base-provider';
+export { EnvSecretsProvider } from './env-provider';
+export type { EnvSecretsProviderOptions } from './env-provider';
+export { FileSecretsProvider } from './file-provider';
+export type { FileSecretsProviderOptions } from './file-provider';
+export { SecretsCache } from './secrets-cache';
@@ -0,0 +1,55 @@
+/**
+ * Secrets Cache
+ *
+ * Caches tokens resolved by a SecretsProvider for a refresh interval, so the
+ * provider is not hit on every send while rotated tokens are still picked up.
+ * Concurrent lookups of the same webhook share one provider call; failed
+ * lookups are not cached.
+ */
+
+import type { SecretsProvider } from './base-provider';
+
+interface CacheEntry {
+  token: Promise<string | undefined>;
+  expiresAt: number;
+}
+
+export class SecretsCache {
+  private readonly provider: SecretsProvider;
+  private readonly refreshMs: number;
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(provider: SecretsProvider, refreshMs: number = 5 * 60 * 1000) {
+    this.provider = provider;
+    this.refreshMs = refreshMs;
+  }
+
+  /**
+   * Cached token of a webhook (read from the provider once the interval expires)
+   */
+  get(webhookName: string): Promise<string | undefined> {
+    const entry = this.entries.get(webhookName);
+    if (entry && Date.now() < entry.expiresAt) {
+      return entry.token;
+    }
+
+    return this.refresh(webhookName);
+  }
+
+  /**
+   * Read the token from the provider now, replacing the cached one
+   */
+  refresh(webhookName: string): Promise<string | undefined> {
+    const token = this.provider.getToken(webhookName);
+    const entry = { token, expiresAt: Date.now() + this.refreshMs };
+    this.entries.set(webhookName, entry);
+
+    token.catch(() => {
+      if (this.entries.get(webhookName) === entry) {
+        this.entries.delete(webhookName);
+      }
+    });
+
+    return token;
+  }
+}
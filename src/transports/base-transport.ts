@@ -0,0 +1,43 @@
+import type { CardPayload } from '../types';
+import type { Platform } from '../channels/types';
+
+/**
+ * Requisição de entrega de uma mensagem
+ */
+export interface TransportRequest {
+  /** URL final do webhook (com token e query params) */
+  url: string;
+  /** Nome do webhook resolvido (undefined = default) */
+  webhookName?: string;
+  /** Mensagem a ser enviada (formato Cards v2) */
+  payload: CardPayload;
+  /** Plataforma do webhook (default: 'google-chat') */
+  platform?: Platform;
+  /** Corpo já renderizado para a plataforma; quando ausente, o payload é enviado como está */
+  body?: unknown;
+}
+
+/**
+ * Resposta de uma tentativa bem-sucedida (2xx)
+ */
+export interface TransportResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  body: string;
+}
+
+/**
+ * Interface base para transportes plugáveis
+ * Um transporte executa UMA tentativa de entrega; retry e backoff ficam no HttpClient.
+ * Respostas não-2xx devem ser rejeitadas com HttpError para que a política de retry funcione.
+ */
+export interface Transport {
+  /**
+   * Enviar mensagem
+   * @param request Requisição
+   * @returns Resposta 2xx
+   * @throws HttpError para respostas não-2xx ou timeouts
+   */
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
@@ -0,0 +1,3 @@
+export type { Transport, TransportRequest, TransportResponse } from './base-transport';
+export { FetchTransport } from './fetch-transport';
+export { RecordingTransport } from './recording-transport';
@@ -0,0 +1,150 @@
+/**
+ * Recording Transport
+ *
+ * In-memory transport for tests: records every delivered (webhook, card) pair
+ * and can be scripted to fail, return arbitrary statuses or rate limit (429).
+ * No network access is performed.
+ *
+ * Example:
+ *   const transport = new RecordingTransport().rateLimitNext(1);
+ *   const notifier = createTombamentoNotifier({ transport, webhooks: {...} });
+ *   await notifier.uploaded({...});
+ *   expect(transport.requests).toHaveLength(2); // 429 + retry
+ */
+
+import { HttpError } from '../errors';
+import { isRetryableStatus } from '../utils/http';
+import type { CardPayload } from '../types';
+import type { Platform } from '../channels/types';
+import type { Transport, TransportRequest, TransportResponse } from './base-transport';
+
+export interface RecordedRequest {
+  url: string;
+  webhookName?: string;
+  payload: CardPayload;
+  platform?: Platform;
+  /** Body rendered for the platform (undefined = payload sent as-is) */
+  body?: unknown;
+  /** Status returned (undefined when the attempt threw) */
+  status?: number;
+}
+
+export type ScriptedResponse =
+  | {
+      status: number;
+      statusText?: string;
+      body?: string;
+      /** Simulated Retry-After (ms) */
+      retryAfterMs?: number;
+    }
+  | { error: Error };
+
+export class RecordingTransport implements Transport {
+  /** Every attempt, in order (including failed ones) */
+  readonly requests: RecordedRequest[] = [];
+  private readonly script: ScriptedResponse[] = [];
+  private messageCount = 0;
+
+  /**
+   * Queue responses for the next attempts (FIFO), then fall back to 200
+   */
+  respondWith(response: ScriptedResponse, times = 1): this {
+    for (let i = 0; i < times; i++) {
+      this.script.push(response);
+    }
+    return this;
+  }
+
+  /**
+   * Make the next attempts reject with a network-like error
+   */
+  failNext(error: Error | string = 'Simulated network error', times = 1): this {
+    return this.respondWith(
+      { error: typeof error === 'string' ? new Error(error) : error },
+      times,
+    );
+  }
+
+  /**
+   * Make the next attempts return 429 Too Many Requests
+   */
+  rateLimitNext(times = 1, retryAfterMs?: number): this {
+    return this.respondWith(
+      { status: 429, statusText: 'Too Many Requests', retryAfterMs },
+      times,
+    );
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const recorded: RecordedRequest = {
+      url: request.url,
+      webhookName: request.webhookName,
+      payload: request.payload,
+      ...(request.platform && { platform: request.platform }),
+      ...(request.body !== undefined && { body: request.body }),
+    };
+    this.requests.push(recorded);
+
+    const scripted = this.script.shift();
+    if (scripted && 'error' in scripted) {
+      throw scripted.error;
+    }
+
+    if (scripted && (scripted.status < 200 || scripted.status >= 300)) {
+      recorded.status = scripted.status;
+      const statusText = scripted.statusText ?? 'Error';
+      throw new HttpError(`HTTP ${scripted.status}: ${statusText}`, {
+        status: scripted.status,
+        statusText,
+        body: scripted.body,
+        retryable: isRetryableStatus(scripted.status),
+        retryAfterMs: scripted.retryAfterMs,
+      });
+    }
+
+    recorded.status = scripted?.status ?? 200;
+    return {
+      ok: true,
+      status: recorded.status,
+      statusText: scripted?.statusText ?? 'OK',
+      body: scripted?.body ?? this.defaultBody(request.payload),
+    };
+  }
+
+  /**
+   * Successfully delivered requests only
+   */
+  get delivered(): RecordedRequest[] {
+    return this.requests.filter((r) => r.status !== undefined && r.status < 300);
+  }
+
+  /**
+   * Last recorded attempt
+   */
+  get lastRequest(): RecordedRequest | undefined {
+    return this.requests[this.requests.length - 1];
+  }
+
+  /**
+   * Clear recorded requests and pending script
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.script.length = 0;
+    this.messageCount = 0;
+  }
+
+  /**
+   * Response body shaped like Google Chat's Message resource
+   */
+  private defaultBody(payload: CardPayload): string {
+    this.messageCount++;
+    const threadKey = payload.thread?.threadKey;
+    return JSON.stringify({
+      name: `spaces/recorded/messages/${this.messageCount}`,
+      thread: {
+        name: `spaces/recorded/threads/${threadKey ?? `t${this.messageCount}`}`,
+      },
+    });
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Status HTTP que podem ter sucesso em uma nova tentativa
+ * @param status Status HTTP
+ * @returns true para 408, 429 e 5xx
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Converte o header Retry-After (segundos ou data HTTP) em milissegundos
+ * @param value Valor do header
+ * @param now Timestamp de referência (para datas HTTP)
+ * @returns Delay em ms ou undefined se ausente/inválido
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, date - now);
+}
@@ -0,0 +1,91 @@
+/**
+ * Conversão da formatação do Google Chat (HTML básico: <b>, <i>, <s>, <a href>, <br>)
+ * para as marcações de outras plataformas; demais tags são descartadas
+ */
+
+/** Entidades HTML decodificadas nos textos */
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' ',
+};
+
+type InlineStyle = 'bold' | 'italic' | 'strike';
+
+/**
+ * Converter texto formatado do Google Chat (HTML básico) para Markdown
+ * Usado por Teams (Adaptive Cards) e Discord
+ * @param text Texto com HTML básico
+ * @returns Texto em Markdown
+ */
+export function htmlToMarkdown(text: string): string {
+  return convert(text, {
+    bold: '**',
+    italic: '_',
+    strike: '~~',
+    link: (url, label) => `[${label}](${url})`,
+  });
+}
+
+/**
+ * Converter texto formatado do Google Chat (HTML básico) para o mrkdwn do Slack
+ * @param text Texto com HTML básico
+ * @returns Texto em mrkdwn
+ */
+export function htmlToSlackMrkdwn(text: string): string {
+  return convert(text, {
+    bold: '*',
+    italic: '_',
+    strike: '~',
+    link: (url, label) => `<${url}|${label}>`,
+  });
+}
+
+/**
+ * Remover toda a formatação (para campos que só aceitam texto puro)
+ * @param text Texto com HTML básico
+ * @returns Texto puro
+ */
+export function htmlToPlainText(text: string): string {
+  return convert(text, {
+    bold: '',
+    italic: '',
+    strike: '',
+    link: (url, label) => (label === url ? url : `${label} (${url})`),
+  });
+}
+
+interface MarkupStyle extends Record<InlineStyle, string> {
+  link: (url: string, label: string) => string;
+}
+
+function convert(text: string, style: MarkupStyle): string {
+  // Links are converted last: Slack's <url|label> would be stripped as a tag
+  const links: string[] = [];
+
+  const result = text
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gi, (_, url: string, label: string) => {
+      links.push(style.link(decode(url), decode(stripTags(label)) || decode(url)));
+      return `\uE000${links.length - 1}\uE000`;
+    })
+    .replace(/<\/?(b|strong)>/gi, style.bold)
+    .replace(/<\/?(i|em)>/gi, style.italic)
+    .replace(/<\/?(s|strike|del)>/gi, style.strike);
+
+  return decode(stripTags(result)).replace(
+    /\uE000(\d+)\uE000/g,
+    (_, index: string) => links[Number(index)],
+  );
+}
+
+function stripTags(text: string): string {
+  return text.replace(/<[^>]+>/g, '');
+}
+
+function decode(text: string): string {
+  return text.replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (entity) => ENTITIES[entity]);
+}
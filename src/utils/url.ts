@@ -0,0 +1,108 @@
+/**
+ * Adiciona um parâmetro de query ao final de uma URL
+ * Mantém os parâmetros existentes intactos (ex: key e token do webhook)
+ * @param url URL base
+ * @param name Nome do parâmetro
+ * @param value Valor do parâmetro (será codificado)
+ * @returns URL com o parâmetro adicionado
+ */
+export function appendQueryParam(url: string, name: string, value: string): string {
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}${name}=${encodeURIComponent(value)}`;
+}
+
+/**
+ * Define um parâmetro de query, substituindo valores existentes
+ * Os demais parâmetros são mantidos na ordem original
+ * @param url URL base
+ * @param name Nome do parâmetro
+ * @param value Valor do parâmetro (será codificado)
+ * @returns URL com o parâmetro definido
+ */
+export function setQueryParam(url: string, name: string, value: string): string {
+  const index = url.indexOf('?');
+  const base = index === -1 ? url : url.slice(0, index);
+  const params = (index === -1 ? '' : url.slice(index + 1))
+    .split('&')
+    .filter((param) => param !== '' && param.split('=')[0] !== name);
+  params.push(`${name}=${encodeURIComponent(value)}`);
+  return `${base}?${params.join('&')}`;
+}
+
+/** Parâmetros de query que carregam credenciais de webhooks */
+const SECRET_PARAMS = ['token', 'key', 'sig', 'code'];
+
+/**
+ * Mascara credenciais de uma URL para uso em mensagens de erro e logs
+ * - Valores de token, key, sig e code na query
+ * - Segmentos longos do caminho (ex: secrets de webhooks do Slack e Discord)
+ * - Usuário e senha (ex: URL de proxy)
+ * @param url URL (inclusive inválida)
+ * @returns URL com as credenciais substituídas por ***
+ */
+export function maskUrl(url: string): string {
+  const index = url.indexOf('?');
+  const path = (index === -1 ? url : url.slice(0, index))
+    .replace(/\/\/[^/@]+@/, '//***@')
+    .split('/')
+    .map((segment, position) => (position > 2 && segment.length >= 20 ? '***' : segment))
+    .join('/');
+  const query =
+    index === -1
+      ? ''
+      : `?${url
+          .slice(index + 1)
+          .split('&')
+          .map((param) => {
+            const [name] = param.split('=');
+            return SECRET_PARAMS.includes(name.toLowerCase()) ? `${name}=***` : param;
+          })
+          .join('&')}`;
+  return `${path}${query}`;
+}
+
+/** Atribuições de credenciais fora de URLs (ex: "key=abc" em mensagens de erro) */
+const SECRET_ASSIGNMENT = new RegExp(
+  `\\b(${SECRET_PARAMS.join('|')})=(?!\\*\\*\\*)[^&\\s"'<>,;)]+`,
+  'gi',
+);
+
+/**
+ * Mascara credenciais em um texto livre (mensagens de log e de erro)
+ * - URLs http(s) são mascaradas com maskUrl
+ * - Parâmetros token=, key=, sig= e code= soltos no texto
+ * @param text Texto a ser registrado
+ * @returns Texto sem os valores das credenciais
+ */
+export function redactSecrets(text: string): string {
+  return text
+    .replace(/https?:\/\/[^\s"'<>`]+/gi, (url) => maskUrl(url))
+    .replace(SECRET_ASSIGNMENT, '$1=***');
+}
+
+/**
+ * Verifica se o hostname corresponde a algum dos padrões
+ * @param hostname Hostname como retornado por `new URL(...).hostname`
+ * @param patterns Nomes exatos, ou sufixos iniciados por ponto (ex: '.webhook.office.com')
+ */
+export function matchesHost(hostname: string, patterns: readonly string[]): boolean {
+  const host = hostname.toLowerCase();
+  return patterns.some((pattern) =>
+    pattern.startsWith('.') ? host.endsWith(pattern) : host === pattern,
+  );
+}
+
+/**
+ * Verifica se o hostname aponta para a própria máquina (localhost, 127.0.0.0/8, ::1)
+ * @param hostname Hostname como retornado por `new URL(...).hostname`
+ */
+export function isLocalHost(hostname: string): boolean {
+  const host = hostname.toLowerCase();
+  return (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    /^127(\.\d{1,3}){3}$/.test(host) ||
+    host === '[::1]' ||
+    host === '::1'
+  );
+}
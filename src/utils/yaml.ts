@@ -0,0 +1,416 @@
+/**
+ * Parser de YAML (subconjunto usado em arquivos de configuração)
+ *
+ * Suporta: mapas e listas em bloco, listas de mapas (`- chave: valor`), coleções inline
+ * (`[a, b]`, `{ a: 1 }`), strings com aspas simples ou duplas, blocos de texto (`|` e `>`),
+ * comentários, null, booleanos e números.
+ * Não suporta: âncoras/aliases, tags, documentos múltiplos e chaves complexas.
+ */
+
+import { YamlSyntaxError } from '../errors';
+
+interface SourceLine {
+  /** Número da linha (1-based) */
+  number: number;
+  indent: number;
+  /** Conteúdo sem indentação e sem comentário */
+  text: string;
+  raw: string;
+}
+
+/**
+ * Converter texto YAML em valor JavaScript
+ * @param source Conteúdo YAML
+ * @returns Valor (objeto, array ou escalar; undefined para documento vazio)
+ * @throws YamlSyntaxError com o número da linha quando a sintaxe não é suportada
+ */
+export function parseYaml(source: string): unknown {
+  const parser = new YamlParser(source);
+  return parser.parseDocument();
+}
+
+class YamlParser {
+  private readonly lines: SourceLine[];
+  private position = 0;
+
+  constructor(source: string) {
+    this.lines = source.split(/\r?\n/).map((raw, index) => {
+      const content = raw.replace(/^ */, '');
+      if (/^\t/.test(content) && content.trim()) {
+        throw syntaxError(index + 1, 'tabs are not allowed for indentation');
+      }
+      return {
+        number: index + 1,
+        indent: raw.length - content.length,
+        text: stripComment(content).trimEnd(),
+        raw,
+      };
+    });
+  }
+
+  parseDocument(): unknown {
+    this.skipBlank();
+    const first = this.peek();
+    if (!first) {
+      return undefined;
+    }
+    if (first.text === '---') {
+      this.position++;
+      return this.parseDocument();
+    }
+
+    const value = this.parseBlock(first.indent);
+    this.skipBlank();
+    const rest = this.peek();
+    if (rest) {
+      throw syntaxError(rest.number, 'unexpected content (check the indentation)');
+    }
+    return value;
+  }
+
+  private parseBlock(indent: number): unknown {
+    const line = this.peek();
+    if (!line) {
+      return null;
+    }
+    if (isSequenceItem(line.text)) {
+      return this.parseSequence(indent);
+    }
+    if (findMappingColon(line.text) >= 0) {
+      return this.parseMapping(indent);
+    }
+
+    this.position++;
+    return parseInline(line.text, line.number);
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    for (let line = this.peek(); line && line.indent === indent; line = this.peek()) {
+      if (isSequenceItem(line.text)) {
+        break;
+      }
+
+      const colon = findMappingColon(line.text);
+      if (colon < 0) {
+        throw syntaxError(line.number, `expected 'key: value', found '${line.text}'`);
+      }
+
+      const key = parseKey(line.text.slice(0, colon), line.number);
+      if (Object.prototype.hasOwnProperty.call(result, key)) {
+        throw syntaxError(line.number, `duplicate key '${key}'`);
+      }
+
+      const rest = line.text.slice(colon + 1).trim();
+      this.position++;
+      result[key] = this.parseValue(rest, indent, line.number);
+    }
+
+    return result;
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const result: unknown[] = [];
+
+    for (let line = this.peek(); line && line.indent === indent; line = this.peek()) {
+      if (!isSequenceItem(line.text)) {
+        // "key:" followed by a list at the same indentation: the mapping continues
+        break;
+      }
+
+      const rest = line.text.slice(1).trimStart();
+      if (rest && (findMappingColon(rest) >= 0 || isSequenceItem(rest))) {
+        // "- key: value": the item is a nested block starting on this line
+        const offset = line.text.length - rest.length;
+        this.lines[this.position] = { ...line, indent: indent + offset, text: rest };
+        result.push(this.parseBlock(indent + offset));
+        continue;
+      }
+
+      this.position++;
+      result.push(this.parseValue(rest, indent, line.number, true));
+    }
+
+    return result;
+  }
+
+  /**
+   * Value after "key:" or "-": inline, block scalar or nested block
+   */
+  private parseValue(rest: string, indent: number, lineNumber: number, inSequence = false): unknown {
+    if (/^[|>][+-]?$/.test(rest)) {
+      return this.parseBlockScalar(rest, indent);
+    }
+    if (rest) {
+      return parseInline(rest, lineNumber);
+    }
+
+    this.skipBlank();
+    const next = this.peek();
+    if (!next) {
+      return null;
+    }
+    if (next.indent > indent) {
+      return this.parseBlock(next.indent);
+    }
+    // "key:" followed by a list at the same indentation
+    if (!inSequence && next.indent === indent && isSequenceItem(next.text)) {
+      return this.parseSequence(indent);
+    }
+    return null;
+  }
+
+  private parseBlockScalar(indicator: string, indent: number): string {
+    const lines: string[] = [];
+    let blockIndent: number | undefined;
+
+    while (this.position < this.lines.length) {
+      const line = this.lines[this.position];
+      const blank = !line.raw.trim();
+      if (!blank && line.indent <= indent) {
+        break;
+      }
+      blockIndent ??= blank ? undefined : line.indent;
+      lines.push(blank ? '' : line.raw.slice(blockIndent));
+      this.position++;
+    }
+
+    // Trailing blank lines belong to the document, not to the text
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+
+    const text = indicator.startsWith('>')
+      ? lines.join('\n').replace(/([^\n])\n(?=[^\n])/g, '$1 ')
+      : lines.join('\n');
+
+    if (indicator.endsWith('-')) {
+      return text;
+    }
+    return `${text}\n`;
+  }
+
+  private peek(): SourceLine | undefined {
+    this.skipBlank();
+    return this.lines[this.position];
+  }
+
+  private skipBlank(): void {
+    while (this.position < this.lines.length && !this.lines[this.position].text) {
+      this.position++;
+    }
+  }
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+/**
+ * Index of the ':' separating key and value (-1 when the line is not a mapping entry)
+ */
+function findMappingColon(text: string): number {
+  if (text.startsWith('[') || text.startsWith('{')) {
+    return -1;
+  }
+
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if ((char === '"' || char === "'") && i === 0) {
+      quote = char;
+    } else if (char === ':' && (i === text.length - 1 || text[i + 1] === ' ')) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function parseKey(text: string, lineNumber: number): string {
+  const key = text.trim();
+  if (!key) {
+    throw syntaxError(lineNumber, 'empty key');
+  }
+  if (key.startsWith('"') || key.startsWith("'")) {
+    return String(parseScalar(key, lineNumber));
+  }
+  return key;
+}
+
+/**
+ * Remove "# comment" outside quotes
+ */
+function stripComment(text: string): string {
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if ((char === '"' || char === "'") && (i === 0 || ' [{,:'.includes(text[i - 1]))) {
+      // Quotes only open a string at the start of a value (not in "it's")
+      quote = char;
+    } else if (char === '#' && (i === 0 || text[i - 1] === ' ')) {
+      return text.slice(0, i);
+    }
+  }
+  return text;
+}
+
+/**
+ * Parse flow collection or scalar written on a single line
+ */
+function parseInline(text: string, lineNumber: number): unknown {
+  const reader = { text, index: 0 };
+  const value = readFlowValue(reader, lineNumber, false);
+  skipSpaces(reader);
+  if (reader.index < text.length) {
+    throw syntaxError(lineNumber, `unexpected '${text.slice(reader.index)}'`);
+  }
+  return value;
+}
+
+interface FlowReader {
+  text: string;
+  index: number;
+}
+
+function readFlowValue(reader: FlowReader, lineNumber: number, inFlow: boolean): unknown {
+  skipSpaces(reader);
+  const char = reader.text[reader.index];
+
+  if (char === '[') {
+    reader.index++;
+    const items: unknown[] = [];
+    while (!consume(reader, ']', lineNumber)) {
+      items.push(readFlowValue(reader, lineNumber, true));
+      expectSeparator(reader, ']', lineNumber);
+    }
+    return items;
+  }
+
+  if (char === '{') {
+    reader.index++;
+    const result: Record<string, unknown> = {};
+    while (!consume(reader, '}', lineNumber)) {
+      const key = readFlowValue(reader, lineNumber, true);
+      if (!consume(reader, ':', lineNumber)) {
+        throw syntaxError(lineNumber, "expected ':' in inline mapping");
+      }
+      result[String(key)] = readFlowValue(reader, lineNumber, true);
+      expectSeparator(reader, '}', lineNumber);
+    }
+    return result;
+  }
+
+  if (char === '"' || char === "'") {
+    const end = findClosingQuote(reader.text, reader.index, lineNumber);
+    const token = reader.text.slice(reader.index, end + 1);
+    reader.index = end + 1;
+    return parseScalar(token, lineNumber);
+  }
+
+  // Plain scalar: inside flow collections it ends at , ] } or ": "
+  const start = reader.index;
+  while (reader.index < reader.text.length) {
+    const current = reader.text[reader.index];
+    if (inFlow && (current === ',' || current === ']' || current === '}')) {
+      break;
+    }
+    if (inFlow && current === ':' && /[\s,\]}]/.test(reader.text[reader.index + 1] ?? ' ')) {
+      break;
+    }
+    reader.index++;
+  }
+  if (reader.index === start && inFlow) {
+    throw syntaxError(lineNumber, 'empty value in inline collection');
+  }
+  return parseScalar(reader.text.slice(start, reader.index).trim(), lineNumber);
+}
+
+function findClosingQuote(text: string, start: number, lineNumber: number): number {
+  const quote = text[start];
+  for (let i = start + 1; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') {
+      i++;
+    } else if (text[i] === quote) {
+      // '' is an escaped quote inside single-quoted strings
+      if (quote === "'" && text[i + 1] === "'") {
+        i++;
+        continue;
+      }
+      return i;
+    }
+  }
+  throw syntaxError(lineNumber, 'unterminated string');
+}
+
+function parseScalar(token: string, lineNumber: number): unknown {
+  if (token.startsWith('"')) {
+    try {
+      return JSON.parse(token) as string;
+    } catch {
+      throw syntaxError(lineNumber, `invalid string ${token}`);
+    }
+  }
+  if (token.startsWith("'")) {
+    return token.slice(1, -1).replace(/''/g, "'");
+  }
+  if (token === '' || token === '~' || token === 'null') {
+    return null;
+  }
+  if (token === 'true' || token === 'false') {
+    return token === 'true';
+  }
+  if (/^[-+]?(\d+|\d*\.\d+)$/.test(token)) {
+    return Number(token);
+  }
+  return token;
+}
+
+function skipSpaces(reader: FlowReader): void {
+  while (reader.text[reader.index] === ' ') {
+    reader.index++;
+  }
+}
+
+function peekChar(reader: FlowReader): string | undefined {
+  skipSpaces(reader);
+  return reader.text[reader.index];
+}
+
+function consume(reader: FlowReader, char: string, lineNumber: number): boolean {
+  if (peekChar(reader) === char) {
+    reader.index++;
+    return true;
+  }
+  if (reader.index >= reader.text.length && (char === ']' || char === '}')) {
+    throw syntaxError(lineNumber, `unterminated inline collection (missing '${char}')`);
+  }
+  return false;
+}
+
+/**
+ * Items of inline collections are followed by ',' or the closing bracket
+ */
+function expectSeparator(reader: FlowReader, close: string, lineNumber: number): void {
+  if (consume(reader, ',', lineNumber) || peekChar(reader) === close) {
+    return;
+  }
+  if (reader.index >= reader.text.length) {
+    throw syntaxError(lineNumber, `unterminated inline collection (missing '${close}')`);
+  }
+  throw syntaxError(lineNumber, `expected ',' or '${close}'`);
+}
+
+function syntaxError(lineNumber: number, message: string): YamlSyntaxError {
+  return new YamlSyntaxError(lineNumber, message);
+}
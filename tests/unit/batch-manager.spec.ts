@@ -1,4 +1,8 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { BatchManager } from '../../src/batch-manager';
+import { BatchWal } from '../../src/batch-wal';
 
 describe('BatchManager', () => {
   jest.useFakeTimers();
@@ -257,6 +261,75 @@ describe('BatchManager', () => {
       expect(manager.size()).toBe(0); // Queue cleared
     });
 
+    it('should reject dropped items on destroy without flush', async () => {
+      const reject = jest.fn();
+      const manager = new BatchManager({
+        size: 10,
+        intervalMs: 5000,
+        onFlush: jest.fn(),
+        flushOnDestroy: false,
+      });
+
+      manager.add({ test: 'msg1' }, undefined, { resolve: jest.fn(), reject });
+
+      await manager.destroy();
+
+      expect(reject).toHaveBeenCalledWith(expect.any(Error));
+    });
+
+    it('should wait for an in-flight flush and send items queued meanwhile', async () => {
+      let finishFlush!: () => void;
+      const onFlush = jest
+        .fn()
+        .mockImplementationOnce(() => new Promise<void>((resolve) => (finishFlush = resolve)))
+        .mockResolvedValue(undefined);
+      const manager = new BatchManager({ size: 10, intervalMs: 5000, onFlush });
+
+      manager.add({ test: 'msg1' });
+      const flushing = manager.flush();
+      manager.add({ test: 'msg2' });
+      let destroyed = false;
+      const destroying = manager.destroy().then(() => (destroyed = true));
+
+      await Promise.resolve();
+      expect(destroyed).toBe(false);
+
+      finishFlush();
+      await Promise.all([flushing, destroying]);
+
+      expect(onFlush).toHaveBeenCalledTimes(2);
+      expect(onFlush.mock.calls[1][0]).toEqual([
+        expect.objectContaining({ payload: { test: 'msg2' } }),
+      ]);
+      expect(manager.size()).toBe(0);
+    });
+
+    it('should reject items queued during an in-flight flush without flushOnDestroy', async () => {
+      let finishFlush!: () => void;
+      const onFlush = jest.fn(() => new Promise<void>((resolve) => (finishFlush = resolve)));
+      const reject = jest.fn();
+      const manager = new BatchManager({
+        size: 10,
+        intervalMs: 5000,
+        onFlush,
+        flushOnDestroy: false,
+      });
+
+      manager.add({ test: 'msg1' });
+      const flushing = manager.flush();
+      manager.add({ test: 'msg2' }, undefined, { resolve: jest.fn(), reject });
+      const destroying = manager.destroy();
+
+      await Promise.resolve();
+      expect(reject).not.toHaveBeenCalled();
+
+      finishFlush();
+      await Promise.all([flushing, destroying]);
+
+      expect(onFlush).toHaveBeenCalledTimes(1);
+      expect(reject).toHaveBeenCalledWith(expect.any(Error));
+    });
+
     it('should stop timer on destroy', async () => {
       const onFlush = jest.fn().mockResolvedValue(undefined);
       const manager = new BatchManager({
@@ -310,6 +383,25 @@ describe('BatchManager', () => {
     });
   });
 
+  describe('item callbacks', () => {
+    it('should pass callbacks to onFlush with the item', async () => {
+      const onFlush = jest.fn().mockResolvedValue(undefined);
+      const manager = new BatchManager({
+        size: 10,
+        intervalMs: 5000,
+        onFlush,
+      });
+      const callbacks = { resolve: jest.fn(), reject: jest.fn() };
+
+      manager.add({ test: 'msg1' }, 'errors', callbacks);
+      await manager.flush();
+
+      expect(onFlush).toHaveBeenCalledWith([
+        { payload: { test: 'msg1' }, webhookName: 'errors', ...callbacks },
+      ]);
+    });
+  });
+
   describe('webhook names', () => {
     it('should preserve webhook names in batch', async () => {
       const onFlush = jest.fn().mockResolvedValue(undefined);
@@ -332,4 +424,68 @@ describe('BatchManager', () => {
       ]);
     });
   });
+
+  describe('write-ahead log', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(join(tmpdir(), 'chat-notifier-batch-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should recover unacknowledged items from a previous run', async () => {
+      const path = join(dir, 'batch.wal');
+      const crashed = new BatchManager({
+        size: 10,
+        intervalMs: 5000,
+        flushOnDestroy: false,
+        onFlush: jest.fn(),
+        wal: new BatchWal({ path }),
+      });
+      crashed.add({ test: 'msg1' }, 'errors');
+      crashed.add({ test: 'msg2' });
+      await crashed.destroy();
+
+      const onFlush = jest.fn().mockResolvedValue(undefined);
+      const manager = new BatchManager({
+        size: 10,
+        intervalMs: 5000,
+        onFlush,
+        wal: new BatchWal({ path }),
+      });
+
+      expect(manager.size()).toBe(2);
+      await manager.flush();
+      expect(onFlush).toHaveBeenCalledWith([
+        expect.objectContaining({ payload: { test: 'msg1' }, webhookName: 'errors' }),
+        expect.objectContaining({ payload: { test: 'msg2' } }),
+      ]);
+      await manager.destroy();
+    });
+
+    it('should not recover acknowledged items', async () => {
+      const path = join(dir, 'batch.wal');
+      const wal = new BatchWal({ path });
+      const manager = new BatchManager({
+        size: 10,
+        intervalMs: 5000,
+        flushOnDestroy: false,
+        onFlush: async (batch) => {
+          batch[0].ack?.();
+        },
+        wal,
+      });
+
+      manager.add({ test: 'sent' });
+      await manager.flush();
+      manager.add({ test: 'pending' });
+      await manager.destroy();
+
+      const recovered = new BatchWal<{ test: string }>({ path }).recover();
+      expect(recovered.map((e) => e.payload.test)).toEqual(['pending']);
+    });
+  });
 });
@@ -0,0 +1,80 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BatchWal } from '../../src/batch-wal';
+
+describe('BatchWal', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'chat-notifier-wal-'));
+    path = join(dir, 'nested', 'batch.wal');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function lines(): Promise<string[]> {
+    return (await fs.readFile(path, 'utf8')).split('\n').filter(Boolean);
+  }
+
+  it('should recover nothing when log does not exist', () => {
+    expect(new BatchWal({ path }).recover()).toEqual([]);
+  });
+
+  it('should recover unacknowledged items in order', () => {
+    const wal = new BatchWal<{ n: number }>({ path });
+    const first = wal.append({ n: 1 });
+    wal.append({ n: 2 }, 'errors');
+    wal.append({ n: 3 });
+    wal.ack(first);
+
+    const recovered = new BatchWal<{ n: number }>({ path }).recover();
+
+    expect(recovered.map((e) => e.payload.n)).toEqual([2, 3]);
+    expect(recovered[0].webhookName).toBe('errors');
+  });
+
+  it('should truncate log once every item is acknowledged', async () => {
+    const wal = new BatchWal({ path });
+    const ids = [wal.append({ n: 1 }), wal.append({ n: 2 })];
+    ids.forEach((id) => wal.ack(id));
+
+    expect(await lines()).toEqual([]);
+    expect(wal.size()).toBe(0);
+  });
+
+  it('should compact log on recovery', async () => {
+    const wal = new BatchWal({ path });
+    const first = wal.append({ n: 1 });
+    wal.append({ n: 2 });
+    wal.ack(first);
+    expect(await lines()).toHaveLength(3);
+
+    new BatchWal({ path }).recover();
+
+    expect(await lines()).toHaveLength(1);
+  });
+
+  it('should compact log when it grows past the threshold', async () => {
+    const wal = new BatchWal({ path, compactThreshold: 4 });
+    wal.append({ n: 0 });
+    for (let n = 1; n <= 5; n++) {
+      wal.ack(wal.append({ n }));
+    }
+
+    expect((await lines()).length).toBeLessThanOrEqual(5);
+    expect(new BatchWal<{ n: number }>({ path }).recover().map((e) => e.payload.n)).toEqual([0]);
+  });
+
+  it('should ignore unknown ids and corrupted lines', async () => {
+    const wal = new BatchWal<{ n: number }>({ path });
+    wal.append({ n: 1 });
+    wal.ack('unknown');
+    await fs.appendFile(path, '{"op":"add","id":"x","payl');
+
+    expect(new BatchWal<{ n: number }>({ path }).recover().map((e) => e.payload.n)).toEqual([1]);
+  });
+});
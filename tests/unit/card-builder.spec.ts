@@ -1,4 +1,5 @@
 import { CardBuilder } from '../../src/card-builder';
+import { CardValidationError } from '../../src/errors';
 import { TombamentoSchema } from '../../src/schemas/tombamento-schema';
 import type { TombamentoPayload } from '../../src/types';
 
@@ -21,7 +22,6 @@ describe('CardBuilder', () => {
       expect(card.cardsV2).toBeDefined();
       expect(card.cardsV2).toHaveLength(1);
       expect(card.cardsV2[0].card).toBeDefined();
-      // @ts-expect-error - accessing unknown card structure
       expect(card.cardsV2[0].card.header?.title).toContain('📥');
     });
 
@@ -35,4 +35,85 @@ describe('CardBuilder', () => {
       expect(card.cardsV2).toHaveLength(1);
     });
   });
+
+  describe('threading', () => {
+    it('should attach threadKey from schema', () => {
+      const builder = new CardBuilder(schema);
+      const card = builder.buildCard(samplePayload);
+
+      expect(card.thread?.threadKey).toBe(schema.getThreadKey(samplePayload));
+    });
+
+    it('should not attach thread when schema has no getThreadKey', () => {
+      const builder = new CardBuilder({
+        name: 'plain',
+        buildCard: () => ({ cardsV2: [{ cardId: 'plain', card: { sections: [] } }] }),
+      });
+      const card = builder.buildCard({});
+
+      expect(card.thread).toBeUndefined();
+    });
+
+    it('should not attach thread when schema returns undefined', () => {
+      const builder = new CardBuilder({
+        name: 'optional-thread',
+        buildCard: () => ({ cardsV2: [{ cardId: 'plain', card: { sections: [] } }] }),
+        getThreadKey: () => undefined,
+      });
+      const card = builder.buildCard({});
+
+      expect(card.thread).toBeUndefined();
+    });
+  });
+
+  describe('buildMessages', () => {
+    const emptySchema = {
+      name: 'empty',
+      buildCard: () => ({ cardsV2: [{ cardId: 'empty', card: { sections: [] } }] }),
+    };
+
+    const longSchema = {
+      name: 'long',
+      buildCard: () => ({
+        cardsV2: [
+          {
+            cardId: 'long',
+            card: { sections: [{ widgets: [{ textParagraph: { text: 'a'.repeat(5000) } }] }] },
+          },
+        ],
+      }),
+      getThreadKey: () => 'thread-1',
+    };
+
+    it('should reject invalid cards in strict mode (default)', () => {
+      const builder = new CardBuilder(emptySchema);
+
+      expect(() => builder.buildMessages({})).toThrow(CardValidationError);
+    });
+
+    it('should return the card as rendered when validation is off', () => {
+      const builder = new CardBuilder(emptySchema, { validation: 'off' });
+
+      expect(builder.buildMessages({})).toEqual([emptySchema.buildCard()]);
+    });
+
+    it('should fix the card in lenient mode, keeping the thread', () => {
+      const builder = new CardBuilder(longSchema, { validation: 'lenient' });
+
+      const [message, ...rest] = builder.buildMessages({});
+
+      expect(rest).toEqual([]);
+      expect(message.thread?.threadKey).toBe('thread-1');
+      expect(JSON.stringify(message)).not.toContain('a'.repeat(5000));
+    });
+
+    it('should return a single valid message', () => {
+      const builder = new CardBuilder(schema);
+
+      const messages = builder.buildMessages(samplePayload);
+
+      expect(messages).toHaveLength(1);
+      expect(messages[0].cardsV2[0].card).toEqual(builder.buildCard(samplePayload).cardsV2[0].card);
+    });
+  });
 });
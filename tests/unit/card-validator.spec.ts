@@ -0,0 +1,238 @@
+import { assertValidCard, CARD_LIMITS, fitCard, validateCard } from '../../src/card-validator';
+import { CardValidationError } from '../../src/errors';
+import { messageBytes } from '../../src/message-packer';
+import type { CardPayload } from '../../src/types';
+
+function card(widgets = 1, text = 'x', threadKey?: string): CardPayload {
+  return {
+    ...(threadKey ? { thread: { threadKey } } : {}),
+    cardsV2: [
+      {
+        cardId: 'report',
+        card: {
+          header: { title: 'Report', subtitle: 'Daily' },
+          sections: [
+            {
+              header: 'Items',
+              widgets: Array.from({ length: widgets }, (_, i) => ({
+                textParagraph: { text: `${i}:${text}` },
+              })),
+            },
+          ],
+        },
+      },
+    ],
+  };
+}
+
+/** Payload built by an untyped schema (anything can come in) */
+function raw(value: unknown): CardPayload {
+  return value as CardPayload;
+}
+
+describe('card-validator', () => {
+  describe('validateCard', () => {
+    it('should accept a valid card', () => {
+      expect(validateCard(card(3))).toEqual([]);
+    });
+
+    it('should report missing required fields with their paths', () => {
+      const issues = validateCard(
+        raw({
+          cardsV2: [
+            {
+              card: {
+                header: { subtitle: 'no title' },
+                sections: [
+                  { widgets: [{ textParagraph: {} }] },
+                  { widgets: [] },
+                  { widgets: [{ buttonList: { buttons: [{ text: 'Open' }] } }] },
+                ],
+              },
+            },
+          ],
+        }),
+      );
+
+      expect(issues.map((issue) => issue.path)).toEqual([
+        'cardsV2[0].cardId',
+        'cardsV2[0].card.header.title',
+        'cardsV2[0].card.sections[0].widgets[0].textParagraph.text',
+        'cardsV2[0].card.sections[1].widgets',
+        'cardsV2[0].card.sections[2].widgets[0].buttonList.buttons[0].onClick.openLink.url',
+      ]);
+    });
+
+    it('should report an empty message', () => {
+      expect(validateCard(raw({ cardsV2: [] }))).toEqual([
+        { path: 'cardsV2', message: 'must contain at least one card' },
+      ]);
+    });
+
+    it('should reject widgets with zero or several types', () => {
+      const issues = validateCard(
+        raw({
+          cardsV2: [
+            {
+              cardId: 'c',
+              card: {
+                sections: [{ widgets: [{}, { divider: {}, image: { imageUrl: 'https://x' } }] }],
+              },
+            },
+          ],
+        }),
+      );
+
+      expect(issues.map((issue) => issue.message)).toEqual([
+        'must have exactly one widget type (found 0)',
+        'must have exactly one widget type (found 2)',
+      ]);
+    });
+
+    it('should reject widgets Chat does not render inside columns', () => {
+      const issues = validateCard(
+        raw({
+          cardsV2: [
+            {
+              cardId: 'c',
+              card: {
+                sections: [
+                  { widgets: [{ columns: { columnItems: [{ widgets: [{ divider: {} }] }] } }] },
+                ],
+              },
+            },
+          ],
+        }),
+      );
+
+      expect(issues).toEqual([
+        {
+          path: 'cardsV2[0].card.sections[0].widgets[0].columns.columnItems[0].widgets[0].divider',
+          message: 'is not allowed inside columns',
+        },
+      ]);
+    });
+
+    it('should report widget count, text length and message size', () => {
+      expect(validateCard(card(101))).toContainEqual({
+        path: 'cardsV2[0].card.sections',
+        message: 'has 101 widgets (max 100)',
+      });
+
+      expect(validateCard(card(1, 'a'.repeat(5000)))).toContainEqual({
+        path: 'cardsV2[0].card.sections[0].widgets[0].textParagraph.text',
+        message: 'has 5002 characters (max 4096)',
+      });
+
+      const big = card(20, 'a'.repeat(2000));
+      expect(validateCard(big)).toEqual([
+        { path: 'message', message: `is ${messageBytes(big)} bytes (max 32000)` },
+      ]);
+    });
+  });
+
+  describe('assertValidCard', () => {
+    it('should throw a descriptive CardValidationError', () => {
+      const invalid = raw({ cardsV2: [{ cardId: 'c', card: { sections: [] } }] });
+
+      expect(() => assertValidCard(invalid)).toThrow(CardValidationError);
+      expect(() => assertValidCard(invalid)).toThrow(
+        'Invalid card: cardsV2[0].card.sections must contain at least one section',
+      );
+    });
+
+    it('should expose every issue', () => {
+      let error: unknown;
+      try {
+        assertValidCard(card(101, 'a'.repeat(5000)));
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(CardValidationError);
+      expect((error as CardValidationError).issues.length).toBeGreaterThan(5);
+      expect((error as CardValidationError).message).toMatch(/\(\+\d+ more\)$/);
+    });
+
+    it('should not throw for a valid card', () => {
+      expect(() => assertValidCard(card(100))).not.toThrow();
+    });
+  });
+
+  describe('fitCard', () => {
+    it('should return a valid card as is', () => {
+      const payload = card(3);
+
+      expect(fitCard(payload)).toEqual([payload]);
+    });
+
+    it('should truncate long texts without modifying the input', () => {
+      const payload = card(1, 'a'.repeat(5000));
+
+      const [message] = fitCard(payload);
+
+      const widget = message.cardsV2[0].card.sections[0].widgets[0];
+      expect('textParagraph' in widget && widget.textParagraph.text.length).toBeLessThanOrEqual(
+        CARD_LIMITS.maxTextLength,
+      );
+      expect(validateCard(message)).toEqual([]);
+      expect(payload.cardsV2[0].card.sections[0].widgets).toHaveLength(1);
+      expect(JSON.stringify(payload)).toContain('a'.repeat(5000));
+    });
+
+    it('should split oversized cards into continuation cards', () => {
+      const [message, ...rest] = fitCard(card(250));
+
+      expect(rest).toEqual([]);
+      expect(message.cardsV2.map((entry) => entry.cardId)).toEqual(['report', 'report-2', 'report-3']);
+      expect(message.cardsV2.map((entry) => entry.card.header?.title)).toEqual([
+        'Report (1/3)',
+        'Report (2/3)',
+        'Report (3/3)',
+      ]);
+      expect(message.cardsV2.every((entry) => entry.card.sections[0].header === 'Items')).toBe(true);
+      expect(validateCard(message)).toEqual([]);
+    });
+
+    it('should keep widgets in order across continuations', () => {
+      const [message] = fitCard(card(250));
+
+      const texts = message.cardsV2.flatMap((entry) =>
+        entry.card.sections.flatMap((section) =>
+          section.widgets.map((widget) => ('textParagraph' in widget ? widget.textParagraph.text : '')),
+        ),
+      );
+      expect(texts).toEqual(Array.from({ length: 250 }, (_, i) => `${i}:x`));
+    });
+
+    it('should split into several messages that keep the thread', () => {
+      const messages = fitCard(card(40, 'a'.repeat(2000), 'thread-1'));
+
+      expect(messages.length).toBeGreaterThan(1);
+      messages.forEach((message) => {
+        expect(message.thread).toEqual({ threadKey: 'thread-1' });
+        expect(validateCard(message)).toEqual([]);
+      });
+    });
+
+    it('should drop empty sections', () => {
+      const payload = card(1);
+      payload.cardsV2[0].card.sections.push({ header: 'Empty', widgets: [] });
+
+      const [message] = fitCard(payload);
+
+      expect(message.cardsV2[0].card.sections.map((section) => section.header)).toEqual(['Items']);
+    });
+
+    it('should throw when the card cannot be fixed', () => {
+      expect(() => fitCard(raw({ cardsV2: [{ card: { sections: [{ widgets: [{}] }] } }] }))).toThrow(
+        CardValidationError,
+      );
+
+      // A single widget bigger than a message cannot be split
+      expect(() =>
+        fitCard(card(1, 'a'.repeat(3000)), { ...CARD_LIMITS, maxMessageBytes: 1000 }),
+      ).toThrow('message is');
+    });
+  });
+});
@@ -0,0 +1,324 @@
+import { card, linkButton } from '../../src/cards';
+import {
+  DiscordRenderer,
+  fromGoogleCard,
+  getRenderer,
+  GoogleChatRenderer,
+  isNeutralMessage,
+  isPlatformHost,
+  SlackRenderer,
+  TeamsRenderer,
+  toGoogleCard,
+} from '../../src/channels';
+import { CardValidationError } from '../../src/errors';
+import type { NeutralMessage } from '../../src/channels';
+import type { CardPayload } from '../../src/types';
+
+describe('channel renderers', () => {
+  const neutral: NeutralMessage = {
+    threadKey: 'deploy-42',
+    cards: [
+      {
+        id: 'deploy',
+        title: '🚀 Deploy',
+        subtitle: 'api-gateway',
+        sections: [
+          {
+            title: 'Detalhes',
+            blocks: [
+              { type: 'field', label: 'Versão', text: 'v2.4.1' },
+              { type: 'field', label: 'Ambiente', text: '<b>produção</b>' },
+              { type: 'divider' },
+              { type: 'text', text: 'Concluído em <i>42s</i>' },
+              { type: 'buttons', buttons: [{ text: 'Abrir pipeline', url: 'https://ci.io/42' }] },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+
+  const google: CardPayload = card('deploy')
+    .header('🚀 Deploy', { subtitle: 'api-gateway' })
+    .section('Detalhes')
+    .decoratedText({ topLabel: 'Versão', text: 'v2.4.1' })
+    .columns(
+      (left) => left.textParagraph('esquerda'),
+      (right) => right.image('https://img.io/a.png', { altText: 'gráfico' }),
+    )
+    .grid([{ title: 'vendas.csv', subtitle: '10 KB' }], { title: 'Arquivos' })
+    .buttonList(linkButton('Abrir', 'https://ci.io/42'))
+    .build();
+
+  describe('neutral model', () => {
+    it('should convert neutral messages to Cards v2', () => {
+      const payload = toGoogleCard(neutral);
+
+      expect(payload.thread).toEqual({ threadKey: 'deploy-42' });
+      expect(payload.cardsV2[0]).toEqual({
+        cardId: 'deploy',
+        card: {
+          header: { title: '🚀 Deploy', subtitle: 'api-gateway' },
+          sections: [
+            {
+              header: 'Detalhes',
+              widgets: [
+                { decoratedText: { topLabel: 'Versão', text: 'v2.4.1', wrapText: true } },
+                { decoratedText: { topLabel: 'Ambiente', text: '<b>produção</b>', wrapText: true } },
+                { divider: {} },
+                { textParagraph: { text: 'Concluído em <i>42s</i>' } },
+                {
+                  buttonList: {
+                    buttons: [{ text: 'Abrir pipeline', onClick: { openLink: { url: 'https://ci.io/42' } } }],
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      });
+    });
+
+    it('should round-trip through Cards v2', () => {
+      expect(fromGoogleCard(toGoogleCard(neutral))).toEqual(neutral);
+    });
+
+    it('should flatten Google-only widgets', () => {
+      const [converted] = fromGoogleCard(google).cards;
+
+      expect(converted.sections[0].blocks).toEqual([
+        { type: 'field', label: 'Versão', text: 'v2.4.1' },
+        { type: 'text', text: 'esquerda' },
+        { type: 'image', url: 'https://img.io/a.png', altText: 'gráfico' },
+        { type: 'text', text: '<b>Arquivos</b><br>• vendas.csv - 10 KB' },
+        { type: 'buttons', buttons: [{ text: 'Abrir', url: 'https://ci.io/42' }] },
+      ]);
+    });
+
+    it('should tell neutral messages from Cards v2 payloads', () => {
+      expect(isNeutralMessage(neutral)).toBe(true);
+      expect(isNeutralMessage(google)).toBe(false);
+    });
+  });
+
+  describe('GoogleChatRenderer', () => {
+    it('should send Cards v2 as is', () => {
+      expect(new GoogleChatRenderer().render(google)).toBe(google);
+    });
+  });
+
+  describe('SlackRenderer', () => {
+    it('should render Block Kit', () => {
+      expect(new SlackRenderer().render(toGoogleCard(neutral))).toEqual({
+        text: '🚀 Deploy - api-gateway',
+        blocks: [
+          { type: 'header', text: { type: 'plain_text', text: '🚀 Deploy', emoji: true } },
+          { type: 'context', elements: [{ type: 'mrkdwn', text: 'api-gateway' }] },
+          { type: 'section', text: { type: 'mrkdwn', text: '*Detalhes*' } },
+          { type: 'section', text: { type: 'mrkdwn', text: '*Versão*\nv2.4.1' } },
+          { type: 'section', text: { type: 'mrkdwn', text: '*Ambiente*\n*produção*' } },
+          { type: 'divider' },
+          { type: 'section', text: { type: 'mrkdwn', text: 'Concluído em _42s_' } },
+          {
+            type: 'actions',
+            elements: [
+              {
+                type: 'button',
+                text: { type: 'plain_text', text: 'Abrir pipeline', emoji: true },
+                url: 'https://ci.io/42',
+              },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should separate cards and respect Block Kit limits', () => {
+      const text = { type: 'text' as const, text: 'y' };
+      const cards = (count: number, blocks: number) =>
+        toGoogleCard({
+          cards: Array.from({ length: count }, (_, i) => ({
+            title: `Card ${i} ${'x'.repeat(200)}`,
+            sections: [{ blocks: Array.from({ length: blocks }, () => text) }],
+          })),
+        });
+      const renderer = new SlackRenderer();
+
+      const { blocks } = renderer.render(cards(2, 23)) as {
+        blocks: Array<Record<string, unknown>>;
+      };
+
+      expect(blocks).toHaveLength(49);
+      expect(blocks[24]).toEqual({ type: 'divider' });
+      expect((blocks[0].text as { text: string }).text).toHaveLength(150);
+      expect(renderer.validate(cards(2, 23))).toEqual([]);
+
+      // Content is never dropped: over 50 blocks the message is rejected
+      expect(renderer.validate(cards(3, 30))).toEqual([
+        { path: 'blocks', message: 'has 95 Slack blocks (max 50)' },
+      ]);
+      expect(() => renderer.render(cards(3, 30))).toThrow(CardValidationError);
+    });
+
+    it('should reject actions with more buttons than Slack accepts', () => {
+      const buttons = (count: number) =>
+        toGoogleCard({
+          cards: [
+            {
+              sections: [
+                {
+                  blocks: [
+                    {
+                      type: 'buttons',
+                      buttons: Array.from({ length: count }, (_, i) => ({
+                        text: `Run ${i}`,
+                        url: `https://ci.io/${i}`,
+                      })),
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        });
+      const renderer = new SlackRenderer();
+
+      expect(renderer.validate(buttons(25))).toEqual([]);
+      expect(renderer.validate(buttons(26))).toEqual([
+        { path: 'blocks[0].elements', message: 'has 26 buttons (max 25)' },
+      ]);
+      expect(() => renderer.render(buttons(26))).toThrow(CardValidationError);
+    });
+  });
+
+  describe('TeamsRenderer', () => {
+    it('should render an Adaptive Card attachment', () => {
+      const body = new TeamsRenderer().render(toGoogleCard(neutral)) as {
+        type: string;
+        attachments: Array<{ contentType: string; content: { type: string; body: unknown[] } }>;
+      };
+
+      expect(body.type).toBe('message');
+      expect(body.attachments).toHaveLength(1);
+      expect(body.attachments[0].contentType).toBe('application/vnd.microsoft.card.adaptive');
+      expect(body.attachments[0].content.type).toBe('AdaptiveCard');
+      expect(body.attachments[0].content.body).toEqual([
+        { type: 'TextBlock', text: '🚀 Deploy', wrap: true, size: 'Large', weight: 'Bolder' },
+        { type: 'TextBlock', text: 'api-gateway', wrap: true, isSubtle: true, spacing: 'None' },
+        {
+          type: 'Container',
+          separator: true,
+          spacing: 'Medium',
+          items: [
+            { type: 'TextBlock', text: 'Detalhes', wrap: true, weight: 'Bolder' },
+            {
+              type: 'FactSet',
+              facts: [
+                { title: 'Versão', value: 'v2.4.1' },
+                { title: 'Ambiente', value: '**produção**' },
+              ],
+            },
+            { type: 'TextBlock', text: 'Concluído em _42s_', wrap: true, separator: true },
+            {
+              type: 'ActionSet',
+              actions: [{ type: 'Action.OpenUrl', title: 'Abrir pipeline', url: 'https://ci.io/42' }],
+            },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe('DiscordRenderer', () => {
+    it('should render one embed per card', () => {
+      expect(new DiscordRenderer().render(toGoogleCard(neutral))).toEqual({
+        embeds: [
+          {
+            title: '🚀 Deploy',
+            description:
+              '_api-gateway_\n**Detalhes**\nConcluído em _42s_\n[Abrir pipeline](https://ci.io/42)',
+            fields: [
+              { name: 'Versão', value: 'v2.4.1', inline: false },
+              { name: 'Ambiente', value: '**produção**', inline: false },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should apply embed limits', () => {
+      const payload = toGoogleCard({
+        cards: [
+          {
+            title: 't'.repeat(300),
+            sections: [
+              {
+                blocks: Array.from({ length: 27 }, (_, i) => ({
+                  type: 'field' as const,
+                  label: 'l',
+                  text: i < 25 ? 'v' : 'w'.repeat(2000),
+                })),
+              },
+            ],
+          },
+        ],
+      });
+
+      const { embeds } = new DiscordRenderer().render(payload) as {
+        embeds: Array<{ title: string; fields: Array<{ value: string }>; description?: string }>;
+      };
+
+      expect(embeds).toHaveLength(1);
+      expect(embeds[0].title).toHaveLength(256);
+      expect(embeds[0].fields).toHaveLength(25);
+      // Fields beyond the limit are kept in the description
+      expect(embeds[0].description).toBe(`${'w'.repeat(2000)}\n${'w'.repeat(2000)}`);
+    });
+
+    it('should reject messages over the embed count and size limits', () => {
+      const renderer = new DiscordRenderer();
+      const embeds = (count: number, text: string) =>
+        toGoogleCard({
+          cards: Array.from({ length: count }, () => ({
+            sections: [{ blocks: [{ type: 'text' as const, text }] }],
+          })),
+        });
+
+      expect(renderer.validate(embeds(10, 'x'.repeat(600)))).toEqual([]);
+      expect(renderer.validate(embeds(11, 'x'))).toEqual([
+        { path: 'embeds', message: 'has 11 embeds (max 10)' },
+      ]);
+      expect(renderer.validate(embeds(2, 'x'.repeat(3500)))).toEqual([
+        { path: 'embeds', message: 'have 7000 characters in total (max 6000)' },
+      ]);
+      expect(renderer.validate(embeds(1, 'x'.repeat(5000)))).toEqual([
+        { path: 'embeds[0].description', message: 'has 5000 characters (max 4096)' },
+      ]);
+      expect(() => renderer.render(embeds(11, 'x'))).toThrow(CardValidationError);
+    });
+  });
+
+  describe('platforms', () => {
+    it('should return the renderer of each platform', () => {
+      expect(getRenderer('slack')).toBeInstanceOf(SlackRenderer);
+      expect(getRenderer('teams')).toBeInstanceOf(TeamsRenderer);
+      expect(getRenderer('discord')).toBeInstanceOf(DiscordRenderer);
+      expect(getRenderer('google-chat')).toBeInstanceOf(GoogleChatRenderer);
+    });
+
+    it.each([
+      ['google-chat', 'chat.googleapis.com', true],
+      ['google-chat', 'chat.googleapis.com.evil.io', false],
+      ['slack', 'hooks.slack.com', true],
+      ['slack', 'slack.com', false],
+      ['teams', 'acme.webhook.office.com', true],
+      ['teams', 'prod-12.westus.logic.azure.com', true],
+      ['teams', 'webhook.office.com.evil.io', false],
+      ['discord', 'discord.com', true],
+      ['discord', 'discordapp.com', true],
+      ['discord', 'evil-discord.com', false],
+    ] as const)('%s should accept host %s: %s', (platform, host, expected) => {
+      expect(isPlatformHost(platform, host)).toBe(expected);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { CircuitBreaker } from '../../src/circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should reject invalid thresholds', () => {
+    expect(() => new CircuitBreaker({ failureThreshold: 0 })).toThrow(
+      'Circuit breaker thresholds must be at least 1',
+    );
+    expect(() => new CircuitBreaker({ resetTimeoutMs: -1 })).toThrow(
+      'Circuit breaker reset timeout cannot be negative',
+    );
+  });
+
+  it('should open after consecutive failures only', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    breaker.recordFailure('errors');
+    breaker.recordSuccess('errors');
+    breaker.recordFailure('errors');
+    expect(breaker.getState('errors')).toBe('closed');
+
+    breaker.recordFailure('errors');
+    expect(breaker.getState('errors')).toBe('open');
+    expect(breaker.allow('errors')).toBe(false);
+    expect(breaker.allow('reports')).toBe(true);
+  });
+
+  it('should let one trial through after the reset timeout', () => {
+    const changes: string[] = [];
+    const breaker = new CircuitBreaker(
+      { failureThreshold: 1, resetTimeoutMs: 1000, successThreshold: 2 },
+      (key, state, previousState) => changes.push(`${key}: ${previousState} -> ${state}`),
+    );
+
+    breaker.recordFailure('errors');
+    jest.advanceTimersByTime(400);
+    expect(breaker.retryAfterMs('errors')).toBe(600);
+
+    jest.advanceTimersByTime(600);
+    expect(breaker.getState('errors')).toBe('half-open');
+    expect(breaker.allow('errors')).toBe(true);
+    expect(breaker.allow('errors')).toBe(false);
+
+    breaker.recordSuccess('errors');
+    expect(breaker.allow('errors')).toBe(true);
+    breaker.recordSuccess('errors');
+
+    expect(breaker.getState('errors')).toBe('closed');
+    expect(changes).toEqual([
+      'errors: closed -> open',
+      'errors: open -> half-open',
+      'errors: half-open -> closed',
+    ]);
+  });
+
+  it('should reopen when the trial fails', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 1000 });
+    [1, 2, 3].forEach(() => breaker.recordFailure('errors'));
+
+    jest.advanceTimersByTime(1000);
+    expect(breaker.allow('errors')).toBe(true);
+    breaker.recordFailure('errors');
+
+    expect(breaker.getState('errors')).toBe('open');
+    expect(breaker.retryAfterMs('errors')).toBe(1000);
+  });
+
+  it('should free the trial slot without closing or reopening', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+    breaker.recordFailure('errors');
+
+    jest.advanceTimersByTime(1000);
+    expect(breaker.allow('errors')).toBe(true);
+    breaker.releaseTrial('errors');
+
+    expect(breaker.getState('errors')).toBe('half-open');
+    expect(breaker.allow('errors')).toBe(true);
+    expect(breaker.allow('errors')).toBe(false);
+  });
+});
@@ -0,0 +1,370 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadConfigFile, mergeConfigFileOptions } from '../../src/config-file';
+import { ConfigFileError } from '../../src/errors';
+import { NotifierImpl } from '../../src/notifier';
+import { TombamentoSchema } from '../../src/schemas/tombamento-schema';
+import { RecordingTransport } from '../../src/transports/recording-transport';
+
+// Default transport is never used: the notifier here gets a RecordingTransport
+jest.mock('node-fetch', () => jest.fn());
+
+describe('loadConfigFile', () => {
+  const DEFAULT_URL = 'https://chat.googleapis.com/v1/spaces/DEFAULT/messages?key=KEY';
+  const ERRORS_URL = 'https://chat.googleapis.com/v1/spaces/ERRORS/messages?key=KEY2';
+
+  const yaml = [
+    'webhooks:',
+    '  default: ${DEFAULT_URL}',
+    '  errors:',
+    '    url: ${ERRORS_URL}',
+    '    token: ${ERRORS_TOKEN}',
+    '  alerts: { url: "https://hooks.slack.com/services/T/B/X", platform: slack }',
+    'level: important',
+    'retry:',
+    '  max: 5',
+    '  baseMs: 100',
+    'batch:',
+    '  enabled: false',
+    '  size: ${BATCH_SIZE:-20}',
+    'idempotency:',
+    '  ttlMs: 3600000',
+    'profiles:',
+    '  dev:',
+    '    level: all',
+    '    batch: { enabled: true }',
+    '  prod:',
+    '    webhooks:',
+    '      errors: { url: "${ERRORS_URL}", token: "${PROD_TOKEN}" }',
+    '    retry: { max: 8 }',
+  ].join('\n');
+
+  const env = {
+    DEFAULT_URL,
+    ERRORS_URL,
+    ERRORS_TOKEN: 'dev-token',
+  };
+
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'chat-notifier-config-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function write(name: string, content: string): Promise<string> {
+    const path = join(dir, name);
+    await fs.writeFile(path, content);
+    return path;
+  }
+
+  function expectConfigError(action: () => unknown): ConfigFileError {
+    let error: unknown;
+    try {
+      action();
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(ConfigFileError);
+    return error as ConfigFileError;
+  }
+
+  it('should read webhooks and settings with interpolation', async () => {
+    const path = await write('.chatnotifierrc.yaml', yaml);
+
+    expect(loadConfigFile({ path, env })).toEqual({
+      webhookUrl: DEFAULT_URL,
+      webhooks: {
+        errors: { url: ERRORS_URL, token: 'dev-token' },
+        alerts: { url: 'https://hooks.slack.com/services/T/B/X', platform: 'slack' },
+      },
+      level: 'important',
+      retryMax: 5,
+      retryBaseMs: 100,
+      batchEnabled: false,
+      batchSize: 20,
+      idempotencyTtlMs: 3600000,
+    });
+  });
+
+  it('should apply the profile selected by NODE_ENV', async () => {
+    const path = await write('.chatnotifierrc.yaml', yaml);
+
+    expect(
+      loadConfigFile({ path, env: { ...env, NODE_ENV: 'dev', BATCH_SIZE: '50' } }),
+    ).toMatchObject({
+      level: 'all',
+      batchEnabled: true,
+      batchSize: 50,
+      retryMax: 5,
+    });
+    // NODE_ENV without a matching profile keeps the base settings
+    expect(loadConfigFile({ path, env: { ...env, NODE_ENV: 'test' } }).level).toBe('important');
+  });
+
+  it('should merge webhooks of an explicit profile', async () => {
+    const path = await write('.chatnotifierrc.yaml', yaml);
+
+    const options = loadConfigFile({
+      path,
+      profile: 'prod',
+      env: { ...env, NODE_ENV: 'dev', PROD_TOKEN: 'prod-token' },
+    });
+
+    expect(options.retryMax).toBe(8);
+    expect(options.level).toBe('important');
+    expect(options.webhooks).toEqual({
+      errors: { url: ERRORS_URL, token: 'prod-token' },
+      alerts: { url: 'https://hooks.slack.com/services/T/B/X', platform: 'slack' },
+    });
+  });
+
+  it('should reject unknown explicit profiles', async () => {
+    const path = await write('.chatnotifierrc.yaml', yaml);
+
+    expect(expectConfigError(() => loadConfigFile({ path, profile: 'qa', env })).issues).toEqual([
+      { path: 'profiles', message: "has no profile 'qa' (available: dev, prod)" },
+    ]);
+  });
+
+  it('should report every problem with its path', async () => {
+    const path = await write(
+      'config.json',
+      JSON.stringify({
+        webhooks: { errors: { token: 'x', channel: 'ops' }, alerts: { url: 'u', platform: 'irc' } },
+        level: 'verbose',
+        retries: 3,
+        batch: { size: 0, aggregation: 'cards', walPath: '${WAL_PATH}' },
+        profiles: {
+          prod: { batch: { intervalMs: 'soon', size: '${PROD_BATCH_SIZE}' } },
+        },
+      }),
+    );
+
+    const error = expectConfigError(() => loadConfigFile({ path, env: {} }));
+
+    expect(error.issues).toEqual([
+      { path: 'batch.walPath', message: "references undefined environment variable 'WAL_PATH'" },
+      { path: 'webhooks.errors.channel', message: 'is not a known setting' },
+      { path: 'webhooks.errors.url', message: 'is required' },
+      {
+        path: 'webhooks.alerts.platform',
+        message: 'must be one of: google-chat, slack, teams, discord',
+      },
+      { path: 'level', message: 'must be one of: all, important' },
+      { path: 'retries', message: 'is not a known setting' },
+      { path: 'batch.size', message: 'must be an integer greater than 0' },
+      { path: 'batch.walPath', message: 'must be a non-empty string' },
+      // ${VAR} in other profiles is only resolved when the profile is selected
+      { path: 'profiles.prod.batch.intervalMs', message: 'must be an integer greater than 0' },
+    ]);
+    expect(error.message).toContain(`Invalid config in ${path}: batch.walPath references`);
+  });
+
+  it('should read fallbacks naming another webhook or a URL', async () => {
+    const lines = [
+      'webhooks:',
+      '  errors: { url: "${ERRORS_URL}", fallback: general }',
+      '  general: ${DEFAULT_URL}',
+      '  reports: { url: "${DEFAULT_URL}", fallback: "${ERRORS_URL}" }',
+      'profiles:',
+      '  prod:',
+      '    webhooks:',
+      '      oncall: { url: "${ERRORS_URL}", fallback: General }',
+    ];
+    const invalid = [
+      '  qa:',
+      '    webhooks:',
+      '      oncall: { url: "${ERRORS_URL}", fallback: oncall }',
+      '      audit: { url: "${ERRORS_URL}", fallback: archive }',
+      '      backup: { url: "${ERRORS_URL}", fallback: 3 }',
+    ];
+
+    const path = await write('.chatnotifierrc.yaml', lines.join('\n'));
+    expect(loadConfigFile({ path, profile: 'prod', env }).webhooks).toEqual({
+      errors: { url: ERRORS_URL, fallback: 'general' },
+      general: DEFAULT_URL,
+      reports: { url: DEFAULT_URL, fallback: ERRORS_URL },
+      oncall: { url: ERRORS_URL, fallback: 'General' },
+    });
+
+    await write('.chatnotifierrc.yaml', [...lines, ...invalid].join('\n'));
+    expect(expectConfigError(() => loadConfigFile({ path, env })).issues).toEqual([
+      { path: 'profiles.qa.webhooks.backup.fallback', message: 'must be a webhook name or URL' },
+      { path: 'profiles.qa.webhooks.oncall.fallback', message: 'must name another webhook' },
+      {
+        path: 'profiles.qa.webhooks.audit.fallback',
+        message: "references undefined webhook 'archive'",
+      },
+    ]);
+  });
+
+  it('should read webhook groups and aliases', async () => {
+    const lines = [
+      'webhooks:',
+      '  errors: ${ERRORS_URL}',
+      '  general: { url: "${DEFAULT_URL}", fallback: alerts }',
+      'groups:',
+      '  ops: [alerts, general]',
+      'aliases:',
+      '  alerts: errors',
+      'profiles:',
+      '  prod:',
+      '    webhooks:',
+      '      oncall: ${ERRORS_URL}',
+      '    groups: { ops: [errors, oncall], everyone: [ops, general] }',
+    ];
+    const invalid = [
+      '  qa:',
+      '    groups: { errors: [general], loop: [loop], empty: [], team: [ops, audit] }',
+      '    aliases: { pager: pager, sms: 3 }',
+    ];
+
+    const path = await write('.chatnotifierrc.yaml', lines.join('\n'));
+    expect(loadConfigFile({ path, profile: 'prod', env })).toMatchObject({
+      webhookGroups: { ops: ['errors', 'oncall'], everyone: ['ops', 'general'] },
+      webhookAliases: { alerts: 'errors' },
+    });
+
+    await write('.chatnotifierrc.yaml', [...lines, ...invalid].join('\n'));
+    expect(expectConfigError(() => loadConfigFile({ path, env })).issues).toEqual([
+      { path: 'profiles.qa.groups.empty', message: 'must be a non-empty list of webhook names' },
+      { path: 'profiles.qa.aliases.sms', message: 'must be a webhook or group name' },
+      { path: 'profiles.qa.groups.errors', message: 'cannot reuse the name of a webhook' },
+      { path: 'profiles.qa.groups.loop[0]', message: 'cannot contain itself' },
+      {
+        path: 'profiles.qa.groups.team[1]',
+        message: "references undefined webhook 'audit'",
+      },
+      { path: 'profiles.qa.aliases.pager', message: 'cannot point to itself' },
+    ]);
+  });
+
+  it('should read allowed hosts checked with the notifier host matcher', async () => {
+    const path = await write(
+      'config.json',
+      JSON.stringify({
+        allowedHosts: ['Chat-Relay.corp.example', '.hooks.internal'],
+        profiles: { ci: { allowedHosts: '${CI_HOSTS}' } },
+      }),
+    );
+    const invalidPath = await write(
+      'invalid.json',
+      JSON.stringify({
+        allowedHosts: [3],
+        profiles: {
+          qa: { allowedHosts: ['https://relay.qa', 'relay.qa:8443', '*.qa', 'relay.qa/hooks'] },
+        },
+      }),
+    );
+
+    expect(loadConfigFile({ path, env: {} }).allowedHosts).toEqual([
+      'Chat-Relay.corp.example',
+      '.hooks.internal',
+    ]);
+    expect(
+      loadConfigFile({ path, profile: 'ci', env: { CI_HOSTS: 'relay.ci, .ci.internal' } }),
+    ).toEqual({ allowedHosts: ['relay.ci', '.ci.internal'] });
+    const error = expectConfigError(() => loadConfigFile({ path: invalidPath, env: {} }));
+    expect(error.issues).toEqual([
+      { path: 'allowedHosts', message: 'must be a list of hostnames' },
+      {
+        path: 'profiles.qa.allowedHosts',
+        message:
+          "has invalid hosts ('https://relay.qa', 'relay.qa:8443', '*.qa', 'relay.qa/hooks'); " +
+          "use hostnames or suffixes starting with a dot (e.g. '.hooks.internal')",
+      },
+    ]);
+  });
+
+  it('should report syntax errors with their line', async () => {
+    const path = await write('.chatnotifierrc.yml', 'level: all\nlevel: important\n');
+
+    expect(expectConfigError(() => loadConfigFile({ path, env })).issues).toEqual([
+      { path: 'line 2', message: "duplicate key 'level'" },
+    ]);
+  });
+
+  it('should discover the file in the working directory', async () => {
+    await write('.chatnotifierrc', JSON.stringify({ level: 'important' }));
+
+    expect(loadConfigFile({ cwd: dir, env: {} })).toEqual({ level: 'important' });
+    expect(loadConfigFile({ cwd: join(dir, 'missing'), env: {} })).toEqual({});
+    expect(
+      expectConfigError(() => loadConfigFile({ path: join(dir, 'nope.yaml'), env: {} })).issues,
+    ).toEqual([{ path: 'file', message: 'was not found' }]);
+  });
+
+  describe('with the notifier', () => {
+    const originalEnv = process.env;
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it('should give explicit options precedence over the file', async () => {
+      const path = await write('.chatnotifierrc.yaml', yaml);
+      process.env = { ...originalEnv, ...env };
+      delete process.env.CHAT_WEBHOOK_URL;
+
+      const transport = new RecordingTransport();
+      const notifier = new NotifierImpl(new TombamentoSchema(), {
+        transport,
+        configFile: path,
+        level: 'all',
+        retryBaseMs: 1,
+        webhooks: { reports: 'https://chat.googleapis.com/v1/spaces/REPORTS/messages' },
+      });
+
+      try {
+        const payload = { event: 'PROCESSING' as const, partner: 'ACME', bucket: 'b', object: 'o' };
+        // File says 'important' (PROCESSING filtered); the explicit option wins
+        expect((await notifier.notify(payload)).status).toBe('sent');
+        await notifier.notify({ ...payload, event: 'FAILED' }, 'errors');
+        await notifier.notify({ ...payload, event: 'UPLOADED' }, 'reports');
+
+        const urls = transport.requests.map(
+          (request) => request.url.split(/[?&]messageReplyOption=/)[0],
+        );
+        expect(urls).toEqual([
+          DEFAULT_URL,
+          `${ERRORS_URL}&token=dev-token`,
+          'https://chat.googleapis.com/v1/spaces/REPORTS/messages',
+        ]);
+      } finally {
+        await notifier.destroy();
+      }
+    });
+  });
+
+  describe('mergeConfigFileOptions', () => {
+    it('should keep file values hidden only by defined options', () => {
+      expect(
+        mergeConfigFileOptions(
+          {
+            level: 'important',
+            retryMax: 5,
+            webhooks: { errors: ERRORS_URL },
+            webhookGroups: { ops: ['errors'] },
+          },
+          {
+            level: undefined,
+            retryMax: 2,
+            webhooks: { reports: DEFAULT_URL },
+            webhookAliases: { alerts: 'errors' },
+          },
+        ),
+      ).toEqual({
+        level: 'important',
+        retryMax: 2,
+        webhooks: { errors: ERRORS_URL, reports: DEFAULT_URL },
+        webhookGroups: { ops: ['errors'] },
+        webhookAliases: { alerts: 'errors' },
+      });
+    });
+  });
+});
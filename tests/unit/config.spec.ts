@@ -1,4 +1,5 @@
 import { ConfigManager } from '../../src/config';
+import { WebhookNotFoundError } from '../../src/errors';
 
 describe('ConfigManager', () => {
   const VALID_WEBHOOK_URL =
@@ -19,6 +20,9 @@ describe('ConfigManager', () => {
     delete process.env.CHAT_WEBHOOK_ERRORS_TOKEN;
     delete process.env.CHAT_WEBHOOK_REPORTS;
     delete process.env.CHAT_WEBHOOK_REPORTS_TOKEN;
+    delete process.env.CHAT_WEBHOOK_PLATFORM;
+    delete process.env.CHAT_WEBHOOK_OPS;
+    delete process.env.CHAT_WEBHOOK_OPS_PLATFORM;
   });
 
   afterAll(() => {
@@ -171,6 +175,56 @@ describe('ConfigManager', () => {
       const config = new ConfigManager(VALID_WEBHOOK_URL);
       expect(config.getWebhook()).toBe(VALID_WEBHOOK_URL);
     });
+
+    it('should check the parsed hostname, not a substring', () => {
+      expect(() => new ConfigManager('https://evil.com/?x=chat.googleapis.com')).toThrow(
+        'Invalid Google Chat webhook URL',
+      );
+      expect(() => new ConfigManager('https://chat.googleapis.com@evil.com/v1/spaces/X')).toThrow(
+        'Invalid Google Chat webhook URL',
+      );
+      expect(() => new ConfigManager('chat.googleapis.com/v1/spaces/X')).toThrow(
+        'Invalid webhook URL',
+      );
+    });
+
+    it('should accept hosts from the allow-list', () => {
+      const config = new ConfigManager(
+        {
+          relay: 'https://chat-relay.corp.example/v1/spaces/X/messages',
+          ops: { url: 'https://ops.hooks.internal/slack', platform: 'slack' },
+        },
+        { allowedHosts: ['Chat-Relay.corp.example', '.hooks.internal'] },
+      );
+
+      expect(config.getWebhookNames()).toEqual(['relay', 'ops']);
+      expect(
+        () => new ConfigManager('https://hooks.evil.io/x', { allowedHosts: ['.hooks.internal'] }),
+      ).toThrow('Invalid Google Chat webhook URL');
+    });
+
+    it('should accept local endpoints only when allowLocalhost is set', () => {
+      const mock = 'http://localhost:8080/v1/spaces/X/messages?key=KEY';
+
+      expect(() => new ConfigManager(mock)).toThrow('Webhook URL must use HTTPS protocol');
+      expect(new ConfigManager(mock, { allowLocalhost: true }).getWebhook()).toBe(mock);
+      expect(
+        new ConfigManager('http://127.0.0.1:9000/hook', { allowLocalhost: true }).getWebhook(),
+      ).toBe('http://127.0.0.1:9000/hook');
+      expect(
+        () => new ConfigManager('http://chat.googleapis.com/v1/x', { allowLocalhost: true }),
+      ).toThrow('Webhook URL must use HTTPS protocol');
+    });
+
+    it('should mask tokens in validation errors', () => {
+      process.env.CHAT_WEBHOOK_URL = 'https://example.com/v1/spaces/X/messages?key=KEY';
+      process.env.CHAT_WEBHOOK_TOKEN = 'SECRET_TOKEN';
+
+      expect(() => new ConfigManager()).toThrow(
+        'Invalid Google Chat webhook URL: ' +
+          'https://example.com/v1/spaces/X/messages?key=***&token=***',
+      );
+    });
   });
 
   describe('getWebhook', () => {
@@ -250,4 +304,365 @@ describe('ConfigManager', () => {
       expect(config.hasWebhook('Errors')).toBe(true);
     });
   });
+
+  describe('platforms', () => {
+    const TEAMS_URL = 'https://acme.webhook.office.com/webhookb2/abc/IncomingWebhook/def';
+    const SLACK_URL = 'https://hooks.slack.com/services/T000/B000/XXXX';
+
+    it('should default to google-chat', () => {
+      const config = new ConfigManager({ errors: VALID_WEBHOOK_URL });
+
+      expect(config.getPlatform()).toBe('google-chat');
+      expect(config.getPlatform('errors')).toBe('google-chat');
+    });
+
+    it('should read platform from CHAT_WEBHOOK_<NAME>_PLATFORM', () => {
+      process.env.CHAT_WEBHOOK_URL = VALID_WEBHOOK_URL;
+      process.env.CHAT_WEBHOOK_OPS = TEAMS_URL;
+      process.env.CHAT_WEBHOOK_OPS_PLATFORM = 'Teams';
+
+      const config = new ConfigManager();
+
+      expect(config.getWebhook('ops')).toBe(TEAMS_URL);
+      expect(config.getPlatform('ops')).toBe('teams');
+      expect(config.getWebhookNames()).toEqual(['ops']);
+    });
+
+    it('should read default webhook platform from CHAT_WEBHOOK_PLATFORM', () => {
+      process.env.CHAT_WEBHOOK_URL = SLACK_URL;
+      process.env.CHAT_WEBHOOK_PLATFORM = 'slack';
+
+      const config = new ConfigManager();
+
+      expect(config.getPlatform()).toBe('slack');
+      expect(config.getPlatform('unknown')).toBe('slack');
+    });
+
+    it('should accept webhook definitions with platform', () => {
+      const config = new ConfigManager({
+        errors: VALID_WEBHOOK_URL,
+        ops: { url: TEAMS_URL, platform: 'teams' },
+      });
+
+      expect(config.getPlatform('errors')).toBe('google-chat');
+      expect(config.getPlatform('ops')).toBe('teams');
+    });
+
+    it('should apply env platform to webhooks given as options', () => {
+      process.env.CHAT_WEBHOOK_OPS_PLATFORM = 'slack';
+
+      const config = new ConfigManager({ ops: SLACK_URL });
+
+      expect(config.getPlatform('ops')).toBe('slack');
+    });
+
+    it('should validate hostname against the platform', () => {
+      expect(() => new ConfigManager({ ops: { url: VALID_WEBHOOK_URL, platform: 'teams' } })).toThrow(
+        'Invalid Microsoft Teams webhook URL',
+      );
+      expect(() => new ConfigManager({ ops: { url: TEAMS_URL, platform: 'discord' } })).toThrow(
+        'Invalid Discord webhook URL',
+      );
+      expect(() => new ConfigManager({ ops: TEAMS_URL })).toThrow('Invalid Google Chat webhook URL');
+      expect(
+        () => new ConfigManager('https://chat.googleapis.com.evil.io/v1/spaces/X/messages'),
+      ).toThrow('Invalid Google Chat webhook URL');
+    });
+
+    it('should reject unknown platforms', () => {
+      process.env.CHAT_WEBHOOK_OPS = TEAMS_URL;
+      process.env.CHAT_WEBHOOK_OPS_PLATFORM = 'mattermost';
+
+      expect(() => new ConfigManager()).toThrow(
+        "Invalid platform 'mattermost' in CHAT_WEBHOOK_OPS_PLATFORM",
+      );
+    });
+  });
+
+  describe('env isolation', () => {
+    it('should read webhooks with a custom prefix', () => {
+      process.env.CHAT_WEBHOOK_URL = VALID_WEBHOOK_URL;
+      process.env.BILLING_WEBHOOK_URL = VALID_WEBHOOK_URL_2;
+      process.env.BILLING_WEBHOOK_TOKEN = 'TOKEN';
+      process.env.BILLING_WEBHOOK_ALERTS = VALID_WEBHOOK_URL;
+
+      const config = new ConfigManager(undefined, { envPrefix: 'BILLING' });
+
+      expect(config.getWebhook()).toBe(`${VALID_WEBHOOK_URL_2}&token=TOKEN`);
+      expect(config.getWebhookNames()).toEqual(['alerts']);
+      delete process.env.BILLING_WEBHOOK_URL;
+      delete process.env.BILLING_WEBHOOK_TOKEN;
+      delete process.env.BILLING_WEBHOOK_ALERTS;
+    });
+
+    it('should read only the injected env', () => {
+      process.env.CHAT_WEBHOOK_ERRORS = VALID_WEBHOOK_URL;
+
+      const config = new ConfigManager(undefined, {
+        env: { CHAT_WEBHOOK_URL: VALID_WEBHOOK_URL_2, CHAT_WEBHOOK_REPORTS: VALID_WEBHOOK_URL },
+      });
+
+      expect(config.getWebhook()).toBe(VALID_WEBHOOK_URL_2);
+      expect(config.getWebhookNames()).toEqual(['reports']);
+    });
+
+    it('should ignore the environment with env: false', () => {
+      process.env.CHAT_WEBHOOK_URL = VALID_WEBHOOK_URL;
+      process.env.CHAT_WEBHOOK_ERRORS = VALID_WEBHOOK_URL;
+
+      expect(() => new ConfigManager(undefined, { env: false })).toThrow('No webhook configured');
+      expect(
+        new ConfigManager({ reports: VALID_WEBHOOK_URL_2 }, { env: false }).getWebhookNames(),
+      ).toEqual(['reports']);
+    });
+
+    it('should tell tokens apart from webhooks named like attributes', () => {
+      const config = new ConfigManager(undefined, {
+        env: {
+          CHAT_WEBHOOK_ERRORS: VALID_WEBHOOK_URL,
+          CHAT_WEBHOOK_ERRORS_TOKEN: 'secret',
+          CHAT_WEBHOOK_API_TOKEN: VALID_WEBHOOK_URL_2,
+          CHAT_WEBHOOK_API_TOKEN_TOKEN: 'api-secret',
+          // Token of a webhook configured in code: not a webhook itself
+          CHAT_WEBHOOK_REPORTS_TOKEN: 'orphan',
+        },
+      });
+
+      expect(config.getWebhookNames().sort()).toEqual(['api_token', 'errors']);
+      expect(config.getWebhook('errors')).toBe(`${VALID_WEBHOOK_URL}&token=secret`);
+      expect(config.getWebhook('api_token')).toBe(`${VALID_WEBHOOK_URL_2}&token=api-secret`);
+    });
+  });
+
+  describe('groups and aliases', () => {
+    const VALID_WEBHOOK_URL_3 =
+      'https://chat.googleapis.com/v1/spaces/ONCALL/messages?key=KEY3';
+    const webhooks = { errors: VALID_WEBHOOK_URL, oncall: VALID_WEBHOOK_URL_3 };
+
+    it('should resolve groups to every member and aliases to their target', () => {
+      const config = new ConfigManager(webhooks, {
+        groups: { Ops: ['errors', 'OnCall'], everyone: ['ops', 'pager'] },
+        aliases: { alerts: 'errors', pager: 'oncall' },
+      });
+
+      expect(config.resolveWebhookNames('ops')).toEqual(['errors', 'oncall']);
+      expect(config.resolveWebhookNames('everyone')).toEqual(['errors', 'oncall']);
+      expect(config.resolveWebhookNames('alerts')).toEqual(['errors']);
+      expect(config.resolveWebhookNames('Errors')).toEqual(['Errors']);
+      expect(config.getWebhook('ALERTS')).toBe(VALID_WEBHOOK_URL);
+      expect(config.getWebhooks('ops')).toEqual([VALID_WEBHOOK_URL, VALID_WEBHOOK_URL_3]);
+      expect(() => config.getWebhook('ops')).toThrow("Webhook group 'ops' has several members");
+    });
+
+    it('should report groups and members', () => {
+      const config = new ConfigManager(webhooks, {
+        groups: { ops: ['alerts', 'oncall'] },
+        aliases: { alerts: 'errors' },
+      });
+
+      expect(config.getWebhookNames()).toEqual(['errors', 'oncall', 'alerts', 'ops']);
+      expect(config.getWebhookGroups()).toEqual({
+        alerts: ['errors'],
+        ops: ['errors', 'oncall'],
+      });
+      expect(config.hasWebhook('OPS')).toBe(true);
+    });
+
+    it('should read groups and aliases from env', () => {
+      const config = new ConfigManager(webhooks, {
+        env: {
+          CHAT_WEBHOOK_GROUP_OPS: 'errors, oncall,',
+          CHAT_WEBHOOK_ALIAS_ALERTS: 'errors',
+          // URLs are still webhooks
+          CHAT_WEBHOOK_GROUP_CHAT: VALID_WEBHOOK_URL_2,
+        },
+      });
+
+      expect(config.getWebhookGroups()).toEqual({
+        alerts: ['errors'],
+        ops: ['errors', 'oncall'],
+      });
+      expect(config.getWebhook('group_chat')).toBe(VALID_WEBHOOK_URL_2);
+    });
+
+    it('should reject unknown members, name conflicts and cycles', () => {
+      expect(() => new ConfigManager(webhooks, { groups: { ops: ['errors', 'pager'] } })).toThrow(
+        "Webhook 'pager' referenced by webhook group 'ops' but not configured",
+      );
+      expect(() => new ConfigManager(webhooks, { aliases: { errors: 'oncall' } })).toThrow(
+        "Webhook alias 'errors' conflicts with a webhook of the same name",
+      );
+      expect(() => new ConfigManager(webhooks, { groups: { ops: [] } })).toThrow(
+        "Webhook group 'ops' has no members",
+      );
+      expect(
+        () => new ConfigManager(webhooks, { groups: { a: ['errors', 'b'], b: ['a'] } }),
+      ).toThrow('Webhook group cycle: a -> b -> a');
+    });
+  });
+
+  describe('fallbacks', () => {
+    it('should resolve fallbacks by name, alias or URL', () => {
+      const config = new ConfigManager(
+        {
+          errors: { url: VALID_WEBHOOK_URL, fallback: 'Backup' },
+          reports: { url: VALID_WEBHOOK_URL, fallback: VALID_WEBHOOK_URL_2 },
+          general: VALID_WEBHOOK_URL_2,
+        },
+        { aliases: { backup: 'general' }, env: false },
+      );
+
+      expect(config.getFallback('errors')).toBe('general');
+      expect(config.getFallback('reports')).toBe('reports-fallback');
+      expect(config.getWebhook('reports-fallback')).toBe(VALID_WEBHOOK_URL_2);
+      expect(config.getFallback('general')).toBeUndefined();
+      expect(config.hasFallbacks()).toBe(true);
+    });
+
+    it('should read CHAT_WEBHOOK_FALLBACK and CHAT_WEBHOOK_<NAME>_FALLBACK', () => {
+      const config = new ConfigManager(undefined, {
+        env: {
+          CHAT_WEBHOOK_URL: VALID_WEBHOOK_URL,
+          CHAT_WEBHOOK_FALLBACK: VALID_WEBHOOK_URL_2,
+          CHAT_WEBHOOK_ERRORS: VALID_WEBHOOK_URL,
+          CHAT_WEBHOOK_ERRORS_FALLBACK: 'general',
+          CHAT_WEBHOOK_GENERAL: VALID_WEBHOOK_URL_2,
+        },
+      });
+
+      expect(config.getWebhookNames().sort()).toEqual(['errors', 'fallback', 'general']);
+      expect(config.getFallback()).toBe('fallback');
+      expect(config.getFallback('unknown')).toBe('fallback');
+      expect(config.getFallback('errors')).toBe('general');
+    });
+
+    it('should reject unknown, grouped and self fallbacks', () => {
+      const webhooks = { errors: VALID_WEBHOOK_URL, general: VALID_WEBHOOK_URL_2 };
+      const withFallback = (fallback: string) => ({
+        ...webhooks,
+        errors: { url: VALID_WEBHOOK_URL, fallback },
+      });
+
+      expect(() => new ConfigManager(withFallback('backup'))).toThrow(
+        "Webhook 'backup' referenced as fallback of 'errors' but not configured",
+      );
+      expect(() => new ConfigManager(withFallback('errors'))).toThrow(
+        "Fallback of 'errors' must be another single webhook, got 'errors'",
+      );
+      expect(
+        () => new ConfigManager(withFallback('all'), { groups: { all: ['errors', 'general'] } }),
+      ).toThrow("Fallback of 'errors' must be another single webhook, got 'all'");
+    });
+  });
+
+  describe('webhook definitions', () => {
+    it('should append separate tokens to the URL', () => {
+      const config = new ConfigManager({
+        errors: { url: VALID_WEBHOOK_URL, token: 'TOKEN' },
+        reports: { url: `${VALID_WEBHOOK_URL_2}&token=INLINE`, token: 'IGNORED' },
+      });
+
+      expect(config.getWebhook('errors')).toBe(`${VALID_WEBHOOK_URL}&token=TOKEN`);
+      expect(config.getWebhook('reports')).toBe(`${VALID_WEBHOOK_URL_2}&token=INLINE`);
+    });
+
+    it('should override the env default webhook with defaultWebhook', () => {
+      process.env.CHAT_WEBHOOK_URL = VALID_WEBHOOK_URL;
+
+      const config = new ConfigManager(undefined, {
+        defaultWebhook: { url: VALID_WEBHOOK_URL_2, token: 'TOKEN' },
+      });
+
+      expect(config.getWebhook()).toBe(`${VALID_WEBHOOK_URL_2}&token=TOKEN`);
+    });
+  });
+
+  describe('webhook resolution', () => {
+    it('should throw WebhookNotFoundError listing known names in strict mode', () => {
+      const config = new ConfigManager(
+        { errors: VALID_WEBHOOK_URL, reports: VALID_WEBHOOK_URL_2 },
+        { resolution: 'strict' },
+      );
+      process.env.CHAT_WEBHOOK_URL = VALID_WEBHOOK_URL;
+
+      let error: unknown;
+      try {
+        config.getWebhook('erros');
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(WebhookNotFoundError);
+      expect(error).toMatchObject({
+        webhookNames: ['erros'],
+        knownWebhooks: ['errors', 'reports'],
+      });
+      expect((error as Error).message).toBe(
+        "Webhook 'erros' not found. Known webhooks: errors, reports",
+      );
+      expect(() => config.getPlatform('erros')).toThrow(WebhookNotFoundError);
+    });
+
+    it('should not fall back to the default webhook in strict mode', () => {
+      process.env.CHAT_WEBHOOK_URL = VALID_WEBHOOK_URL;
+      const config = new ConfigManager({ errors: VALID_WEBHOOK_URL_2 }, { resolution: 'strict' });
+
+      expect(config.getWebhook()).toBe(VALID_WEBHOOK_URL);
+      expect(config.getWebhook('Errors')).toBe(VALID_WEBHOOK_URL_2);
+      expect(() => config.getWebhook('reports')).toThrow(WebhookNotFoundError);
+    });
+
+    it('should fall back and warn once per name in warn mode', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      process.env.CHAT_WEBHOOK_URL = VALID_WEBHOOK_URL;
+      const config = new ConfigManager({ errors: VALID_WEBHOOK_URL_2 }, { resolution: 'warn' });
+
+      expect(config.getWebhook('erros')).toBe(VALID_WEBHOOK_URL);
+      expect(config.getWebhook('erros')).toBe(VALID_WEBHOOK_URL);
+
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn).toHaveBeenCalledWith("Webhook 'erros' not found, using the default webhook");
+      warn.mockRestore();
+    });
+
+    it('should accept names of webhooks given with uppercase letters', () => {
+      const config = new ConfigManager(
+        { 'Partner-ACME': VALID_WEBHOOK_URL },
+        { resolution: 'strict' },
+      );
+
+      expect(config.getWebhook('partner-acme')).toBe(VALID_WEBHOOK_URL);
+      expect(config.getWebhookNames()).toEqual(['partner-acme']);
+    });
+
+    describe('validateWebhookNames', () => {
+      it('should throw for every unknown name in strict mode', () => {
+        const config = new ConfigManager({ errors: VALID_WEBHOOK_URL }, { resolution: 'strict' });
+
+        expect(() =>
+          config.validateWebhookNames(['errors', 'alerts', 'reports', 'alerts']),
+        ).toThrow(
+          "Webhooks 'alerts', 'reports' not configured " +
+            '(declared by the schema or routing rules). Known webhooks: errors',
+        );
+      });
+
+      it('should warn in warn mode and ignore in fallback mode', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        process.env.CHAT_WEBHOOK_URL = VALID_WEBHOOK_URL;
+
+        new ConfigManager({ errors: VALID_WEBHOOK_URL }).validateWebhookNames(['alerts']);
+        expect(warn).not.toHaveBeenCalled();
+
+        const config = new ConfigManager({ errors: VALID_WEBHOOK_URL }, { resolution: 'warn' });
+        config.validateWebhookNames(['alerts']);
+        config.getWebhook('alerts');
+
+        // Already reported at startup: not repeated on send
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0][0]).toContain("Webhook 'alerts' not configured");
+        warn.mockRestore();
+      });
+    });
+  });
 });
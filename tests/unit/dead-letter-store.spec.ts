@@ -0,0 +1,109 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryDeadLetterStore, JsonlDeadLetterStore } from '../../src/dead-letter';
+import type { DeadLetterEntry } from '../../src/dead-letter';
+
+function entry(id: string, overrides: Partial<DeadLetterEntry<{ n: number }>> = {}) {
+  return {
+    id,
+    payload: { n: Number(id.replace(/\D/g, '')) || 0 },
+    card: { cardsV2: [{ cardId: 'c', card: { sections: [] } }] },
+    error: { name: 'HttpError', message: 'HTTP 500', status: 500 },
+    attempts: 3,
+    failedAt: new Date(0).toISOString(),
+    ...overrides,
+  };
+}
+
+describe('MemoryDeadLetterStore', () => {
+  it('should put, list and remove entries', async () => {
+    const store = new MemoryDeadLetterStore<{ n: number }>();
+
+    await store.put(entry('e1'));
+    await store.put(entry('e2'));
+    await store.remove('e1');
+
+    expect((await store.list()).map((e) => e.id)).toEqual(['e2']);
+    expect(store.size).toBe(1);
+  });
+
+  it('should replace entry with same id', async () => {
+    const store = new MemoryDeadLetterStore<{ n: number }>();
+
+    await store.put(entry('e1'));
+    await store.put(entry('e1', { attempts: 6 }));
+
+    expect(await store.list()).toEqual([expect.objectContaining({ id: 'e1', attempts: 6 })]);
+  });
+});
+
+describe('JsonlDeadLetterStore', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'chat-notifier-dlq-'));
+    path = join(dir, 'nested', 'dead-letters.jsonl');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should return empty list when file does not exist', async () => {
+    const store = new JsonlDeadLetterStore({ path });
+
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should append one line per entry', async () => {
+    const store = new JsonlDeadLetterStore<{ n: number }>({ path });
+
+    await store.put(entry('e1'));
+    await store.put(entry('e2'));
+
+    const lines = (await fs.readFile(path, 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1]).id).toBe('e2');
+  });
+
+  it('should persist across instances', async () => {
+    await new JsonlDeadLetterStore<{ n: number }>({ path }).put(entry('e1'));
+
+    const reopened = new JsonlDeadLetterStore<{ n: number }>({ path });
+
+    expect(await reopened.list()).toEqual([entry('e1')]);
+  });
+
+  it('should replace and remove entries', async () => {
+    const store = new JsonlDeadLetterStore<{ n: number }>({ path });
+
+    await store.put(entry('e1'));
+    await store.put(entry('e2'));
+    await store.put(entry('e1', { attempts: 6 }));
+    await store.remove('e2');
+
+    expect(await store.list()).toEqual([entry('e1', { attempts: 6 })]);
+    expect(await fs.readdir(join(dir, 'nested'))).toEqual(['dead-letters.jsonl']);
+  });
+
+  it('should serialize concurrent writes', async () => {
+    const store = new JsonlDeadLetterStore<{ n: number }>({ path });
+
+    await Promise.all(Array.from({ length: 10 }, (_, i) => store.put(entry(`e${i}`))));
+    await Promise.all([store.remove('e0'), store.remove('e5'), store.put(entry('e1', { attempts: 9 }))]);
+
+    const entries = await store.list();
+    expect(entries).toHaveLength(8);
+    expect(entries.find((e) => e.id === 'e1')?.attempts).toBe(9);
+  });
+
+  it('should skip corrupted lines', async () => {
+    const store = new JsonlDeadLetterStore<{ n: number }>({ path });
+    await store.put(entry('e1'));
+    await fs.appendFile(path, '{"id":"e2","payl');
+
+    expect((await store.list()).map((e) => e.id)).toEqual(['e1']);
+  });
+});
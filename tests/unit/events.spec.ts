@@ -0,0 +1,112 @@
+import { NotifierEvents } from '../../src/events';
+
+describe('NotifierEvents', () => {
+  const event = { payload: { id: 1 }, webhookName: 'errors', attempts: 1 };
+
+  describe('on/emit', () => {
+    it('should call listeners with event data', () => {
+      const events = new NotifierEvents<{ id: number }>();
+      const listener = jest.fn();
+
+      events.on('sent', listener);
+      events.emit('sent', event);
+
+      expect(listener).toHaveBeenCalledWith(event);
+    });
+
+    it('should only call listeners of the emitted event', () => {
+      const events = new NotifierEvents<{ id: number }>();
+      const sent = jest.fn();
+      const failed = jest.fn();
+
+      events.on('sent', sent).on('failed', failed);
+      events.emit('sent', event);
+
+      expect(sent).toHaveBeenCalledTimes(1);
+      expect(failed).not.toHaveBeenCalled();
+    });
+
+    it('should call multiple listeners in registration order', () => {
+      const events = new NotifierEvents<{ id: number }>();
+      const calls: string[] = [];
+
+      events.on('queued', () => calls.push('first'));
+      events.on('queued', () => calls.push('second'));
+      events.emit('queued', event);
+
+      expect(calls).toEqual(['first', 'second']);
+    });
+
+    it('should isolate listener exceptions', () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const events = new NotifierEvents<{ id: number }>();
+      const second = jest.fn();
+
+      events.on('sent', () => {
+        throw new Error('listener bug');
+      });
+      events.on('sent', second);
+
+      expect(() => events.emit('sent', event)).not.toThrow();
+      expect(second).toHaveBeenCalledTimes(1);
+      expect(consoleSpy).toHaveBeenCalled();
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('once', () => {
+    it('should call listener only once', () => {
+      const events = new NotifierEvents<{ id: number }>();
+      const listener = jest.fn();
+
+      events.once('filtered', listener);
+      events.emit('filtered', event);
+      events.emit('filtered', event);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(events.listenerCount('filtered')).toBe(0);
+    });
+
+    it('should be removable with off() before it fires', () => {
+      const events = new NotifierEvents<{ id: number }>();
+      const listener = jest.fn();
+      const other = jest.fn();
+
+      events.once('sent', listener).once('sent', other);
+      events.off('sent', listener);
+      events.emit('sent', event);
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(other).toHaveBeenCalledTimes(1);
+      expect(events.listenerCount('sent')).toBe(0);
+    });
+  });
+
+  describe('off', () => {
+    it('should remove listener', () => {
+      const events = new NotifierEvents<{ id: number }>();
+      const listener = jest.fn();
+
+      events.on('sent', listener);
+      events.off('sent', listener);
+      events.emit('sent', event);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listenerCount/clear', () => {
+    it('should count and clear listeners', () => {
+      const events = new NotifierEvents<{ id: number }>();
+
+      events.on('sent', jest.fn()).on('sent', jest.fn()).on('failed', jest.fn());
+      expect(events.listenerCount('sent')).toBe(2);
+      expect(events.listenerCount('failed')).toBe(1);
+      expect(events.listenerCount('retrying')).toBe(0);
+
+      events.clear();
+      expect(events.listenerCount('sent')).toBe(0);
+    });
+  });
+});
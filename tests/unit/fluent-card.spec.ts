@@ -0,0 +1,181 @@
+import {
+  card,
+  hexColor,
+  iconUrl,
+  knownIcon,
+  linkButton,
+  materialIcon,
+  openLink,
+} from '../../src/cards';
+
+describe('card builder', () => {
+  it('should build a minimal card payload', () => {
+    const payload = card('simple').section().textParagraph('Olá').build();
+
+    expect(payload).toEqual({
+      cardsV2: [
+        {
+          cardId: 'simple',
+          card: { sections: [{ widgets: [{ textParagraph: { text: 'Olá' } }] }] },
+        },
+      ],
+    });
+  });
+
+  it('should build header and multiple sections in order', () => {
+    const payload = card()
+      .header('🚀 Deploy', { subtitle: 'api-gateway', imageUrl: 'https://x/icon.png', imageType: 'CIRCLE' })
+      .section('Detalhes')
+      .decoratedText({ topLabel: 'Versão', text: 'v2.4.1', startIcon: knownIcon('BOOKMARK') })
+      .divider()
+      .section({ header: 'Links' })
+      .buttonList(linkButton('Abrir', 'https://ci/1'), linkButton('Logs', 'https://ci/1/logs'))
+      .build();
+
+    const built = payload.cardsV2[0].card;
+    expect(payload.cardsV2[0].cardId).toBe('card');
+    expect(built.header).toEqual({
+      title: '🚀 Deploy',
+      subtitle: 'api-gateway',
+      imageUrl: 'https://x/icon.png',
+      imageType: 'CIRCLE',
+    });
+    expect(built.sections.map((s) => s.header)).toEqual(['Detalhes', 'Links']);
+    expect(built.sections[0].widgets).toEqual([
+      {
+        decoratedText: {
+          topLabel: 'Versão',
+          text: 'v2.4.1',
+          startIcon: { knownIcon: 'BOOKMARK' },
+        },
+      },
+      { divider: {} },
+    ]);
+    expect(built.sections[1].widgets).toEqual([
+      {
+        buttonList: {
+          buttons: [
+            { text: 'Abrir', onClick: { openLink: { url: 'https://ci/1' } } },
+            { text: 'Logs', onClick: { openLink: { url: 'https://ci/1/logs' } } },
+          ],
+        },
+      },
+    ]);
+  });
+
+  it('should accept plain text for decoratedText', () => {
+    const payload = card().section().decoratedText('texto').build();
+
+    expect(payload.cardsV2[0].card.sections[0].widgets).toEqual([{ decoratedText: { text: 'texto' } }]);
+  });
+
+  it('should build collapsible sections', () => {
+    const payload = card()
+      .section('Erros')
+      .collapsible(2)
+      .textParagraph('1')
+      .textParagraph('2')
+      .textParagraph('3')
+      .build();
+
+    expect(payload.cardsV2[0].card.sections[0]).toMatchObject({
+      header: 'Erros',
+      collapsible: true,
+      uncollapsibleWidgetsCount: 2,
+    });
+  });
+
+  it('should build columns with layout', () => {
+    const payload = card()
+      .section()
+      .columns(
+        (left) => left.size('FILL_MINIMUM_SPACE').decoratedText({ topLabel: 'Recebidos', text: '1000' }),
+        (right) => right.align('END', 'CENTER').image('https://x/chart.png', { altText: 'Gráfico' }),
+      )
+      .build();
+
+    expect(payload.cardsV2[0].card.sections[0].widgets[0]).toEqual({
+      columns: {
+        columnItems: [
+          {
+            horizontalSizeStyle: 'FILL_MINIMUM_SPACE',
+            widgets: [{ decoratedText: { topLabel: 'Recebidos', text: '1000' } }],
+          },
+          {
+            horizontalAlignment: 'END',
+            verticalAlignment: 'CENTER',
+            widgets: [{ image: { imageUrl: 'https://x/chart.png', altText: 'Gráfico' } }],
+          },
+        ],
+      },
+    });
+  });
+
+  it('should build grid and image widgets', () => {
+    const payload = card()
+      .section()
+      .grid([{ title: 'A', image: { imageUri: 'https://x/a.png' } }], { title: 'Arquivos', columnCount: 2 })
+      .image('https://x/banner.png', { onClick: openLink('https://x') })
+      .textParagraph('longo', { maxLines: 3 })
+      .build();
+
+    expect(payload.cardsV2[0].card.sections[0].widgets).toEqual([
+      { grid: { title: 'Arquivos', columnCount: 2, items: [{ title: 'A', image: { imageUri: 'https://x/a.png' } }] } },
+      { image: { imageUrl: 'https://x/banner.png', onClick: { openLink: { url: 'https://x' } } } },
+      { textParagraph: { text: 'longo', maxLines: 3 } },
+    ]);
+  });
+
+  it('should catch structural misuse at compile time', () => {
+    // Never called: ts-jest fails the suite if any expected error disappears
+    function misuse(): void {
+      // @ts-expect-error widgets require a section
+      card().textParagraph('x');
+
+      // @ts-expect-error a card without sections cannot be built
+      card().header('x').build();
+
+      card()
+        .section()
+        // @ts-expect-error dividers are not allowed inside columns
+        .columns((column) => column.divider());
+
+      card()
+        .section()
+        // @ts-expect-error decoratedText takes an endIcon or a button, not both
+        .decoratedText({ text: 'x', endIcon: knownIcon('STAR'), button: linkButton('a', 'https://x') });
+
+      // @ts-expect-error unknown icon names are rejected
+      knownIcon('ROCKET');
+    }
+
+    expect(misuse).toBeInstanceOf(Function);
+  });
+});
+
+describe('card helpers', () => {
+  it('should build icons', () => {
+    expect(knownIcon('CLOCK', 'Horário')).toEqual({ knownIcon: 'CLOCK', altText: 'Horário' });
+    expect(iconUrl('https://x/i.png', { imageType: 'CIRCLE' })).toEqual({
+      iconUrl: 'https://x/i.png',
+      imageType: 'CIRCLE',
+    });
+    expect(materialIcon('check_circle', { fill: true, altText: 'ok' })).toEqual({
+      materialIcon: { name: 'check_circle', fill: true },
+      altText: 'ok',
+    });
+  });
+
+  it('should build link buttons with style', () => {
+    expect(linkButton('Abrir', 'https://x', { color: hexColor('#FF0000'), disabled: true })).toEqual({
+      text: 'Abrir',
+      color: { red: 1, green: 0, blue: 0 },
+      disabled: true,
+      onClick: { openLink: { url: 'https://x' } },
+    });
+  });
+
+  it('should reject invalid hex colors', () => {
+    expect(() => hexColor('red')).toThrow('Invalid hex color: red');
+  });
+});
@@ -0,0 +1,252 @@
+import { HttpClient } from '../../src/http-client';
+import { HttpError } from '../../src/errors';
+import { isRetryableStatus, parseRetryAfter } from '../../src/utils/http';
+
+// Mock node-fetch
+jest.mock('node-fetch', () => jest.fn());
+
+import fetch from 'node-fetch';
+const mockFetch = fetch as unknown as jest.Mock;
+
+function mockResponse(
+  status: number,
+  statusText: string,
+  body = '{}',
+  headers: Record<string, string> = {},
+) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText,
+    text: async () => body,
+    headers: {
+      get: (name: string) => headers[name.toLowerCase()] ?? null,
+    },
+  };
+}
+
+describe('HttpClient', () => {
+  const TEST_URL = 'https://chat.googleapis.com/v1/spaces/test/messages';
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  describe('post', () => {
+    it('should send POST request with JSON body', async () => {
+      const data = { text: 'Hello' };
+      mockFetch.mockResolvedValue(mockResponse(200, 'OK'));
+
+      const client = new HttpClient();
+      const response = await client.post(TEST_URL, data);
+
+      expect(response.ok).toBe(true);
+      expect(response.status).toBe(200);
+      expect(response.attempts).toBe(1);
+      expect(mockFetch).toHaveBeenCalledWith(
+        TEST_URL,
+        expect.objectContaining({
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json; charset=UTF-8',
+          },
+          body: JSON.stringify(data),
+        }),
+      );
+    });
+
+    it('should return response body', async () => {
+      const responseBody = JSON.stringify({ name: 'spaces/test/messages/123' });
+      mockFetch.mockResolvedValue(mockResponse(200, 'OK', responseBody));
+
+      const client = new HttpClient();
+      const response = await client.post(TEST_URL, {});
+
+      expect(response.body).toBe(responseBody);
+    });
+  });
+
+  describe('retry logic', () => {
+    it('should retry on 429 rate limit', async () => {
+      mockFetch
+        .mockResolvedValueOnce(mockResponse(429, 'Too Many Requests'))
+        .mockResolvedValueOnce(mockResponse(429, 'Too Many Requests'))
+        .mockResolvedValueOnce(mockResponse(200, 'OK'));
+
+      const client = new HttpClient({ initialDelayMs: 10, maxRetries: 3, jitter: false });
+      const response = await client.post(TEST_URL, {});
+
+      expect(response.ok).toBe(true);
+      expect(response.attempts).toBe(3);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should retry on 500 server error', async () => {
+      mockFetch
+        .mockResolvedValueOnce(mockResponse(500, 'Internal Server Error'))
+        .mockResolvedValueOnce(mockResponse(200, 'OK'));
+
+      const client = new HttpClient({ initialDelayMs: 10, maxRetries: 3 });
+      const response = await client.post(TEST_URL, {});
+
+      expect(response.ok).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it.each([400, 401, 403, 404])('should not retry on %i', async (status) => {
+      mockFetch.mockResolvedValue(mockResponse(status, 'Client Error', 'details'));
+
+      const client = new HttpClient({ initialDelayMs: 10, maxRetries: 3 });
+      const error = await client.post(TEST_URL, {}).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect((error as HttpError).status).toBe(status);
+      expect((error as HttpError).body).toBe('details');
+      expect((error as HttpError).retryable).toBe(false);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw last error after max attempts', async () => {
+      mockFetch.mockResolvedValue(mockResponse(503, 'Service Unavailable'));
+
+      const client = new HttpClient({ initialDelayMs: 10, maxRetries: 3 });
+
+      await expect(client.post(TEST_URL, {})).rejects.toThrow('HTTP 503: Service Unavailable');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should report retries through onRetry hook', async () => {
+      mockFetch
+        .mockResolvedValueOnce(mockResponse(500, 'Internal Server Error'))
+        .mockResolvedValueOnce(mockResponse(500, 'Internal Server Error'))
+        .mockResolvedValueOnce(mockResponse(200, 'OK'));
+
+      const onRetry = jest.fn();
+      const client = new HttpClient({ initialDelayMs: 10, maxRetries: 3, jitter: false });
+      await client.post(TEST_URL, {}, { onRetry });
+
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenNthCalledWith(1, expect.objectContaining({ attempt: 1, delayMs: 10 }));
+      expect(onRetry).toHaveBeenNthCalledWith(2, expect.objectContaining({ attempt: 2, delayMs: 20 }));
+    });
+
+    it('should report every attempt through afterAttempt hook', async () => {
+      mockFetch
+        .mockResolvedValueOnce(mockResponse(503, 'Service Unavailable'))
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockResolvedValueOnce(mockResponse(200, 'OK'));
+
+      const afterAttempt = jest.fn();
+      const client = new HttpClient({ initialDelayMs: 1, maxRetries: 3 });
+      await client.post(TEST_URL, {}, { afterAttempt });
+
+      expect(afterAttempt.mock.calls.map(([info]) => [info.attempt, info.status])).toEqual([
+        [1, 503],
+        [2, undefined],
+        [3, 200],
+      ]);
+      expect(afterAttempt.mock.calls[1][0].error.message).toBe('ECONNRESET');
+      expect(afterAttempt.mock.calls[2][0].durationMs).toBeGreaterThanOrEqual(0);
+    });
+  });
+
+  describe('backoff', () => {
+    it('should cap delay at maxDelayMs', async () => {
+      mockFetch.mockResolvedValue(mockResponse(500, 'Internal Server Error'));
+
+      const onRetry = jest.fn();
+      const client = new HttpClient({
+        initialDelayMs: 10,
+        maxDelayMs: 15,
+        maxRetries: 3,
+        jitter: false,
+      });
+      await client.post(TEST_URL, {}, { onRetry }).catch(() => undefined);
+
+      expect(onRetry.mock.calls.map(([info]) => info.delayMs)).toEqual([10, 15]);
+    });
+
+    it('should keep jittered delay between half and full backoff', async () => {
+      mockFetch.mockResolvedValue(mockResponse(500, 'Internal Server Error'));
+
+      const onRetry = jest.fn();
+      const client = new HttpClient({ initialDelayMs: 20, maxRetries: 2 });
+      await client.post(TEST_URL, {}, { onRetry }).catch(() => undefined);
+
+      const delay = onRetry.mock.calls[0][0].delayMs;
+      expect(delay).toBeGreaterThanOrEqual(10);
+      expect(delay).toBeLessThanOrEqual(20);
+    });
+
+    it('should honor Retry-After header on 429', async () => {
+      mockFetch
+        .mockResolvedValueOnce(mockResponse(429, 'Too Many Requests', '{}', { 'retry-after': '0' }))
+        .mockResolvedValueOnce(mockResponse(200, 'OK'));
+
+      const onRetry = jest.fn();
+      const client = new HttpClient({ initialDelayMs: 5000, maxRetries: 2 });
+      await client.post(TEST_URL, {}, { onRetry });
+
+      expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ delayMs: 0 }));
+    });
+  });
+
+  describe('timeout', () => {
+    it('should abort attempts that exceed timeoutMs', async () => {
+      mockFetch.mockImplementation((_url: string, init: { signal: AbortSignal }) => {
+        return new Promise((_resolve, reject) => {
+          init.signal.addEventListener('abort', () => reject(new Error('aborted')));
+        });
+      });
+
+      const client = new HttpClient({ timeoutMs: 20, maxRetries: 2, initialDelayMs: 5 });
+
+      await expect(client.post(TEST_URL, {})).rejects.toThrow('Request timed out after 20ms');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('network errors', () => {
+    it('should throw on network error after retries', async () => {
+      mockFetch.mockRejectedValue(new Error('Network error'));
+
+      const client = new HttpClient({ initialDelayMs: 10, maxRetries: 3 });
+
+      await expect(client.post(TEST_URL, {})).rejects.toThrow('Network error');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+  });
+});
+
+describe('isRetryableStatus', () => {
+  it('should classify statuses', () => {
+    expect(isRetryableStatus(408)).toBe(true);
+    expect(isRetryableStatus(429)).toBe(true);
+    expect(isRetryableStatus(500)).toBe(true);
+    expect(isRetryableStatus(503)).toBe(true);
+    expect(isRetryableStatus(400)).toBe(false);
+    expect(isRetryableStatus(401)).toBe(false);
+    expect(isRetryableStatus(404)).toBe(false);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse delta seconds', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+  });
+
+  it('should parse HTTP date', () => {
+    const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+    expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:05 GMT', now)).toBe(5000);
+  });
+
+  it('should not return negative delays for past dates', () => {
+    const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+    expect(parseRetryAfter('Wed, 21 Oct 2015 07:27:00 GMT', now)).toBe(0);
+  });
+
+  it('should ignore missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
@@ -86,6 +86,31 @@ describe('IdempotencyCache', () => {
     });
   });
 
+  describe('per-key ttl', () => {
+    it('should use ttl given to set over the default', () => {
+      cache = new IdempotencyCache({ ttlMs: 60000 });
+      cache.set('key1', 50);
+
+      return new Promise<void>((resolve) => {
+        setTimeout(() => {
+          expect(cache.has('key1')).toBe(false);
+          resolve();
+        }, 100);
+      });
+    });
+  });
+
+  describe('delete', () => {
+    it('should remove key', () => {
+      cache = new IdempotencyCache();
+      cache.set('key1');
+      cache.delete('key1');
+
+      expect(cache.has('key1')).toBe(false);
+      expect(cache.size).toBe(0);
+    });
+  });
+
   describe('cleanup', () => {
     it('should remove expired entries periodically', () => {
       cache = new IdempotencyCache({ ttlMs: 50 });
@@ -0,0 +1,144 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryIdempotencyStore, FileIdempotencyStore } from '../../src/idempotency';
+import type { IdempotencyStore } from '../../src/idempotency';
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('idempotency stores', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'chat-notifier-idem-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const factories: Array<[string, () => IdempotencyStore]> = [
+    ['MemoryIdempotencyStore', () => new MemoryIdempotencyStore()],
+    ['FileIdempotencyStore', () => new FileIdempotencyStore({ dir: join(dir, 'keys') })],
+  ];
+
+  describe.each(factories)('%s', (_name, create) => {
+    let store: IdempotencyStore;
+
+    beforeEach(() => {
+      store = create();
+    });
+
+    afterEach(async () => {
+      await store.destroy?.();
+    });
+
+    it('should report unknown keys as missing', async () => {
+      expect(await store.has('missing')).toBe(false);
+    });
+
+    it('should set, check and delete keys', async () => {
+      await store.set('key1', 60000);
+      expect(await store.has('key1')).toBe(true);
+
+      await store.delete('key1');
+      expect(await store.has('key1')).toBe(false);
+    });
+
+    it('should expire keys after ttl', async () => {
+      await store.set('key1', 30);
+      await sleep(60);
+
+      expect(await store.has('key1')).toBe(false);
+    });
+
+    it('should reserve a key only once', async () => {
+      expect(await store.reserve('key1', 60000)).toBe(true);
+      expect(await store.reserve('key1', 60000)).toBe(false);
+      expect(await store.has('key1')).toBe(false);
+    });
+
+    it('should not reserve committed keys', async () => {
+      await store.set('key1', 60000);
+
+      expect(await store.reserve('key1', 60000)).toBe(false);
+    });
+
+    it('should commit a reservation', async () => {
+      await store.reserve('key1', 60000);
+      await store.set('key1', 60000);
+
+      expect(await store.has('key1')).toBe(true);
+      await store.release('key1');
+      expect(await store.has('key1')).toBe(true);
+    });
+
+    it('should allow reserving again after release', async () => {
+      await store.reserve('key1', 60000);
+      await store.release('key1');
+
+      expect(await store.reserve('key1', 60000)).toBe(true);
+    });
+
+    it('should expire orphan reservations', async () => {
+      await store.reserve('key1', 20);
+      await sleep(50);
+
+      expect(await store.reserve('key1', 60000)).toBe(true);
+    });
+
+    it('should grant exactly one of concurrent reservations', async () => {
+      const results = await Promise.all(
+        Array.from({ length: 5 }, () => store.reserve('key1', 60000)),
+      );
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+    });
+
+    it('should ignore deleting unknown keys', async () => {
+      await expect(store.delete('missing')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('FileIdempotencyStore sharing', () => {
+    it('should share keys between instances using the same directory', async () => {
+      const first = new FileIdempotencyStore({ dir });
+      const second = new FileIdempotencyStore({ dir });
+
+      await first.set('event:bucket:file.csv', 60000);
+
+      expect(await second.has('event:bucket:file.csv')).toBe(true);
+    });
+
+    it('should let only one instance reserve a key', async () => {
+      const first = new FileIdempotencyStore({ dir });
+      const second = new FileIdempotencyStore({ dir });
+
+      const results = await Promise.all([first.reserve('key1', 60000), second.reserve('key1', 60000)]);
+
+      expect(results.sort()).toEqual([false, true]);
+    });
+
+    it('should store keys with unsafe characters as hashed file names', async () => {
+      const store = new FileIdempotencyStore({ dir });
+
+      await store.set('../../etc/passwd', 60000);
+
+      const files = await fs.readdir(dir);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/^[0-9a-f]{40}\.key$/);
+    });
+
+    it('should remove expired key files when checked', async () => {
+      const store = new FileIdempotencyStore({ dir });
+      await store.set('key1', 10);
+      await sleep(30);
+
+      await store.has('key1');
+
+      expect(await fs.readdir(dir)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { ConsoleLogger, JsonLinesLogger, withRedaction, type Logger } from '../../src/logger';
+import { HttpError } from '../../src/errors';
+
+describe('logger', () => {
+  const URL = 'https://chat.googleapis.com/v1/spaces/AAA/messages?key=SECRET_KEY&token=SECRET';
+
+  /**
+   * JSON-lines logger writing into an array
+   */
+  function createJsonLogger(level?: 'debug' | 'info' | 'warn' | 'error' | 'silent') {
+    const lines: string[] = [];
+    const logger = new JsonLinesLogger({
+      level,
+      stream: { write: (chunk: string) => lines.push(chunk) },
+      base: { service: 'ingest' },
+    });
+    return { logger, records: () => lines.map((line) => JSON.parse(line)), lines };
+  }
+
+  describe('JsonLinesLogger', () => {
+    it('should write one JSON object per line with level, message, base and context', () => {
+      const { logger, lines, records } = createJsonLogger();
+
+      logger.info('Notification sent', { webhook: 'errors', attempts: 2 });
+
+      expect(lines).toHaveLength(1);
+      expect(lines[0].endsWith('}\n')).toBe(true);
+      expect(records()[0]).toEqual({
+        time: expect.any(String),
+        level: 'info',
+        msg: 'Notification sent',
+        service: 'ingest',
+        webhook: 'errors',
+        attempts: 2,
+      });
+    });
+
+    it('should skip levels below the threshold', () => {
+      const { logger, records } = createJsonLogger('warn');
+
+      logger.debug('a');
+      logger.info('b');
+      logger.warn('c');
+      logger.error('d');
+
+      expect(records().map((record) => record.level)).toEqual(['warn', 'error']);
+    });
+
+    it('should serialize errors with name, message and their own fields', () => {
+      const { logger, records } = createJsonLogger();
+
+      logger.error('Delivery failed', {
+        error: new HttpError('HTTP 503: Service Unavailable', { status: 503, retryable: true }),
+      });
+
+      expect(records()[0].error).toMatchObject({
+        name: 'HttpError',
+        message: 'HTTP 503: Service Unavailable',
+        status: 503,
+        stack: expect.stringContaining('HttpError'),
+      });
+    });
+  });
+
+  describe('ConsoleLogger', () => {
+    const originalEnv = process.env;
+
+    afterEach(() => {
+      process.env = originalEnv;
+      jest.restoreAllMocks();
+    });
+
+    it('should print warnings and errors only, unless debugging is enabled', () => {
+      const debug = jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      new ConsoleLogger().debug('hidden');
+      new ConsoleLogger().warn('shown');
+      process.env = { ...originalEnv, DEBUG_CHAT_NOTIFIER: 'true' };
+      new ConsoleLogger().debug('payload', { webhook: 'errors' });
+
+      expect(warn).toHaveBeenCalledWith('shown');
+      expect(debug).toHaveBeenCalledTimes(1);
+      expect(debug).toHaveBeenCalledWith('payload', { webhook: 'errors' });
+    });
+
+    it('should read DEBUG_CHAT_NOTIFIER from the given env', () => {
+      process.env = { ...originalEnv, DEBUG_CHAT_NOTIFIER: 'true' };
+      const debugEnv = { DEBUG_CHAT_NOTIFIER: 'true' };
+
+      expect(new ConsoleLogger(undefined, {}).isLevelEnabled('debug')).toBe(false);
+      expect(new ConsoleLogger(undefined, debugEnv).isLevelEnabled('debug')).toBe(true);
+      expect(new ConsoleLogger('error', debugEnv).isLevelEnabled('warn')).toBe(false);
+    });
+  });
+
+  describe('withRedaction', () => {
+    function createRecordingLogger() {
+      const calls: Array<{ message: string; context?: Record<string, unknown> }> = [];
+      const record = (message: string, context?: Record<string, unknown>) =>
+        calls.push({ message, context });
+      const logger: Logger = { debug: record, info: record, warn: record, error: record };
+      return { logger, calls };
+    }
+
+    it('should mask webhook secrets in messages and nested context', () => {
+      const { logger, calls } = createRecordingLogger();
+
+      withRedaction(logger).debug(`Sending to ${URL}`, {
+        url: URL,
+        request: { headers: { authorization: 'Bearer abc' }, query: 'key=SECRET_KEY' },
+        urls: [URL],
+        attempts: 1,
+      });
+
+      const output = JSON.stringify(calls);
+      expect(output).not.toContain('SECRET');
+      expect(output).not.toContain('Bearer');
+      expect(calls[0]).toEqual({
+        message: 'Sending to https://chat.googleapis.com/v1/spaces/AAA/messages?key=***&token=***',
+        context: {
+          url: 'https://chat.googleapis.com/v1/spaces/AAA/messages?key=***&token=***',
+          request: { headers: { authorization: '***' }, query: 'key=***' },
+          urls: ['https://chat.googleapis.com/v1/spaces/AAA/messages?key=***&token=***'],
+          attempts: 1,
+        },
+      });
+    });
+
+    it('should mask error messages and stacks without changing the error class', () => {
+      const { logger, calls } = createRecordingLogger();
+      const error = new HttpError(`request to ${URL} failed`, { status: 500, retryable: true });
+
+      withRedaction(logger).error('Delivery failed', { error });
+
+      const logged = calls[0].context?.error as HttpError;
+      expect(logged).toBeInstanceOf(HttpError);
+      expect(logged.status).toBe(500);
+      expect(logged.message).toBe(
+        'request to https://chat.googleapis.com/v1/spaces/AAA/messages?key=***&token=*** failed',
+      );
+      expect(logged.stack).not.toContain('SECRET');
+      // The original error is left untouched
+      expect(error.message).toContain('SECRET_KEY');
+    });
+
+    it('should not copy the context of levels the logger does not write', () => {
+      const { logger, calls } = createRecordingLogger();
+      const context = {
+        get payload(): unknown {
+          throw new Error('context read for a disabled level');
+        },
+      };
+
+      const redacted = withRedaction({ ...logger, isLevelEnabled: (level) => level !== 'debug' });
+      redacted.debug('Sending webhook request', context);
+
+      expect(calls).toHaveLength(0);
+      expect(redacted.isLevelEnabled?.('debug')).toBe(false);
+      expect(new JsonLinesLogger({ level: 'warn' }).isLevelEnabled('info')).toBe(false);
+    });
+
+    it('should omit the context argument when none is given and survive cycles', () => {
+      const { logger, calls } = createRecordingLogger();
+      const context: Record<string, unknown> = { token: 'abc' };
+      context.self = context;
+
+      withRedaction(logger).warn('plain');
+      withRedaction(logger).warn('cyclic', context);
+
+      expect(calls[0]).toEqual({ message: 'plain', context: undefined });
+      expect(calls[1].context?.token).toBe('***');
+    });
+  });
+});
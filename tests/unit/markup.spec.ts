@@ -0,0 +1,22 @@
+import { htmlToMarkdown, htmlToPlainText, htmlToSlackMrkdwn } from '../../src/utils/markup';
+
+describe('markup utils', () => {
+  const html = '<b>Arquivo:</b> <i>vendas.csv</i> &amp; <a href="https://x.io/r">relatório</a><br>fim';
+
+  it('should convert Chat formatting to Markdown', () => {
+    expect(htmlToMarkdown(html)).toBe('**Arquivo:** _vendas.csv_ & [relatório](https://x.io/r)\nfim');
+  });
+
+  it('should convert Chat formatting to Slack mrkdwn', () => {
+    expect(htmlToSlackMrkdwn(html)).toBe('*Arquivo:* _vendas.csv_ & <https://x.io/r|relatório>\nfim');
+  });
+
+  it('should strip formatting for plain text', () => {
+    expect(htmlToPlainText(html)).toBe('Arquivo: vendas.csv & relatório (https://x.io/r)\nfim');
+  });
+
+  it('should drop unsupported tags and keep plain text untouched', () => {
+    expect(htmlToMarkdown('<font color="#ff0000">erro</font> <s>antigo</s>')).toBe('erro ~~antigo~~');
+    expect(htmlToMarkdown('sem formatação')).toBe('sem formatação');
+  });
+});
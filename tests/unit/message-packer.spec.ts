@@ -0,0 +1,168 @@
+import { CHAT_LIMITS, messageBytes, packMessages } from '../../src/message-packer';
+import type { CardPayload } from '../../src/types';
+
+function card(id: string, widgets = 1, text = 'x', threadKey?: string): CardPayload {
+  return {
+    ...(threadKey ? { thread: { threadKey } } : {}),
+    cardsV2: [
+      {
+        cardId: id,
+        card: {
+          header: { title: `Title ${id}`, subtitle: 'Sub' },
+          sections: [
+            {
+              widgets: Array.from({ length: widgets }, () => ({ textParagraph: { text } })),
+            },
+          ],
+        },
+      },
+    ],
+  };
+}
+
+describe('message-packer', () => {
+  describe("'cards' strategy", () => {
+    it('should pack cards into a single message', () => {
+      const messages = packMessages(
+        [
+          { card: card('a'), ref: 1 },
+          { card: card('b'), ref: 2 },
+          { card: card('c'), ref: 3 },
+        ],
+        'cards',
+      );
+
+      expect(messages).toHaveLength(1);
+      expect(messages[0].refs).toEqual([1, 2, 3]);
+      expect(messages[0].payload.cardsV2).toHaveLength(3);
+    });
+
+    it('should keep cardIds unique inside a message', () => {
+      const messages = packMessages(
+        [
+          { card: card('same'), ref: 1 },
+          { card: card('same'), ref: 2 },
+        ],
+        'cards',
+      );
+
+      const ids = messages[0].payload.cardsV2.map((c) => c.cardId);
+      expect(new Set(ids).size).toBe(2);
+    });
+
+    it('should split when card count limit is reached', () => {
+      const entries = Array.from({ length: 5 }, (_, i) => ({ card: card(`c${i}`), ref: i }));
+
+      const messages = packMessages(entries, 'cards', { ...CHAT_LIMITS, maxCardsPerMessage: 2 });
+
+      expect(messages.map((m) => m.refs)).toEqual([[0, 1], [2, 3], [4]]);
+    });
+
+    it('should split when byte limit is reached', () => {
+      const big = 'y'.repeat(400);
+      const entries = Array.from({ length: 4 }, (_, i) => ({ card: card(`c${i}`, 1, big), ref: i }));
+      const single = messageBytes(entries[0].card);
+
+      const messages = packMessages(entries, 'cards', {
+        ...CHAT_LIMITS,
+        maxMessageBytes: single * 2 + 50,
+      });
+
+      expect(messages.length).toBeGreaterThan(1);
+      messages.forEach((m) => {
+        expect(messageBytes(m.payload)).toBeLessThanOrEqual(single * 2 + 50);
+      });
+      expect(messages.flatMap((m) => m.refs)).toEqual([0, 1, 2, 3]);
+    });
+
+    it('should split when the platform check rejects the message', () => {
+      const entries = Array.from({ length: 5 }, (_, i) => ({ card: card(`c${i}`), ref: i }));
+
+      const messages = packMessages(entries, 'cards', {
+        ...CHAT_LIMITS,
+        fits: (payload) => payload.cardsV2.length <= 3,
+      });
+
+      expect(messages.map((m) => m.refs)).toEqual([[0, 1, 2], [3, 4]]);
+    });
+
+    it('should emit oversized items alone instead of dropping them', () => {
+      const messages = packMessages(
+        [
+          { card: card('small'), ref: 'small' },
+          { card: card('huge', 1, 'z'.repeat(2000)), ref: 'huge' },
+        ],
+        'cards',
+        { ...CHAT_LIMITS, maxMessageBytes: 500 },
+      );
+
+      expect(messages.map((m) => m.refs)).toEqual([['small'], ['huge']]);
+    });
+
+    it('should preserve thread of the group', () => {
+      const messages = packMessages(
+        [
+          { card: card('a', 1, 'x', 'thread-1'), ref: 1 },
+          { card: card('b', 1, 'x', 'thread-1'), ref: 2 },
+        ],
+        'cards',
+      );
+
+      expect(messages[0].payload.thread).toEqual({ threadKey: 'thread-1' });
+    });
+  });
+
+  describe("'digest' strategy", () => {
+    it('should merge items into one card with a section per item', () => {
+      const messages = packMessages(
+        [
+          { card: card('a', 2), ref: 1 },
+          { card: card('b', 3), ref: 2 },
+        ],
+        'digest',
+      );
+
+      expect(messages).toHaveLength(1);
+      const digest = messages[0].payload.cardsV2;
+      expect(digest).toHaveLength(1);
+      expect(digest[0].card.header?.title).toContain('2 notificações');
+      expect(digest[0].card.sections).toHaveLength(2);
+      expect(digest[0].card.sections[0].header).toBe('Title a · Sub');
+      expect(digest[0].card.sections[1].widgets).toHaveLength(3);
+    });
+
+    it('should combine threads and drop thread when items differ', () => {
+      const messages = packMessages(
+        [
+          { card: card('a', 1, 'x', 'thread-a'), ref: 1 },
+          { card: card('b', 1, 'x', 'thread-b'), ref: 2 },
+        ],
+        'digest',
+      );
+
+      expect(messages).toHaveLength(1);
+      expect(messages[0].payload.thread).toBeUndefined();
+    });
+
+    it('should keep thread when all items share it', () => {
+      const messages = packMessages(
+        [
+          { card: card('a', 1, 'x', 'thread-a'), ref: 1 },
+          { card: card('b', 1, 'x', 'thread-a'), ref: 2 },
+        ],
+        'digest',
+      );
+
+      expect(messages[0].payload.thread).toEqual({ threadKey: 'thread-a' });
+    });
+
+    it('should split when widget limit is reached', () => {
+      const entries = Array.from({ length: 3 }, (_, i) => ({ card: card(`c${i}`, 40), ref: i }));
+
+      const messages = packMessages(entries, 'digest');
+
+      expect(messages.map((m) => m.refs)).toEqual([[0, 1], [2]]);
+      expect(messages[1].payload.cardsV2[0].card.header?.title).toContain('1 notificação');
+    });
+  });
+});
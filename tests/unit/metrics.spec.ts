@@ -0,0 +1,107 @@
+import { formatPrometheus, MetricsRegistry } from '../../src/metrics';
+
+describe('metrics', () => {
+  describe('MetricsRegistry', () => {
+    it('should count per label set regardless of label order', () => {
+      const registry = new MetricsRegistry();
+      const counter = registry.counter('sent_total', 'Sent');
+
+      counter.inc({ webhook: 'errors', schema: 'deploy' });
+      counter.inc({ schema: 'deploy', webhook: 'errors' }, 2);
+      counter.inc({ schema: 'deploy', webhook: 'default' });
+
+      expect(registry.snapshot()).toEqual([
+        {
+          type: 'counter',
+          name: 'sent_total',
+          help: 'Sent',
+          samples: [
+            { labels: { webhook: 'errors', schema: 'deploy' }, value: 3 },
+            { labels: { schema: 'deploy', webhook: 'default' }, value: 1 },
+          ],
+        },
+      ]);
+    });
+
+    it('should share metrics by name and reject type conflicts', () => {
+      const registry = new MetricsRegistry();
+
+      expect(registry.counter('a_total', 'A')).toBe(registry.counter('a_total', 'A'));
+      expect(() => registry.histogram('a_total', 'A')).toThrow(
+        "Metric 'a_total' is already registered with another type",
+      );
+      registry.gauge('depth', 'Depth', () => []);
+      expect(() => registry.counter('depth', 'Depth')).toThrow('another type');
+    });
+
+    it('should collect gauges on snapshot until their collector is removed', () => {
+      const registry = new MetricsRegistry();
+      let depth = 1;
+      const remove = registry.gauge('depth', 'Depth', () => [{ labels: { q: 'a' }, value: depth }]);
+      registry.gauge('depth', 'Depth', () => [{ labels: { q: 'b' }, value: 7 }]);
+
+      depth = 4;
+      expect(registry.snapshot()[0]).toMatchObject({
+        type: 'gauge',
+        samples: [
+          { labels: { q: 'a' }, value: 4 },
+          { labels: { q: 'b' }, value: 7 },
+        ],
+      });
+
+      remove();
+      expect(registry.snapshot()[0]).toMatchObject({ samples: [{ labels: { q: 'b' } }] });
+    });
+
+    it('should accumulate histogram buckets', () => {
+      const registry = new MetricsRegistry();
+      const histogram = registry.histogram('latency_seconds', 'Latency', [0.1, 1]);
+
+      histogram.observe({}, 0.05);
+      histogram.observe({}, 0.5);
+      histogram.observe({}, 3);
+
+      expect(registry.snapshot()[0]).toMatchObject({
+        buckets: [0.1, 1],
+        samples: [{ labels: {}, bucketCounts: [1, 2], sum: 3.55, count: 3 }],
+      });
+    });
+  });
+
+  describe('formatPrometheus', () => {
+    it('should render counters, gauges and histograms in the text format', () => {
+      const registry = new MetricsRegistry();
+      registry.counter('sent_total', 'Sent notifications').inc({ webhook: 'errors' }, 2);
+      registry.gauge('queue_depth', 'Queue depth', () => [{ labels: {}, value: 3 }]);
+      registry.histogram('latency_seconds', 'Latency', [0.5]).observe({ status: '200' }, 0.25);
+
+      expect(formatPrometheus(registry.snapshot())).toBe(
+        [
+          '# HELP sent_total Sent notifications',
+          '# TYPE sent_total counter',
+          'sent_total{webhook="errors"} 2',
+          '# HELP queue_depth Queue depth',
+          '# TYPE queue_depth gauge',
+          'queue_depth 3',
+          '# HELP latency_seconds Latency',
+          '# TYPE latency_seconds histogram',
+          'latency_seconds_bucket{status="200",le="0.5"} 1',
+          'latency_seconds_bucket{status="200",le="+Inf"} 1',
+          'latency_seconds_sum{status="200"} 0.25',
+          'latency_seconds_count{status="200"} 1',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should escape label values and help text', () => {
+      const registry = new MetricsRegistry();
+      registry.counter('x_total', 'Line\nbreak').inc({ event: 'say "hi"\\' });
+
+      expect(formatPrometheus(registry.snapshot())).toContain(
+        '# HELP x_total Line\\nbreak\n# TYPE x_total counter\nx_total{event="say \\"hi\\"\\\\"} 1',
+      );
+      expect(formatPrometheus([])).toBe('');
+    });
+  });
+});
@@ -0,0 +1,1746 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { NotifierImpl } from '../../src/notifier';
+import { createTombamentoNotifier } from '../../src';
+import { TombamentoSchema } from '../../src/schemas/tombamento-schema';
+import { RecordingTransport } from '../../src/transports/recording-transport';
+import { RateLimiter } from '../../src/rate-limiter';
+import { MemoryDeadLetterStore } from '../../src/dead-letter';
+import { MemoryIdempotencyStore } from '../../src/idempotency';
+import { formatPrometheus, MetricsRegistry, type MetricSnapshot } from '../../src/metrics';
+import { CardValidationError, CircuitOpenError, WebhookNotFoundError } from '../../src/errors';
+import type { Logger } from '../../src/logger';
+import { createDeferred } from '../../src/utils/deferred';
+import type { EventSchema } from '../../src/schemas/base-schema';
+import type { Transport } from '../../src/transports/base-transport';
+import type {
+  CircuitEvent,
+  NotifierOptions,
+  NotifyFailedResult,
+  NotifyFanOutResult,
+  NotifyQueuedResult,
+  TombamentoPayload,
+} from '../../src/types';
+
+// Default transport is never used: every notifier here gets a RecordingTransport
+jest.mock('node-fetch', () => jest.fn());
+
+describe('NotifierImpl', () => {
+  const DEFAULT_URL = 'https://chat.googleapis.com/v1/spaces/DEFAULT/messages?key=KEY';
+  const ERRORS_URL = 'https://chat.googleapis.com/v1/spaces/ERRORS/messages?key=KEY2';
+
+  const originalEnv = process.env;
+  const notifiers: Array<NotifierImpl<TombamentoPayload>> = [];
+
+  const payload: TombamentoPayload = {
+    event: 'UPLOADED',
+    partner: 'ACME',
+    bucket: 'uploads',
+    object: 'file.csv',
+  };
+
+  function createNotifier(
+    transport: RecordingTransport,
+    options: NotifierOptions<TombamentoPayload> = {},
+  ): NotifierImpl<TombamentoPayload> {
+    const notifier = new NotifierImpl(new TombamentoSchema(), {
+      transport,
+      webhooks: { errors: ERRORS_URL },
+      retryBaseMs: 1,
+      ...options,
+    });
+    notifiers.push(notifier);
+    return notifier;
+  }
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, CHAT_WEBHOOK_URL: DEFAULT_URL };
+    delete process.env.CHAT_BATCH_ENABLED;
+  });
+
+  afterEach(async () => {
+    await Promise.all(notifiers.splice(0).map((n) => n.destroy()));
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('delivery', () => {
+    it('should send card to default webhook', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport);
+
+      await notifier.notify(payload);
+
+      expect(transport.requests).toHaveLength(1);
+      expect(transport.lastRequest?.url.startsWith(DEFAULT_URL)).toBe(true);
+      expect(transport.lastRequest?.payload.cardsV2[0].card.header?.title).toContain('UPLOADED');
+    });
+
+    it('should send to named webhook', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport);
+
+      await notifier.notify(payload, 'errors');
+
+      expect(transport.lastRequest?.webhookName).toBe('errors');
+      expect(transport.lastRequest?.url.startsWith(ERRORS_URL)).toBe(true);
+    });
+
+    it('should send threadKey with messageReplyOption', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport, { messageReplyOption: 'REPLY_MESSAGE_OR_FAIL' });
+
+      await notifier.notify(payload);
+
+      const request = transport.lastRequest;
+      expect(request?.payload.thread?.threadKey).toBe(
+        new TombamentoSchema().getThreadKey(payload),
+      );
+      expect(request?.url).toBe(`${DEFAULT_URL}&messageReplyOption=REPLY_MESSAGE_OR_FAIL`);
+    });
+
+    it('should retry through the transport and succeed', async () => {
+      const transport = new RecordingTransport().rateLimitNext(1);
+      const notifier = createNotifier(transport);
+
+      await notifier.notify(payload);
+
+      expect(transport.requests).toHaveLength(2);
+      expect(transport.delivered).toHaveLength(1);
+    });
+
+    it('should throw after permanent failure', async () => {
+      const transport = new RecordingTransport().respondWith({ status: 400, statusText: 'Bad Request' });
+      const notifier = createNotifier(transport);
+
+      await expect(notifier.notify(payload)).rejects.toThrow('HTTP 400: Bad Request');
+      expect(transport.requests).toHaveLength(1);
+    });
+  });
+
+  describe('filtering and idempotency', () => {
+    it('should skip non-important events when level=important', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport, { level: 'important' });
+
+      await notifier.notify({ ...payload, event: 'PROCESSING' });
+
+      expect(transport.requests).toHaveLength(0);
+    });
+
+    it('should not send the same event twice', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport);
+
+      await notifier.notify(payload);
+      await notifier.notify(payload);
+
+      expect(transport.requests).toHaveLength(1);
+    });
+  });
+
+  describe('idempotency store', () => {
+    it('should share sent keys between notifiers using the same store', async () => {
+      const store = new MemoryIdempotencyStore();
+      const transport = new RecordingTransport();
+
+      await createNotifier(transport, { idempotencyStore: store }).notify(payload);
+      const result = await createNotifier(transport, { idempotencyStore: store }).notify(payload);
+
+      expect(result.status).toBe('duplicate');
+      expect(transport.requests).toHaveLength(1);
+      await store.destroy();
+    });
+
+    it('should store keys with the configured ttl', async () => {
+      const store = new MemoryIdempotencyStore();
+      const setSpy = jest.spyOn(store, 'set');
+
+      await createNotifier(new RecordingTransport(), {
+        idempotencyStore: store,
+        idempotencyTtlMs: 1234,
+      }).notify(payload);
+
+      expect(setSpy).toHaveBeenCalledWith(expect.any(String), 1234);
+      await store.destroy();
+    });
+
+    it('should still send when the store is unavailable', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport, {
+        idempotencyStore: {
+          has: () => Promise.reject(new Error('ECONNREFUSED')),
+          reserve: () => Promise.reject(new Error('ECONNREFUSED')),
+          set: () => Promise.reject(new Error('ECONNREFUSED')),
+          release: () => Promise.resolve(),
+          delete: () => Promise.resolve(),
+        },
+      });
+
+      const result = await notifier.notify(payload);
+
+      expect(result.status).toBe('sent');
+      expect(consoleSpy).toHaveBeenCalledTimes(2);
+      consoleSpy.mockRestore();
+    });
+
+    it('should send concurrent notifications with the same key once', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport);
+
+      const results = await Promise.all([notifier.notify(payload), notifier.notify(payload)]);
+
+      expect(results.map((r) => r.status).sort()).toEqual(['duplicate', 'sent']);
+      expect(transport.requests).toHaveLength(1);
+    });
+
+    it('should allow resending after an immediate send fails', async () => {
+      const transport = new RecordingTransport().respondWith({ status: 400 });
+      const notifier = createNotifier(transport);
+
+      await expect(notifier.notify(payload)).rejects.toThrow('HTTP 400');
+      const result = await notifier.notify(payload);
+
+      expect(result.status).toBe('sent');
+      expect(transport.requests).toHaveLength(2);
+    });
+
+    it('should release the reservation when a batch item fails', async () => {
+      const transport = new RecordingTransport().respondWith({ status: 400 });
+      const notifier = createNotifier(transport, {
+        batchEnabled: true,
+        batchSize: 100,
+        batchIntervalMs: 60000,
+        onError: () => undefined,
+      });
+
+      const queued = await notifier.notify(payload);
+      await notifier.flush();
+      if (queued.status !== 'queued') throw new Error('expected queued');
+      await expect(queued.delivered).rejects.toThrow('HTTP 400');
+
+      const retried = await notifier.notify(payload);
+      await notifier.flush();
+
+      expect(retried.status).toBe('queued');
+      expect(transport.delivered).toHaveLength(1);
+    });
+
+    it('should deduplicate items while they wait in the batch queue', async () => {
+      const notifier = createNotifier(new RecordingTransport(), {
+        batchEnabled: true,
+        batchSize: 100,
+        batchIntervalMs: 60000,
+      });
+
+      await notifier.notify(payload);
+      const result = await notifier.notify(payload);
+
+      expect(result.status).toBe('duplicate');
+    });
+
+    it('should release reservations on destroy without flush', async () => {
+      const store = new MemoryIdempotencyStore();
+      const notifier = createNotifier(new RecordingTransport(), {
+        idempotencyStore: store,
+        batchEnabled: true,
+        batchSize: 100,
+        batchIntervalMs: 60000,
+        batchFlushOnDestroy: false,
+      });
+      const key = new TombamentoSchema().getIdempotencyKey(payload);
+
+      await notifier.notify(payload);
+      await notifier.destroy();
+
+      expect(await store.reserve(key, 1000)).toBe(true);
+      await store.destroy();
+    });
+
+    it('should not destroy an injected store', async () => {
+      const store = new MemoryIdempotencyStore();
+      const destroySpy = jest.spyOn(store, 'destroy');
+
+      await createNotifier(new RecordingTransport(), { idempotencyStore: store }).destroy();
+
+      expect(destroySpy).not.toHaveBeenCalled();
+      await store.destroy();
+    });
+  });
+
+  describe('notify result', () => {
+    it('should resolve sent with message and thread names', async () => {
+      const transport = new RecordingTransport().respondWith({
+        status: 200,
+        body: JSON.stringify({
+          name: 'spaces/AAA/messages/BBB',
+          thread: { name: 'spaces/AAA/threads/CCC' },
+        }),
+      });
+      const notifier = createNotifier(transport);
+
+      const result = await notifier.notify(payload, 'errors');
+
+      expect(result).toEqual({
+        status: 'sent',
+        webhookName: 'errors',
+        attempts: 1,
+        messageName: 'spaces/AAA/messages/BBB',
+        threadName: 'spaces/AAA/threads/CCC',
+      });
+    });
+
+    it('should tolerate non-JSON response bodies', async () => {
+      const transport = new RecordingTransport().respondWith({ status: 200, body: 'ok' });
+      const notifier = createNotifier(transport);
+
+      const result = await notifier.notify(payload);
+
+      expect(result).toEqual({ status: 'sent', webhookName: undefined, attempts: 1 });
+    });
+
+    it('should report attempts after retries', async () => {
+      const notifier = createNotifier(new RecordingTransport().failNext('flaky', 2));
+
+      const result = await notifier.notify(payload);
+
+      expect(result).toMatchObject({ status: 'sent', attempts: 3 });
+    });
+
+    it('should resolve filtered', async () => {
+      const notifier = createNotifier(new RecordingTransport(), { level: 'important' });
+
+      await expect(notifier.notify({ ...payload, event: 'PROCESSING' })).resolves.toEqual({
+        status: 'filtered',
+      });
+    });
+
+    it('should resolve duplicate with idempotency key', async () => {
+      const notifier = createNotifier(new RecordingTransport());
+
+      await notifier.notify(payload);
+      const result = await notifier.notify(payload);
+
+      expect(result).toEqual({
+        status: 'duplicate',
+        idempotencyKey: new TombamentoSchema().getIdempotencyKey(payload),
+      });
+    });
+
+    it('should resolve queued with a delivery promise in batch mode', async () => {
+      const notifier = createNotifier(new RecordingTransport(), {
+        batchEnabled: true,
+        batchSize: 100,
+        batchIntervalMs: 60000,
+      });
+
+      const result = await notifier.notify(payload, 'errors');
+      expect(result.status).toBe('queued');
+      if (result.status !== 'queued') return;
+
+      await notifier.flush();
+
+      await expect(result.delivered).resolves.toMatchObject({
+        status: 'sent',
+        webhookName: 'errors',
+        messageName: 'spaces/recorded/messages/1',
+      });
+    });
+
+    it('should reject delivery promise when batch send fails', async () => {
+      const notifier = createNotifier(
+        new RecordingTransport().respondWith({ status: 403, statusText: 'Forbidden' }),
+        { batchEnabled: true, batchSize: 100, batchIntervalMs: 60000, onError: jest.fn() },
+      );
+
+      const result = await notifier.notify(payload);
+      await notifier.flush();
+
+      if (result.status !== 'queued') throw new Error('expected queued');
+      await expect(result.delivered).rejects.toThrow('HTTP 403: Forbidden');
+    });
+
+    it('should reject delivery promise when destroyed without flush', async () => {
+      const notifier = createNotifier(new RecordingTransport(), {
+        batchEnabled: true,
+        batchSize: 100,
+        batchIntervalMs: 60000,
+        batchFlushOnDestroy: false,
+      });
+
+      const result = await notifier.notify(payload);
+      await notifier.destroy();
+
+      if (result.status !== 'queued') throw new Error('expected queued');
+      await expect(result.delivered).rejects.toThrow('Batch destroyed before item was sent');
+    });
+
+    it('should send items queued during an in-flight flush before destroy resolves', async () => {
+      const transport = new RecordingTransport();
+      const gate = createDeferred<void>();
+      const slowTransport: Transport = {
+        send: async (request) => {
+          await gate.promise;
+          return transport.send(request);
+        },
+      };
+      const store = new MemoryIdempotencyStore();
+      const releaseSpy = jest.spyOn(store, 'release');
+      const notifier = createNotifier(transport, {
+        transport: slowTransport,
+        idempotencyStore: store,
+        batchEnabled: true,
+        batchSize: 100,
+        batchIntervalMs: 60000,
+      });
+
+      const first = await notifier.notify({ ...payload, object: 'a.csv' });
+      const flushing = notifier.flush();
+      const second = await notifier.notify({ ...payload, object: 'b.csv' });
+      const destroyed = notifier.destroy();
+      gate.resolve();
+      await Promise.all([flushing, destroyed]);
+
+      if (first.status !== 'queued' || second.status !== 'queued') {
+        throw new Error('expected queued');
+      }
+      await expect(first.delivered).resolves.toMatchObject({ status: 'sent' });
+      await expect(second.delivered).resolves.toMatchObject({ status: 'sent' });
+      expect(transport.requests).toHaveLength(2);
+      expect(releaseSpy).not.toHaveBeenCalled();
+      await store.destroy();
+    });
+  });
+
+  describe('batch aggregation', () => {
+    const batchOptions = { batchEnabled: true, batchSize: 100, batchIntervalMs: 60000 };
+
+    it('should pack items of the same webhook into one message', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport, batchOptions);
+      // Same file = same thread, so every card fits the same message
+      const results = await Promise.all(
+        ['UPLOADED', 'PROCESSING', 'PROCESSED'].map((event) =>
+          notifier.notify({ ...payload, event: event as TombamentoPayload['event'] }),
+        ),
+      );
+
+      await notifier.flush();
+
+      expect(transport.requests).toHaveLength(1);
+      expect(transport.lastRequest?.payload.cardsV2).toHaveLength(3);
+      for (const result of results) {
+        if (result.status !== 'queued') throw new Error('expected queued');
+        await expect(result.delivered).resolves.toMatchObject({
+          messageName: 'spaces/recorded/messages/1',
+        });
+      }
+    });
+
+    it('should send separate messages per webhook and per thread', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport, batchOptions);
+
+      await notifier.notify({ ...payload, object: 'a.csv' });
+      await notifier.notify({ ...payload, object: 'a.csv', event: 'PROCESSED' });
+      await notifier.notify({ ...payload, object: 'b.csv' });
+      await notifier.notify({ ...payload, object: 'a.csv', event: 'FAILED' }, 'errors');
+
+      await notifier.flush();
+
+      expect(transport.requests).toHaveLength(3);
+      const sizes = transport.requests.map((r) => r.payload.cardsV2.length).sort();
+      expect(sizes).toEqual([1, 1, 2]);
+    });
+
+    it('should only split by thread for Google Chat webhooks', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport, {
+        ...batchOptions,
+        idempotencyEnabled: false,
+        webhooks: {
+          errors: ERRORS_URL,
+          slack: { url: 'https://hooks.slack.com/services/T000/B000/XXXX', platform: 'slack' },
+        },
+      });
+      const files = ['a.csv', 'b.csv', 'c.csv'];
+
+      // TombamentoSchema: one thread per file
+      for (const object of files) {
+        await notifier.notify({ ...payload, object }, 'errors');
+        await notifier.notify({ ...payload, object }, 'slack');
+      }
+      await notifier.flush();
+
+      const byWebhook = (name: string) =>
+        transport.requests.filter((request) => request.webhookName === name);
+      expect(byWebhook('errors')).toHaveLength(3);
+      expect(byWebhook('slack')).toHaveLength(1);
+      expect(byWebhook('slack')[0].payload.cardsV2).toHaveLength(3);
+    });
+
+    it('should build a digest card when configured', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport, { ...batchOptions, batchAggregation: 'digest' });
+
+      await notifier.notify(payload);
+      await notifier.notify({ ...payload, event: 'PROCESSING' });
+      await notifier.notify({ ...payload, event: 'PROCESSED' });
+      await notifier.flush();
+
+      expect(transport.requests).toHaveLength(1);
+      const digest = transport.lastRequest?.payload.cardsV2;
+      expect(digest).toHaveLength(1);
+      expect(digest?.[0].card.header?.title).toContain('3 notificações');
+      expect(digest?.[0].card.sections).toHaveLength(3);
+    });
+
+    it('should combine different files into one digest without thread', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport, { ...batchOptions, batchAggregation: 'digest' });
+
+      for (const object of ['a.csv', 'b.csv', 'c.csv']) {
+        await notifier.notify({ ...payload, object });
+      }
+      await notifier.flush();
+
+      expect(transport.requests).toHaveLength(1);
+      expect(transport.lastRequest?.payload.thread).toBeUndefined();
+      expect(transport.lastRequest?.url).toBe(DEFAULT_URL);
+    });
+
+    it('should pack within Slack and Discord limits without dropping items', async () => {
+      const transport = new RecordingTransport();
+      // Header + 5 blocks per item, each with a unique marker
+      const schema: EventSchema<{ id: number; size: number }> = {
+        name: 'jobs',
+        buildCard: ({ id, size }) => ({
+          cards: [
+            {
+              title: `Job ${id}`,
+              sections: [
+                {
+                  blocks: Array.from({ length: 5 }, (_, block) => ({
+                    type: 'text' as const,
+                    text: `item-${id}-${block} ${'x'.repeat(size)}`,
+                  })),
+                },
+              ],
+            },
+          ],
+        }),
+      };
+      const notifier = new NotifierImpl(schema, {
+        transport,
+        ...batchOptions,
+        webhooks: {
+          slack: { url: 'https://hooks.slack.com/services/T000/B000/XXXX', platform: 'slack' },
+          discord: { url: 'https://discord.com/api/webhooks/1/abc', platform: 'discord' },
+        },
+      });
+
+      const results = [
+        ...Array.from({ length: 10 }, (_, id) => notifier.notify({ id, size: 0 }, 'slack')),
+        ...Array.from({ length: 12 }, (_, id) => notifier.notify({ id, size: 200 }, 'discord')),
+      ];
+      await Promise.all(results);
+      await notifier.flush();
+      await notifier.destroy();
+
+      const bodies = (name: string) =>
+        transport.requests
+          .filter((request) => request.webhookName === name)
+          .map((request) => JSON.stringify(request.body));
+      // Slack: 10 x 6 blocks + dividers > 50 blocks; Discord: 6000 characters per message
+      expect(bodies('slack')).toHaveLength(2);
+      expect(bodies('discord').length).toBeGreaterThanOrEqual(3);
+      for (const id of Array.from({ length: 10 }, (_, i) => i)) {
+        expect(bodies('slack').join()).toContain(`item-${id}-4`);
+      }
+      for (const id of Array.from({ length: 12 }, (_, i) => i)) {
+        expect(bodies('discord').join()).toContain(`item-${id}-4`);
+      }
+      for (const result of await Promise.all(results)) {
+        if (result.status !== 'queued') throw new Error('expected queued');
+        await expect(result.delivered).resolves.toMatchObject({ status: 'sent' });
+      }
+    });
+
+    it('should keep one message per item when aggregation is none', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport, { ...batchOptions, batchAggregation: 'none' });
+
+      await notifier.notify(payload);
+      await notifier.notify({ ...payload, event: 'PROCESSED' });
+      await notifier.flush();
+
+      expect(transport.requests).toHaveLength(2);
+    });
+
+    it('should fail every item of a failed message', async () => {
+      const failed = jest.fn();
+      const transport = new RecordingTransport().respondWith({ status: 400, statusText: 'Bad' });
+      const notifier = createNotifier(transport, batchOptions);
+      notifier.on('failed', failed);
+
+      await notifier.notify(payload);
+      await notifier.notify({ ...payload, event: 'PROCESSED' });
+      await notifier.flush();
+
+      expect(transport.requests).toHaveLength(1);
+      expect(failed).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('should queue sends beyond the burst and report queue depth', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport, { rateLimitPerSecond: 50, rateLimitBurst: 1 });
+
+      const sends = ['a.csv', 'b.csv', 'c.csv'].map((object) =>
+        notifier.notify({ ...payload, object }),
+      );
+      // Let the idempotency checks settle so every send reaches the limiter
+      await new Promise(setImmediate);
+
+      expect(transport.requests).toHaveLength(1);
+      expect(notifier.getRateLimitQueueDepth()).toBe(2);
+      expect(notifier.getRateLimitQueueDepth('errors')).toBe(0);
+
+      await Promise.all(sends);
+      expect(transport.requests).toHaveLength(3);
+      expect(notifier.getRateLimitQueueDepth()).toBe(0);
+    });
+
+    it('should feed 429 responses back into the limiter', async () => {
+      const penalize = jest.spyOn(RateLimiter.prototype, 'penalize');
+      const transport = new RecordingTransport().rateLimitNext(1, 5);
+      const notifier = createNotifier(transport, { rateLimitPerSecond: 100 });
+
+      await notifier.notify(payload, 'errors');
+
+      expect(penalize).toHaveBeenCalledWith(ERRORS_URL, 5);
+      expect(transport.delivered).toHaveLength(1);
+      penalize.mockRestore();
+    });
+
+    it('should rate limit batch flushes too', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport, {
+        rateLimitPerSecond: 50,
+        rateLimitBurst: 1,
+        batchEnabled: true,
+        batchSize: 100,
+        batchIntervalMs: 60000,
+        batchAggregation: 'none',
+      });
+
+      await notifier.notify({ ...payload, object: 'a.csv' });
+      await notifier.notify({ ...payload, object: 'b.csv' });
+      const flushing = notifier.flush();
+      await Promise.resolve();
+
+      expect(notifier.getRateLimitQueueDepth()).toBe(1);
+      await flushing;
+      expect(transport.requests).toHaveLength(2);
+    });
+
+    it('should report zero queue depth without rate limiting', () => {
+      const notifier = createNotifier(new RecordingTransport());
+
+      expect(notifier.getRateLimitQueueDepth()).toBe(0);
+    });
+
+    it('should report queue depth through createTombamentoNotifier', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createTombamentoNotifier({
+        transport,
+        rateLimitPerSecond: 50,
+        rateLimitBurst: 1,
+      });
+
+      const sends = [notifier.uploaded(payload), notifier.processing(payload)];
+      await new Promise(setImmediate);
+
+      expect(notifier.getRateLimitQueueDepth()).toBe(1);
+      await Promise.all(sends);
+      expect(notifier.getRateLimitQueueDepth()).toBe(0);
+      notifier.destroy();
+    });
+  });
+
+  describe('lifecycle events', () => {
+    it('should emit sent and call onSuccess', async () => {
+      const onSuccess = jest.fn();
+      const sent = jest.fn();
+      const notifier = createNotifier(new RecordingTransport(), { onSuccess });
+      notifier.on('sent', sent);
+
+      await notifier.notify(payload, 'errors');
+
+      expect(onSuccess).toHaveBeenCalledWith(payload);
+      expect(sent).toHaveBeenCalledWith({ payload, webhookName: 'errors', attempts: 1 });
+    });
+
+    it('should emit retrying and failed, and call onError', async () => {
+      const onError = jest.fn();
+      const retrying = jest.fn();
+      const failed = jest.fn();
+      const notifier = createNotifier(new RecordingTransport().failNext('down', 3), {
+        onError,
+        retryMax: 3,
+      });
+      notifier.on('retrying', retrying).on('failed', failed);
+
+      await expect(notifier.notify(payload)).rejects.toThrow('down');
+
+      expect(retrying).toHaveBeenCalledTimes(2);
+      expect(retrying.mock.calls[0][0]).toMatchObject({ attempts: 1, error: expect.any(Error) });
+      expect(failed).toHaveBeenCalledWith(
+        expect.objectContaining({ payload, attempts: 3, error: expect.any(Error) }),
+      );
+      expect(onError).toHaveBeenCalledWith(payload, expect.objectContaining({ message: 'down' }));
+    });
+
+    it('should emit filtered', async () => {
+      const filtered = jest.fn();
+      const notifier = createNotifier(new RecordingTransport(), { level: 'important' });
+      notifier.on('filtered', filtered);
+
+      await notifier.notify({ ...payload, event: 'PROCESSING' });
+
+      expect(filtered).toHaveBeenCalledWith(expect.objectContaining({ attempts: 0 }));
+    });
+
+    it('should emit deduplicated with idempotency key', async () => {
+      const deduplicated = jest.fn();
+      const notifier = createNotifier(new RecordingTransport());
+      notifier.on('deduplicated', deduplicated);
+
+      await notifier.notify(payload);
+      await notifier.notify(payload);
+
+      expect(deduplicated).toHaveBeenCalledWith(
+        expect.objectContaining({
+          idempotencyKey: new TombamentoSchema().getIdempotencyKey(payload),
+        }),
+      );
+    });
+
+    it('should emit queued and failed in batch mode without logging', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const queued = jest.fn();
+      const failed = jest.fn();
+      const notifier = createNotifier(
+        new RecordingTransport().respondWith({ status: 404, statusText: 'Not Found' }),
+        { batchEnabled: true, batchSize: 100, batchIntervalMs: 60000 },
+      );
+      notifier.on('queued', queued).on('failed', failed);
+
+      await notifier.notify(payload);
+      expect(queued).toHaveBeenCalledTimes(1);
+
+      await notifier.flush();
+      expect(failed).toHaveBeenCalledTimes(1);
+      expect(consoleSpy).not.toHaveBeenCalled();
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('metrics', () => {
+    /**
+     * First sample of a metric whose labels include `labels`
+     */
+    function sample(metrics: MetricSnapshot[], name: string, labels: Record<string, string>) {
+      const metric = metrics.find((candidate) => candidate.name === name);
+      return (metric?.samples as Array<{ labels: Record<string, string> }> | undefined)?.find(
+        (candidate) =>
+          Object.entries(labels).every(([label, value]) => candidate.labels[label] === value),
+      );
+    }
+
+    it('should count outcomes by schema, event and webhook', async () => {
+      const transport = new RecordingTransport().respondWith({ status: 503 });
+      const notifier = createNotifier(transport, { level: 'important' });
+      const failed: TombamentoPayload = { ...payload, event: 'FAILED', message: 'boom' };
+
+      await notifier.notify(failed, 'errors');
+      await notifier.notify(failed, 'errors');
+      await notifier.notify({ ...payload, event: 'PROCESSING' });
+      const metrics = notifier.getMetrics();
+
+      const labels = { schema: 'tombamento', event: 'FAILED', webhook: 'errors' };
+      expect(sample(metrics, 'chat_notifier_notifications_total', { outcome: 'sent' })).toEqual({
+        labels: { ...labels, outcome: 'sent' },
+        value: 1,
+      });
+      expect(
+        sample(metrics, 'chat_notifier_notifications_total', { outcome: 'deduplicated' }),
+      ).toMatchObject({ value: 1 });
+      expect(
+        sample(metrics, 'chat_notifier_notifications_total', { outcome: 'filtered' }),
+      ).toMatchObject({ labels: { event: 'PROCESSING', webhook: 'default' }, value: 1 });
+      expect(sample(metrics, 'chat_notifier_retries_total', labels)).toMatchObject({ value: 1 });
+      expect(
+        sample(metrics, 'chat_notifier_http_request_duration_seconds', { status: '503' }),
+      ).toMatchObject({ labels: { webhook: 'errors' }, count: 1 });
+      expect(sample(metrics, 'chat_notifier_idempotency_cache_size', {})).toEqual({
+        labels: { schema: 'tombamento' },
+        value: 1,
+      });
+    });
+
+    it('should report batch queue depth in a shared registry', async () => {
+      const registry = new MetricsRegistry();
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport, {
+        metrics: registry,
+        batchEnabled: true,
+        batchSize: 100,
+        batchIntervalMs: 60000,
+      });
+      await createNotifier(transport, { metrics: registry }).notify(payload, 'errors');
+
+      await notifier.notify(payload);
+      expect(formatPrometheus(registry.snapshot())).toContain(
+        'chat_notifier_batch_queue_depth{schema="tombamento"} 1',
+      );
+
+      await notifier.destroy();
+      const counters = sample(registry.snapshot(), 'chat_notifier_notifications_total', {
+        outcome: 'sent',
+      });
+      expect(counters).toMatchObject({ labels: { webhook: 'errors' }, value: 1 });
+      expect(sample(registry.snapshot(), 'chat_notifier_batch_queue_depth', {})).toBeUndefined();
+    });
+
+    it('should be disabled with metrics: false', async () => {
+      const notifier = createNotifier(new RecordingTransport(), { metrics: false });
+
+      await notifier.notify(payload);
+
+      expect(notifier.getMetrics()).toEqual([]);
+    });
+  });
+
+  describe('logging', () => {
+    function createLogger(): jest.Mocked<Logger> {
+      return { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    }
+
+    it('should route component errors to the injected logger with secrets masked', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const logger = createLogger();
+      const unavailable = () => Promise.reject(new Error('ECONNREFUSED redis://cache?token=T1'));
+      const notifier = createNotifier(new RecordingTransport(), {
+        logger,
+        idempotencyStore: {
+          has: unavailable,
+          reserve: unavailable,
+          set: unavailable,
+          release: () => Promise.resolve(),
+          delete: () => Promise.resolve(),
+        },
+      });
+
+      expect((await notifier.notify(payload)).status).toBe('sent');
+
+      expect(consoleSpy).not.toHaveBeenCalled();
+      expect(logger.error).toHaveBeenCalledWith('Failed to check idempotency store', {
+        key: expect.any(String),
+        error: expect.objectContaining({ message: 'ECONNREFUSED redis://cache?token=***' }),
+      });
+      consoleSpy.mockRestore();
+    });
+
+    it('should log requests at debug level without webhook keys', async () => {
+      const logger = createLogger();
+      const notifier = createNotifier(new RecordingTransport(), { logger });
+
+      await notifier.notify(payload, 'errors');
+
+      expect(logger.debug).toHaveBeenCalledWith('Sending webhook request', {
+        url: expect.stringContaining('/spaces/ERRORS/messages?key=***'),
+        webhook: 'errors',
+        payload: expect.objectContaining({ cardsV2: expect.any(Array) }),
+      });
+      expect(JSON.stringify(logger.debug.mock.calls)).not.toContain('KEY2');
+    });
+  });
+
+  describe('dead-letter queue', () => {
+    it('should store permanently failed notifications', async () => {
+      const store = new MemoryDeadLetterStore<TombamentoPayload>();
+      const notifier = createNotifier(
+        new RecordingTransport().respondWith({ status: 400, statusText: 'Bad Request' }),
+        { deadLetterStore: store },
+      );
+
+      await expect(notifier.notify(payload, 'errors')).rejects.toThrow('HTTP 400');
+
+      const [entry] = await store.list();
+      expect(store.size).toBe(1);
+      expect(entry).toMatchObject({
+        payload,
+        webhookName: 'errors',
+        attempts: 1,
+        error: { name: 'HttpError', status: 400 },
+      });
+      expect(entry.card.cardsV2[0].card.header?.title).toContain('UPLOADED');
+      expect(Number.isNaN(Date.parse(entry.failedAt))).toBe(false);
+    });
+
+    it('should store each item of a failed aggregated batch', async () => {
+      const store = new MemoryDeadLetterStore<TombamentoPayload>();
+      const notifier = createNotifier(
+        new RecordingTransport().respondWith({ status: 404, statusText: 'Not Found' }),
+        {
+          deadLetterStore: store,
+          onError: () => undefined,
+          batchEnabled: true,
+          batchSize: 100,
+          batchIntervalMs: 60000,
+        },
+      );
+
+      await notifier.notify(payload);
+      await notifier.notify({ ...payload, event: 'PROCESSED' });
+      await notifier.flush();
+
+      const entries = await store.list();
+      expect(entries.map((e) => e.payload.event)).toEqual(['UPLOADED', 'PROCESSED']);
+      expect(entries.every((e) => e.card.cardsV2.length === 1)).toBe(true);
+    });
+
+    it('should replay dead letters and remove delivered entries', async () => {
+      const store = new MemoryDeadLetterStore<TombamentoPayload>();
+      const transport = new RecordingTransport().respondWith({ status: 500 }, 2);
+      const notifier = createNotifier(transport, { deadLetterStore: store, retryMax: 2 });
+
+      await expect(notifier.notify(payload)).rejects.toThrow();
+      expect(store.size).toBe(1);
+
+      const result = await notifier.replayDeadLetters();
+
+      expect(result).toEqual({ replayed: 1, failed: 0, skipped: 0 });
+      expect(store.size).toBe(0);
+      expect(transport.lastRequest?.payload.cardsV2[0].card.header?.title).toContain('UPLOADED');
+    });
+
+    it('should keep entries that fail again with accumulated attempts', async () => {
+      const store = new MemoryDeadLetterStore<TombamentoPayload>();
+      const transport = new RecordingTransport().respondWith({ status: 500 }, 4);
+      const notifier = createNotifier(transport, { deadLetterStore: store, retryMax: 2 });
+
+      await expect(notifier.notify(payload)).rejects.toThrow();
+      const [before] = await store.list();
+
+      const result = await notifier.replayDeadLetters();
+
+      const entries = await store.list();
+      expect(result).toEqual({ replayed: 0, failed: 1, skipped: 0 });
+      expect(entries).toHaveLength(1);
+      expect(entries[0].id).toBe(before.id);
+      expect(entries[0].attempts).toBe(4);
+    });
+
+    it('should skip entries already delivered by another path', async () => {
+      const store = new MemoryDeadLetterStore<TombamentoPayload>();
+      const transport = new RecordingTransport().respondWith({ status: 400 });
+      const notifier = createNotifier(transport, { deadLetterStore: store });
+
+      await expect(notifier.notify(payload)).rejects.toThrow();
+      await notifier.notify(payload);
+
+      const result = await notifier.replayDeadLetters();
+
+      expect(result).toEqual({ replayed: 0, failed: 0, skipped: 1 });
+      expect(store.size).toBe(0);
+      expect(transport.requests).toHaveLength(2);
+    });
+
+    it('should honor filter and limit', async () => {
+      const store = new MemoryDeadLetterStore<TombamentoPayload>();
+      const transport = new RecordingTransport().respondWith({ status: 400 }, 3);
+      const notifier = createNotifier(transport, { deadLetterStore: store });
+
+      for (const object of ['a.csv', 'b.csv', 'c.csv']) {
+        await expect(notifier.notify({ ...payload, object })).rejects.toThrow();
+      }
+
+      const result = await notifier.replayDeadLetters({
+        filter: (entry) => entry.payload.object !== 'a.csv',
+        limit: 1,
+      });
+
+      expect(result.replayed).toBe(1);
+      expect((await store.list()).map((e) => e.payload.object)).toEqual(['a.csv', 'c.csv']);
+    });
+  });
+
+  describe('durable batch queue', () => {
+    const batchOptions = { batchEnabled: true, batchSize: 100, batchIntervalMs: 60000 };
+    let dir: string;
+    let batchWalPath: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(join(tmpdir(), 'chat-notifier-wal-'));
+      batchWalPath = join(dir, 'batch.wal');
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should send items queued before a crash on next start', async () => {
+      const crashed = createNotifier(new RecordingTransport(), {
+        ...batchOptions,
+        batchWalPath,
+        batchFlushOnDestroy: false,
+      });
+      await crashed.notify({ ...payload, object: 'a.csv' });
+      await crashed.notify({ ...payload, object: 'b.csv' }, 'errors');
+      await crashed.destroy().catch(() => undefined);
+
+      const transport = new RecordingTransport();
+      const restarted = createNotifier(transport, { ...batchOptions, batchWalPath });
+      await restarted.flush();
+
+      expect(transport.requests.map((r) => r.webhookName)).toEqual([undefined, 'errors']);
+      await restarted.destroy();
+      expect(await fs.readFile(batchWalPath, 'utf8')).toBe('');
+    });
+
+    it('should keep failed items for recovery', async () => {
+      const notifier = createNotifier(
+        new RecordingTransport().respondWith({ status: 500 }, 3),
+        { ...batchOptions, batchWalPath, onError: () => undefined },
+      );
+      await notifier.notify(payload);
+      await notifier.flush();
+
+      const transport = new RecordingTransport();
+      const restarted = createNotifier(transport, { ...batchOptions, batchWalPath });
+      await restarted.flush();
+
+      expect(transport.requests).toHaveLength(1);
+    });
+
+    it('should acknowledge dead-lettered items', async () => {
+      const store = new MemoryDeadLetterStore<TombamentoPayload>();
+      const notifier = createNotifier(
+        new RecordingTransport().respondWith({ status: 400 }),
+        { ...batchOptions, batchWalPath, deadLetterStore: store, onError: () => undefined },
+      );
+      await notifier.notify(payload);
+      await notifier.flush();
+
+      const transport = new RecordingTransport();
+      const restarted = createNotifier(transport, { ...batchOptions, batchWalPath });
+      await restarted.flush();
+
+      expect(store.size).toBe(1);
+      expect(transport.requests).toHaveLength(0);
+    });
+  });
+
+  describe('card validation', () => {
+    // Renders one widget per line, so big reports exceed a single message
+    const reportSchema: EventSchema<{ lines: number }> = {
+      name: 'report',
+      buildCard: ({ lines }) => ({
+        cardsV2: [
+          {
+            cardId: 'report',
+            card: {
+              header: { title: 'Report' },
+              sections: [
+                {
+                  widgets: Array.from({ length: lines }, (_, i) => ({
+                    textParagraph: { text: `${i}:${'a'.repeat(1000)}` },
+                  })),
+                },
+              ],
+            },
+          },
+        ],
+      }),
+      getThreadKey: () => 'report-thread',
+    };
+
+    function createReportNotifier(
+      transport: RecordingTransport,
+      options: NotifierOptions<{ lines: number }> = {},
+    ): NotifierImpl<{ lines: number }> {
+      return new NotifierImpl(reportSchema, { transport, retryBaseMs: 1, ...options });
+    }
+
+    it('should reject invalid cards in strict mode without sending', async () => {
+      const transport = new RecordingTransport();
+      const failed = jest.fn();
+      const notifier = createNotifier(transport, { maxMessage: 10000 });
+      notifier.on('failed', failed);
+
+      await expect(notifier.notify({ ...payload, message: 'a'.repeat(6000) })).rejects.toThrow(
+        CardValidationError,
+      );
+
+      expect(transport.requests).toHaveLength(0);
+      expect(failed).toHaveBeenCalledWith(expect.objectContaining({ attempts: 0 }));
+    });
+
+    it('should truncate long texts in lenient mode', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport, { maxMessage: 10000, cardValidation: 'lenient' });
+
+      await notifier.notify({ ...payload, message: 'a'.repeat(6000) });
+
+      expect(transport.requests).toHaveLength(1);
+      expect(JSON.stringify(transport.lastRequest?.payload)).not.toContain('a'.repeat(6000));
+    });
+
+    it('should send cards as rendered when validation is off', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport, { maxMessage: 10000, cardValidation: 'off' });
+
+      await notifier.notify({ ...payload, message: 'a'.repeat(6000) });
+
+      expect(JSON.stringify(transport.lastRequest?.payload)).toContain('a'.repeat(6000));
+    });
+
+    it('should send split cards as continuation messages in the same thread', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createReportNotifier(transport, { cardValidation: 'lenient' });
+
+      const result = await notifier.notify({ lines: 60 });
+      await notifier.destroy();
+
+      expect(result).toMatchObject({ status: 'sent', attempts: transport.requests.length });
+      expect(transport.requests.length).toBeGreaterThan(1);
+      transport.requests.forEach((request) => {
+        expect(request.payload.thread?.threadKey).toBe('report-thread');
+        expect(request.url).toContain('messageReplyOption=');
+      });
+      const texts = transport.requests.flatMap((request) =>
+        request.payload.cardsV2.flatMap((entry) =>
+          entry.card.sections.flatMap((section) =>
+            section.widgets.map((widget) =>
+              'textParagraph' in widget ? widget.textParagraph.text.split(':')[0] : '',
+            ),
+          ),
+        ),
+      );
+      expect(texts).toEqual(Array.from({ length: 60 }, (_, i) => String(i)));
+    });
+
+    it('should dead-letter only the parts that were not sent', async () => {
+      const store = new MemoryDeadLetterStore<{ lines: number }>();
+      const transport = new RecordingTransport()
+        .respondWith({ status: 200 })
+        .respondWith({ status: 400, statusText: 'Bad Request' });
+      const notifier = createReportNotifier(transport, {
+        cardValidation: 'lenient',
+        deadLetterStore: store,
+      });
+
+      await expect(notifier.notify({ lines: 60 })).rejects.toThrow('HTTP 400');
+      const sentParts = transport.requests.length;
+      const [entry] = await store.list();
+      expect(entry.attempts).toBe(2);
+      expect(entry.card).toEqual(transport.requests[1].payload);
+
+      await notifier.replayDeadLetters();
+      await notifier.destroy();
+
+      expect(store.size).toBe(0);
+      expect(transport.requests.length).toBe(sentParts + 1 + (entry.continuations?.length ?? 0));
+      expect(transport.requests[sentParts].payload).toEqual(entry.card);
+    });
+
+    it('should send split cards on their own in batch mode', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createReportNotifier(transport, {
+        cardValidation: 'lenient',
+        batchEnabled: true,
+        batchSize: 100,
+        batchIntervalMs: 60000,
+      });
+
+      const small = await notifier.notify({ lines: 1 });
+      const big = await notifier.notify({ lines: 60 });
+      await notifier.flush();
+      await notifier.destroy();
+
+      if (small.status !== 'queued' || big.status !== 'queued') {
+        throw new Error('expected queued results');
+      }
+      await expect(small.delivered).resolves.toMatchObject({ attempts: 1 });
+      await expect(big.delivered).resolves.toMatchObject({ status: 'sent' });
+      expect(transport.requests.length).toBeGreaterThan(2);
+    });
+  });
+
+  describe('routing rules', () => {
+    const ACME_URL = 'https://chat.googleapis.com/v1/spaces/ACME/messages?key=KEY3';
+    const routes = [
+      { when: { event: 'FAILED' }, webhooks: ['errors', 'partner-acme'] },
+      { when: { partner: 'ACME' }, webhooks: 'partner-acme' },
+    ];
+    const failed: TombamentoPayload = { ...payload, event: 'FAILED', message: 'boom' };
+
+    it('should route by the first matching rule', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport, {
+        webhooks: { errors: ERRORS_URL, 'partner-acme': ACME_URL },
+        routes,
+      });
+
+      const result = await notifier.notify(payload);
+
+      expect(result).toMatchObject({ status: 'sent', webhookName: 'partner-acme' });
+      expect(transport.requests.map((request) => request.webhookName)).toEqual(['partner-acme']);
+    });
+
+    it('should fan out to every destination with per-target results', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport, {
+        webhooks: { errors: ERRORS_URL, 'partner-acme': ACME_URL },
+        routes,
+        routingMode: 'all-match',
+      });
+
+      const result = await notifier.notify(failed);
+
+      expect(result).toMatchObject({
+        status: 'fanout',
+        results: [
+          { status: 'sent', webhookName: 'errors', attempts: 1 },
+          { status: 'sent', webhookName: 'partner-acme', attempts: 1 },
+        ],
+      });
+      expect(transport.requests.map((request) => request.webhookName).sort()).toEqual([
+        'errors',
+        'partner-acme',
+      ]);
+    });
+
+    it('should keep delivering other targets when one fails', async () => {
+      const store = new MemoryDeadLetterStore<TombamentoPayload>();
+      const transport = new RecordingTransport().respondWith({ status: 400 });
+      const notifier = createNotifier(transport, {
+        webhooks: { errors: ERRORS_URL, 'partner-acme': ACME_URL },
+        routes,
+        deadLetterStore: store,
+        onError: () => undefined,
+      });
+
+      const result = await notifier.notify(failed);
+
+      expect(result.status).toBe('fanout');
+      const [errors, acme] = (result as NotifyFanOutResult).results;
+      expect(errors).toMatchObject({ status: 'failed', webhookName: 'errors' });
+      expect((errors as NotifyFailedResult).error.message).toContain('HTTP 400');
+      expect(acme).toMatchObject({ status: 'sent', webhookName: 'partner-acme' });
+      expect((await store.list()).map((entry) => entry.webhookName)).toEqual(['errors']);
+    });
+
+    it('should deduplicate each target independently', async () => {
+      const transport = new RecordingTransport().respondWith({ status: 400 });
+      const notifier = createNotifier(transport, {
+        webhooks: { errors: ERRORS_URL, 'partner-acme': ACME_URL },
+        routes,
+        onError: () => undefined,
+      });
+
+      await notifier.notify(failed);
+      const retry = (await notifier.notify(failed)) as NotifyFanOutResult;
+
+      // Only the target that failed is sent again
+      expect(retry.results).toMatchObject([
+        { status: 'sent', webhookName: 'errors' },
+        { status: 'duplicate', webhookName: 'partner-acme' },
+      ]);
+      expect(
+        transport.requests.filter((request) => request.webhookName === 'partner-acme'),
+      ).toHaveLength(1);
+    });
+
+    it('should queue one item per target in batch mode', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport, {
+        webhooks: { errors: ERRORS_URL, 'partner-acme': ACME_URL },
+        routes,
+        batchEnabled: true,
+        batchSize: 100,
+        batchIntervalMs: 60000,
+      });
+
+      const result = (await notifier.notify(failed)) as NotifyFanOutResult;
+      await notifier.flush();
+
+      expect(result.results.map((target) => target.status)).toEqual(['queued', 'queued']);
+      await expect(
+        Promise.all(result.results.map((target) => (target as NotifyQueuedResult).delivered)),
+      ).resolves.toMatchObject([{ webhookName: 'errors' }, { webhookName: 'partner-acme' }]);
+    });
+
+    it('should let the explicit webhook name bypass the rules', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport, {
+        webhooks: { errors: ERRORS_URL, 'partner-acme': ACME_URL },
+        routes,
+      });
+
+      await notifier.notify(failed, 'errors');
+
+      expect(transport.requests.map((request) => request.webhookName)).toEqual(['errors']);
+    });
+
+    it('should fall back to schema routing when no rule matches', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport, {
+        routes: [{ when: { partner: 'OTHER' }, webhooks: 'errors' }],
+      });
+
+      await notifier.notify(payload);
+
+      expect(transport.requests).toHaveLength(1);
+      expect(transport.requests[0].webhookName).toBeUndefined();
+      expect(transport.requests[0].url.startsWith(DEFAULT_URL)).toBe(true);
+    });
+  });
+
+  describe('webhook groups and aliases', () => {
+    const ONCALL_URL = 'https://chat.googleapis.com/v1/spaces/ONCALL/messages?key=KEY3';
+
+    it('should deliver to every member of a group', async () => {
+      const transport = new RecordingTransport().respondWith({ status: 400 });
+      const notifier = createNotifier(transport, {
+        webhooks: { errors: ERRORS_URL, oncall: ONCALL_URL },
+        webhookGroups: { ops: ['alerts', 'oncall'] },
+        webhookAliases: { alerts: 'errors' },
+        onError: () => undefined,
+      });
+
+      const result = (await notifier.notify(payload, 'ops')) as NotifyFanOutResult;
+
+      expect(result.status).toBe('fanout');
+      expect(result.results.map((target) => [target.status, target.webhookName])).toEqual([
+        ['failed', 'errors'],
+        ['sent', 'oncall'],
+      ]);
+
+      // Keys are scoped per member: only the failed one is sent again
+      const retry = await notifier.notify(payload, 'ops');
+      expect(retry).toMatchObject({
+        results: [
+          { status: 'sent', webhookName: 'errors' },
+          { status: 'duplicate', webhookName: 'oncall' },
+        ],
+      });
+      expect(notifier.getWebhookGroups()).toEqual({
+        alerts: ['errors'],
+        ops: ['errors', 'oncall'],
+      });
+    });
+
+    it('should expand aliases and groups named by routing rules', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport, {
+        webhooks: { errors: ERRORS_URL, oncall: ONCALL_URL },
+        webhookGroups: { ops: ['errors', 'oncall'] },
+        webhookAliases: { alerts: 'errors' },
+        routes: [{ when: { event: 'FAILED' }, webhooks: ['alerts', 'ops'] }],
+        webhookResolution: 'strict',
+      });
+
+      const result = await notifier.notify({ ...payload, event: 'FAILED', message: 'boom' });
+      const single = await notifier.notify({ ...payload, object: 'other.csv' }, 'alerts');
+
+      expect(result).toMatchObject({
+        status: 'fanout',
+        results: [{ webhookName: 'errors' }, { webhookName: 'oncall' }],
+      });
+      expect(single).toMatchObject({ status: 'sent', webhookName: 'errors' });
+      expect(transport.requests).toHaveLength(3);
+    });
+
+    it('should list names and groups through createTombamentoNotifier', () => {
+      const notifier = createTombamentoNotifier({
+        transport: new RecordingTransport(),
+        webhooks: { errors: ERRORS_URL, oncall: ONCALL_URL },
+        webhookGroups: { ops: ['alerts', 'oncall'] },
+        webhookAliases: { alerts: 'errors' },
+      });
+
+      expect(notifier.getWebhookNames()).toEqual(['errors', 'oncall', 'alerts', 'ops']);
+      expect(notifier.getWebhookGroups()).toEqual({
+        alerts: ['errors'],
+        ops: ['errors', 'oncall'],
+      });
+      notifier.destroy();
+    });
+  });
+
+  describe('circuit breaker', () => {
+    const GENERAL_URL = 'https://chat.googleapis.com/v1/spaces/GENERAL/messages?key=KEY3';
+    const SLACK_URL = 'https://hooks.slack.com/services/T000/B000/XXXX';
+
+    it('should fail fast while a webhook circuit is open', async () => {
+      const store = new MemoryDeadLetterStore<TombamentoPayload>();
+      const transport = new RecordingTransport().respondWith({ status: 503 }, 2);
+      const notifier = createNotifier(transport, {
+        retryMax: 1,
+        circuitBreaker: { failureThreshold: 2 },
+        deadLetterStore: store,
+        onError: () => undefined,
+      });
+      const changes: CircuitEvent[] = [];
+      notifier.on('circuit', (event) => changes.push(event));
+
+      for (const object of ['a.csv', 'b.csv']) {
+        await expect(notifier.notify({ ...payload, object }, 'errors')).rejects.toThrow('503');
+      }
+      const error = await notifier.notify({ ...payload, object: 'c.csv' }, 'errors').catch(
+        (reason: unknown) => reason,
+      );
+
+      expect(error).toBeInstanceOf(CircuitOpenError);
+      expect((error as CircuitOpenError).webhookName).toBe('errors');
+      expect(transport.requests).toHaveLength(2);
+      expect((await store.list()).map((entry) => [entry.error.name, entry.attempts])).toEqual([
+        ['HttpError', 1],
+        ['HttpError', 1],
+        ['CircuitOpenError', 0],
+      ]);
+      expect(changes).toEqual([{ webhookName: 'errors', state: 'open', previousState: 'closed' }]);
+
+      // Other webhooks keep their own circuit
+      expect(notifier.getCircuitState('errors')).toBe('open');
+      expect((await notifier.notify(payload)).status).toBe('sent');
+    });
+
+    it('should reroute to the fallback webhook while the circuit is open', async () => {
+      const transport = new RecordingTransport().respondWith({ status: 503 }, 5);
+      const notifier = createNotifier(transport, {
+        webhooks: { errors: { url: ERRORS_URL, fallback: 'general' }, general: GENERAL_URL },
+        retryMax: 1,
+        onError: () => undefined,
+      });
+
+      // On by default when a fallback is configured: opens after 5 failed deliveries
+      for (const object of ['1', '2', '3', '4', '5']) {
+        await expect(notifier.notify({ ...payload, object }, 'errors')).rejects.toThrow('503');
+      }
+      const result = await notifier.notify({ ...payload, object: '6' }, 'errors');
+
+      expect(result).toMatchObject({
+        status: 'sent',
+        webhookName: 'errors',
+        attempts: 1,
+        fallbackWebhook: 'general',
+      });
+      expect(transport.lastRequest?.webhookName).toBe('general');
+    });
+
+    it('should close again after a successful trial', async () => {
+      const transport = new RecordingTransport().respondWith({ status: 500 });
+      const notifier = createNotifier(transport, {
+        retryMax: 1,
+        circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 0 },
+        onError: () => undefined,
+      });
+      const states: string[] = [];
+      notifier.on('circuit', (event) => states.push(event.state));
+
+      await expect(notifier.notify(payload, 'errors')).rejects.toThrow('500');
+      expect((await notifier.notify(payload, 'errors')).status).toBe('sent');
+
+      expect(states).toEqual(['open', 'half-open', 'closed']);
+      expect(notifier.getCircuitState('errors')).toBe('closed');
+    });
+
+    it('should not count rejected cards against the webhook', async () => {
+      const transport = new RecordingTransport().respondWith({ status: 400 }, 3);
+      const notifier = createNotifier(transport, {
+        circuitBreaker: { failureThreshold: 1 },
+        onError: () => undefined,
+      });
+
+      for (const object of ['a.csv', 'b.csv', 'c.csv']) {
+        await expect(notifier.notify({ ...payload, object }, 'errors')).rejects.toThrow('400');
+      }
+
+      expect(transport.requests).toHaveLength(3);
+      expect(notifier.getCircuitState('errors')).toBe('closed');
+    });
+
+    it('should keep a half-open circuit when the renderer rejects the card', async () => {
+      const transport = new RecordingTransport().respondWith({ status: 503 });
+      const textSchema: EventSchema<{ blocks: number }> = {
+        name: 'report',
+        buildCard: ({ blocks }) => ({
+          cards: [
+            {
+              title: 'Report',
+              sections: [
+                { blocks: Array.from({ length: blocks }, () => ({ type: 'text', text: 'line' })) },
+              ],
+            },
+          ],
+        }),
+      };
+      const notifier = new NotifierImpl(textSchema, {
+        transport,
+        webhooks: { slack: { url: SLACK_URL, platform: 'slack' } },
+        retryMax: 1,
+        retryBaseMs: 1,
+        circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 0 },
+        onError: () => undefined,
+      });
+      const states: string[] = [];
+      notifier.on('circuit', (event) => states.push(event.state));
+
+      await expect(notifier.notify({ blocks: 1 }, 'slack')).rejects.toThrow('503');
+      await expect(notifier.notify({ blocks: 60 }, 'slack')).rejects.toThrow(CardValidationError);
+
+      expect(states).toEqual(['open', 'half-open']);
+      expect(notifier.getCircuitState('slack')).toBe('half-open');
+
+      // The trial slot was released: the next delivery is the trial
+      expect((await notifier.notify({ blocks: 2 }, 'slack')).status).toBe('sent');
+      expect(states).toEqual(['open', 'half-open', 'closed']);
+      await notifier.destroy();
+    });
+
+    it('should share one circuit between a webhook and its aliases', async () => {
+      const transport = new RecordingTransport().respondWith({ status: 503 });
+      const notifier = createNotifier(transport, {
+        webhooks: { errors: ERRORS_URL, general: GENERAL_URL },
+        webhookAliases: { alerts: 'errors' },
+        webhookGroups: { ops: ['errors', 'general'] },
+        retryMax: 1,
+        circuitBreaker: { failureThreshold: 1 },
+        onError: () => undefined,
+      });
+
+      await expect(notifier.notify(payload, 'alerts')).rejects.toThrow('503');
+
+      expect(notifier.getCircuitState('alerts')).toBe('open');
+      expect(notifier.getCircuitState('ERRORS')).toBe('open');
+      expect(() => notifier.getCircuitState('ops')).toThrow("'ops' is a webhook group");
+    });
+
+    it('should report circuit state through createTombamentoNotifier', async () => {
+      const notifier = createTombamentoNotifier({
+        transport: new RecordingTransport().respondWith({ status: 503 }),
+        webhooks: { errors: ERRORS_URL },
+        retryMax: 1,
+        circuitBreaker: { failureThreshold: 1 },
+        onError: () => undefined,
+      });
+
+      await expect(notifier.failed({ ...payload, message: 'boom' })).rejects.toThrow('503');
+
+      expect(notifier.getCircuitState()).toBe('open');
+      expect(notifier.getCircuitState('errors')).toBe('closed');
+      notifier.destroy();
+    });
+  });
+
+  describe('webhook resolution', () => {
+    it('should fail sends to unknown webhooks in strict mode', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport, { webhookResolution: 'strict' });
+      const failed = jest.fn();
+      notifier.on('failed', failed);
+
+      await expect(notifier.notify(payload, 'erros')).rejects.toThrow(WebhookNotFoundError);
+
+      expect(transport.requests).toHaveLength(0);
+      expect(failed).toHaveBeenCalledWith(
+        expect.objectContaining({ webhookName: 'erros', attempts: 0 }),
+      );
+    });
+
+    it('should validate schema and routing webhook names at startup', () => {
+      const schema = Object.assign(new TombamentoSchema(), { webhookNames: ['errors', 'alerts'] });
+
+      expect(
+        () =>
+          new NotifierImpl(schema, {
+            transport: new RecordingTransport(),
+            webhooks: { errors: ERRORS_URL },
+            webhookResolution: 'strict',
+          }),
+      ).toThrow("Webhook 'alerts' not configured");
+      expect(
+        () =>
+          new NotifierImpl(new TombamentoSchema(), {
+            transport: new RecordingTransport(),
+            webhooks: { errors: ERRORS_URL },
+            webhookResolution: 'strict',
+            routes: [{ when: { event: 'FAILED' }, webhooks: ['errors', 'oncall'] }],
+          }),
+      ).toThrow("Webhook 'oncall' not configured");
+    });
+  });
+
+  describe('multi-channel delivery', () => {
+    const TEAMS_URL = 'https://acme.webhook.office.com/webhookb2/abc/IncomingWebhook/def';
+    const SLACK_URL = 'https://hooks.slack.com/services/T000/B000/XXXX';
+
+    it('should render cards for the webhook platform', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport, {
+        webhooks: { ops: { url: TEAMS_URL, platform: 'teams' } },
+      });
+
+      await notifier.notify(payload, 'ops');
+
+      const request = transport.lastRequest;
+      expect(request?.platform).toBe('teams');
+      expect(request?.url).toBe(TEAMS_URL);
+      expect(request?.body).toMatchObject({
+        type: 'message',
+        attachments: [{ contentType: 'application/vnd.microsoft.card.adaptive' }],
+      });
+      // Source card is kept (dead letters, replay)
+      expect(request?.payload.cardsV2[0].card.header?.title).toContain('UPLOADED');
+    });
+
+    it('should keep Google Chat payloads unchanged', async () => {
+      const transport = new RecordingTransport();
+      const notifier = createNotifier(transport);
+
+      await notifier.notify(payload);
+
+      expect(transport.lastRequest?.platform).toBeUndefined();
+      expect(transport.lastRequest?.body).toBeUndefined();
+    });
+
+    it('should deliver neutral schemas to any platform', async () => {
+      const transport = new RecordingTransport();
+      const neutralSchema: EventSchema<{ version: string }> = {
+        name: 'deploy',
+        buildCard: ({ version }) => ({
+          cards: [{ title: 'Deploy', sections: [{ blocks: [{ type: 'text', text: version }] }] }],
+        }),
+      };
+      const notifier = new NotifierImpl(neutralSchema, {
+        transport,
+        webhooks: { slack: { url: SLACK_URL, platform: 'slack' } },
+      });
+
+      await notifier.notify({ version: 'v1.2.3' });
+      await notifier.notify({ version: 'v1.2.4' }, 'slack');
+      await notifier.destroy();
+
+      expect(transport.requests[0].payload.cardsV2[0].card.sections[0].widgets).toEqual([
+        { textParagraph: { text: 'v1.2.3' } },
+      ]);
+      expect(transport.requests[1].body).toMatchObject({
+        text: 'Deploy',
+        blocks: [
+          { type: 'header' },
+          { type: 'section', text: { type: 'mrkdwn', text: 'v1.2.4' } },
+        ],
+      });
+    });
+  });
+
+  describe('secrets provider', () => {
+    function tokenOf(request: { url: string }): string | null {
+      return new URL(request.url).searchParams.get('token');
+    }
+
+    it('should send with cached provider tokens', async () => {
+      const transport = new RecordingTransport();
+      const getToken = jest.fn(async (name: string) => `${name}-token`);
+      const notifier = createNotifier(transport, { secretsProvider: { getToken } });
+
+      await notifier.notify(payload, 'errors');
+      await notifier.notify({ ...payload, object: 'other.csv' }, 'errors');
+      await notifier.notify({ ...payload, object: 'third.csv' }, 'unknown');
+
+      expect(transport.requests.map(tokenOf)).toEqual([
+        'errors-token',
+        'errors-token',
+        'default-token',
+      ]);
+      expect(getToken.mock.calls).toEqual([['errors'], ['default']]);
+    });
+
+    it('should refresh the token and retry once on 401', async () => {
+      const transport = new RecordingTransport().respondWith({ status: 401 });
+      // Token rotated after the first read
+      const getToken = jest.fn().mockResolvedValueOnce('old').mockResolvedValue('new');
+      const notifier = createNotifier(transport, { secretsProvider: { getToken } });
+      const retrying = jest.fn();
+      notifier.on('retrying', retrying);
+
+      const result = await notifier.notify(payload, 'errors');
+
+      expect(result).toMatchObject({ status: 'sent', attempts: 2 });
+      expect(transport.requests.map(tokenOf)).toEqual(['old', 'new']);
+      expect(retrying).toHaveBeenCalledWith(expect.objectContaining({ attempts: 1, delayMs: 0 }));
+    });
+
+    it('should not retry when the refreshed token did not change', async () => {
+      const transport = new RecordingTransport().respondWith({ status: 403 });
+      const getToken = jest.fn(async () => 'same');
+      const notifier = createNotifier(transport, { secretsProvider: { getToken } });
+
+      await expect(notifier.notify(payload, 'errors')).rejects.toThrow();
+      expect(transport.requests).toHaveLength(1);
+      expect(getToken).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('env isolation', () => {
+    it('should keep webhooks and batch settings per instance', async () => {
+      process.env.CHAT_BATCH_ENABLED = 'true';
+      const billingTransport = new RecordingTransport();
+      const billing = createNotifier(billingTransport, {
+        webhooks: undefined,
+        env: {
+          BILLING_WEBHOOK_URL: ERRORS_URL,
+          BILLING_BATCH_ENABLED: 'false',
+          CHAT_BATCH_ENABLED: 'true',
+        },
+        envPrefix: 'BILLING',
+      });
+      const isolatedTransport = new RecordingTransport();
+      const isolated = createNotifier(isolatedTransport, { env: false });
+
+      // CHAT_BATCH_ENABLED is set in process.env: neither instance batches
+      expect((await billing.notify(payload)).status).toBe('sent');
+      expect((await isolated.notify(payload, 'errors')).status).toBe('sent');
+      expect(billingTransport.requests[0].url.startsWith(ERRORS_URL)).toBe(true);
+      expect(isolatedTransport.requests[0].webhookName).toBe('errors');
+      // CHAT_WEBHOOK_URL is not read either: there is no default webhook
+      await expect(isolated.notify({ ...payload, object: 'other.csv' })).rejects.toThrow(
+        'No default webhook configured',
+      );
+    });
+
+    it('should read DEBUG_CHAT_NOTIFIER from the instance env', async () => {
+      const debug = jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+      process.env.DEBUG_CHAT_NOTIFIER = 'true';
+
+      await createNotifier(new RecordingTransport(), { env: false }).notify(payload, 'errors');
+      expect(debug).not.toHaveBeenCalled();
+
+      await createNotifier(new RecordingTransport(), {
+        env: { DEBUG_CHAT_NOTIFIER: 'true' },
+      }).notify(payload, 'errors');
+      expect(debug).toHaveBeenCalledWith('Sending webhook request', expect.any(Object));
+      debug.mockRestore();
+    });
+  });
+});
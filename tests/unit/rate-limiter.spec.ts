@@ -0,0 +1,115 @@
+import { RateLimiter } from '../../src/rate-limiter';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  /**
+   * Acquire and track resolution order (destroy() rejections are ignored)
+   */
+  function track(limiter: RateLimiter, key: string, label: string, done: string[]): Promise<void> {
+    return limiter.acquire(key).then(
+      () => {
+        done.push(label);
+      },
+      () => undefined,
+    );
+  }
+
+  async function flushMicrotasks(): Promise<void> {
+    await Promise.resolve();
+    await Promise.resolve();
+  }
+
+  it('should reject invalid rates', () => {
+    expect(() => new RateLimiter({ ratePerSecond: 0 })).toThrow(
+      'Rate limit must be greater than zero',
+    );
+  });
+
+  it('should allow a burst immediately', async () => {
+    const limiter = new RateLimiter({ ratePerSecond: 1, burst: 3 });
+    const done: string[] = [];
+
+    void track(limiter, 'a', '1', done);
+    void track(limiter, 'a', '2', done);
+    void track(limiter, 'a', '3', done);
+    void track(limiter, 'a', '4', done);
+    await flushMicrotasks();
+
+    expect(done).toEqual(['1', '2', '3']);
+    expect(limiter.queueDepth('a')).toBe(1);
+
+    limiter.destroy();
+  });
+
+  it('should release waiting callers at the configured rate in FIFO order', async () => {
+    const limiter = new RateLimiter({ ratePerSecond: 2, burst: 1 });
+    const done: string[] = [];
+
+    void track(limiter, 'a', '1', done);
+    void track(limiter, 'a', '2', done);
+    void track(limiter, 'a', '3', done);
+    await flushMicrotasks();
+    expect(done).toEqual(['1']);
+
+    jest.advanceTimersByTime(500);
+    await flushMicrotasks();
+    expect(done).toEqual(['1', '2']);
+
+    jest.advanceTimersByTime(500);
+    await flushMicrotasks();
+    expect(done).toEqual(['1', '2', '3']);
+    expect(limiter.queueDepth()).toBe(0);
+  });
+
+  it('should keep independent buckets per key', async () => {
+    const limiter = new RateLimiter({ ratePerSecond: 1, burst: 1 });
+    const done: string[] = [];
+
+    void track(limiter, 'a', 'a1', done);
+    void track(limiter, 'a', 'a2', done);
+    void track(limiter, 'b', 'b1', done);
+    await flushMicrotasks();
+
+    expect(done).toEqual(['a1', 'b1']);
+    expect(limiter.queueDepth('a')).toBe(1);
+    expect(limiter.queueDepth('b')).toBe(0);
+    expect(limiter.queueDepth()).toBe(1);
+
+    limiter.destroy();
+  });
+
+  it('should pause bucket after penalize', async () => {
+    const limiter = new RateLimiter({ ratePerSecond: 10, burst: 5 });
+    const done: string[] = [];
+
+    limiter.penalize('a', 2000);
+    void track(limiter, 'a', '1', done);
+    await flushMicrotasks();
+    expect(done).toEqual([]);
+
+    jest.advanceTimersByTime(1999);
+    await flushMicrotasks();
+    expect(done).toEqual([]);
+
+    jest.advanceTimersByTime(101);
+    await flushMicrotasks();
+    expect(done).toEqual(['1']);
+  });
+
+  it('should reject waiting callers on destroy', async () => {
+    const limiter = new RateLimiter({ ratePerSecond: 1, burst: 1 });
+
+    await limiter.acquire('a');
+    const waiting = limiter.acquire('a');
+    limiter.destroy();
+
+    await expect(waiting).rejects.toThrow('Rate limiter destroyed');
+  });
+});
@@ -0,0 +1,80 @@
+import { RecordingTransport } from '../../src/transports/recording-transport';
+import { HttpError } from '../../src/errors';
+import type { CardPayload } from '../../src/types';
+
+describe('RecordingTransport', () => {
+  const URL = 'https://chat.googleapis.com/v1/spaces/SPACE/messages?key=KEY';
+  const card: CardPayload = {
+    cardsV2: [{ cardId: 'test', card: { sections: [{ widgets: [] }] } }],
+  };
+
+  it('should record requests and return 200 by default', async () => {
+    const transport = new RecordingTransport();
+
+    const response = await transport.send({ url: URL, webhookName: 'errors', payload: card });
+
+    expect(response.status).toBe(200);
+    expect(transport.requests).toEqual([
+      { url: URL, webhookName: 'errors', payload: card, status: 200 },
+    ]);
+    expect(transport.delivered).toHaveLength(1);
+  });
+
+  it('should return a Chat-like message body', async () => {
+    const transport = new RecordingTransport();
+
+    const response = await transport.send({
+      url: URL,
+      payload: { ...card, thread: { threadKey: 'abc' } },
+    });
+
+    expect(JSON.parse(response.body)).toEqual({
+      name: 'spaces/recorded/messages/1',
+      thread: { name: 'spaces/recorded/threads/abc' },
+    });
+  });
+
+  it('should fail next attempts with network-like errors', async () => {
+    const transport = new RecordingTransport().failNext('boom', 2);
+
+    await expect(transport.send({ url: URL, payload: card })).rejects.toThrow('boom');
+    await expect(transport.send({ url: URL, payload: card })).rejects.toThrow('boom');
+    await expect(transport.send({ url: URL, payload: card })).resolves.toMatchObject({
+      status: 200,
+    });
+
+    expect(transport.requests).toHaveLength(3);
+    expect(transport.delivered).toHaveLength(1);
+  });
+
+  it('should simulate 429 with Retry-After', async () => {
+    const transport = new RecordingTransport().rateLimitNext(1, 250);
+
+    const error = await transport.send({ url: URL, payload: card }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect((error as HttpError).status).toBe(429);
+    expect((error as HttpError).retryable).toBe(true);
+    expect((error as HttpError).retryAfterMs).toBe(250);
+    expect(transport.lastRequest?.status).toBe(429);
+  });
+
+  it('should mark scripted 4xx as non-retryable', async () => {
+    const transport = new RecordingTransport().respondWith({ status: 404, statusText: 'Not Found' });
+
+    const error = await transport.send({ url: URL, payload: card }).catch((e: unknown) => e);
+
+    expect((error as HttpError).status).toBe(404);
+    expect((error as HttpError).retryable).toBe(false);
+  });
+
+  it('should reset recorded requests and script', async () => {
+    const transport = new RecordingTransport().failNext();
+
+    transport.reset();
+    await transport.send({ url: URL, payload: card });
+
+    expect(transport.requests).toHaveLength(1);
+    expect(transport.lastRequest?.status).toBe(200);
+  });
+});
@@ -0,0 +1,216 @@
+import { createServer, type Server, type Socket } from 'net';
+import type { AddressInfo } from 'net';
+import { RedisClient, RedisIdempotencyStore } from '../../src/idempotency';
+import { encodeCommand, parseReply } from '../../src/idempotency/redis-client';
+import { RedisError } from '../../src/errors';
+
+/**
+ * Local stand-in for a Redis server: the handful of commands the store uses
+ */
+class FakeRedisServer {
+  readonly commands: string[][] = [];
+  readonly data = new Map<string, { value: string; expiresAt?: number }>();
+  password?: string;
+  private readonly server: Server;
+  private readonly sockets = new Set<Socket>();
+
+  constructor() {
+    this.server = createServer((socket) => this.handle(socket));
+  }
+
+  async start(): Promise<number> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    this.sockets.forEach((socket) => socket.destroy());
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  dropConnections(): void {
+    this.sockets.forEach((socket) => socket.destroy());
+  }
+
+  private handle(socket: Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+
+    let authenticated = this.password === undefined;
+    let buffer = Buffer.alloc(0);
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let parsed = parseReply(buffer, 0);
+      while (parsed) {
+        buffer = buffer.subarray(parsed.offset);
+        const args = parsed.value as string[];
+        this.commands.push(args);
+
+        if (args[0] === 'AUTH') {
+          authenticated = args[1] === this.password;
+          socket.write(authenticated ? '+OK\r\n' : '-WRONGPASS invalid password\r\n');
+        } else if (!authenticated) {
+          socket.write('-NOAUTH Authentication required.\r\n');
+        } else {
+          socket.write(this.execute(args));
+          if (args[0] === 'QUIT') {
+            socket.end();
+          }
+        }
+        parsed = parseReply(buffer, 0);
+      }
+    });
+  }
+
+  private execute([command, key, ...rest]: string[]): string {
+    const entry = key === undefined ? undefined : this.data.get(key);
+    const alive = entry && (entry.expiresAt === undefined || Date.now() < entry.expiresAt);
+
+    switch (command) {
+      case 'SELECT':
+      case 'QUIT':
+        return '+OK\r\n';
+      case 'EXISTS':
+        return `:${alive ? 1 : 0}\r\n`;
+      case 'SET': {
+        const px = rest.indexOf('PX');
+        if (rest.includes('NX') && alive) {
+          return '$-1\r\n';
+        }
+        this.data.set(key, {
+          value: rest[0],
+          expiresAt: px === -1 ? undefined : Date.now() + Number(rest[px + 1]),
+        });
+        return '+OK\r\n';
+      }
+      case 'DEL':
+        return `:${[key, ...rest].filter((k) => this.data.delete(k)).length}\r\n`;
+      default:
+        return `-ERR unknown command '${command}'\r\n`;
+    }
+  }
+}
+
+describe('RedisIdempotencyStore', () => {
+  let server: FakeRedisServer;
+  let port: number;
+  let store: RedisIdempotencyStore | undefined;
+
+  beforeEach(async () => {
+    server = new FakeRedisServer();
+    port = await server.start();
+  });
+
+  afterEach(async () => {
+    await store?.destroy().catch(() => undefined);
+    store = undefined;
+    await server.stop();
+  });
+
+  it('should set, check and delete prefixed keys', async () => {
+    store = new RedisIdempotencyStore({ port });
+
+    await store.set('key1', 60000);
+    expect(await store.has('key1')).toBe(true);
+    expect(server.data.has('chat-notifier:idempotency:key1')).toBe(true);
+
+    await store.delete('key1');
+    expect(await store.has('key1')).toBe(false);
+  });
+
+  it('should reserve with SET NX and commit over a separate key', async () => {
+    store = new RedisIdempotencyStore({ port });
+
+    expect(await store.reserve('key1', 60000)).toBe(true);
+    expect(await store.reserve('key1', 60000)).toBe(false);
+    expect(server.data.has('chat-notifier:idempotency:pending:key1')).toBe(true);
+
+    await store.set('key1', 60000);
+
+    expect(await store.has('key1')).toBe(true);
+    expect(server.data.has('chat-notifier:idempotency:pending:key1')).toBe(false);
+    expect(await store.reserve('key1', 60000)).toBe(false);
+  });
+
+  it('should release reservations', async () => {
+    store = new RedisIdempotencyStore({ port });
+
+    await store.reserve('key1', 60000);
+    await store.release('key1');
+
+    expect(await store.reserve('key1', 60000)).toBe(true);
+  });
+
+  it('should send ttl as PX', async () => {
+    store = new RedisIdempotencyStore({ port, keyPrefix: 'test:' });
+
+    await store.set('key1', 1500);
+
+    expect(server.commands).toContainEqual(['SET', 'test:key1', '1', 'PX', '1500']);
+  });
+
+  it('should expire keys on the server', async () => {
+    store = new RedisIdempotencyStore({ port });
+
+    await store.set('key1', 20);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(await store.has('key1')).toBe(false);
+  });
+
+  it('should authenticate and select database from url', async () => {
+    server.password = 's3cr3t';
+    store = new RedisIdempotencyStore({ url: `redis://:s3cr3t@127.0.0.1:${port}/2` });
+
+    await store.set('key1', 60000);
+
+    expect(server.commands.slice(0, 2)).toEqual([
+      ['AUTH', 's3cr3t'],
+      ['SELECT', '2'],
+    ]);
+  });
+
+  it('should reject with RedisError on error replies', async () => {
+    server.password = 's3cr3t';
+    store = new RedisIdempotencyStore({ port });
+
+    await expect(store.has('key1')).rejects.toBeInstanceOf(RedisError);
+  });
+
+  it('should reconnect after the connection drops', async () => {
+    store = new RedisIdempotencyStore({ port });
+    await store.set('key1', 60000);
+
+    server.dropConnections();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(await store.has('key1')).toBe(true);
+  });
+
+  it('should not close an injected client', async () => {
+    const client = new RedisClient({ port });
+    store = new RedisIdempotencyStore({ client });
+
+    await store.set('key1', 60000);
+    await store.destroy();
+
+    expect(await client.command(['EXISTS', 'chat-notifier:idempotency:key1'])).toBe(1);
+    await client.quit();
+  });
+});
+
+describe('RESP encoding', () => {
+  it('should encode commands as arrays of bulk strings', () => {
+    expect(encodeCommand(['SET', 'ç', 10]).toString()).toBe(
+      '*3\r\n$3\r\nSET\r\n$2\r\nç\r\n$2\r\n10\r\n',
+    );
+  });
+
+  it('should parse nested and partial replies', () => {
+    const reply = Buffer.from('*2\r\n$3\r\nfoo\r\n*1\r\n:42\r\n$-1\r\n');
+
+    expect(parseReply(reply, 0)).toEqual({ value: ['foo', [42]], offset: 22 });
+    expect(parseReply(reply.subarray(0, 10), 0)).toBeUndefined();
+    expect(parseReply(Buffer.from('$-1\r\n'), 0)).toEqual({ value: null, offset: 5 });
+  });
+});
@@ -0,0 +1,92 @@
+import { Router } from '../../src/router';
+import type { RoutingRule } from '../../src/types';
+
+interface Alert {
+  event: string;
+  partner?: string;
+  severity?: string;
+  meta?: { region?: string };
+  count?: number;
+}
+
+describe('Router', () => {
+  const rules: Array<RoutingRule<Alert>> = [
+    { name: 'failures', when: { event: 'FAILED' }, webhooks: ['errors', 'oncall'] },
+    { name: 'acme', when: { partner: 'ACME' }, webhooks: 'partner-acme' },
+    { name: 'critical', when: { severity: ['high', 'critical'] }, webhooks: 'oncall' },
+    { name: 'br', when: { fields: { 'meta.region': 'br' } }, webhooks: 'ops-br' },
+    { name: 'fallback', webhooks: 'general' },
+  ];
+
+  describe('first-match', () => {
+    const router = new Router(rules);
+
+    it('should use the first matching rule', () => {
+      expect(router.resolve({ event: 'FAILED', partner: 'ACME' }, 'FAILED')).toEqual([
+        'errors',
+        'oncall',
+      ]);
+      expect(router.resolve({ event: 'UPLOADED', partner: 'ACME' }, 'UPLOADED')).toEqual([
+        'partner-acme',
+      ]);
+    });
+
+    it('should match severity lists and payload paths', () => {
+      expect(router.resolve({ event: 'X', severity: 'critical' }, 'X')).toEqual(['oncall']);
+      expect(router.resolve({ event: 'X', meta: { region: 'br' } }, 'X')).toEqual(['ops-br']);
+    });
+
+    it('should fall back to catch-all rules', () => {
+      expect(router.resolve({ event: 'X', severity: 'low' }, 'X')).toEqual(['general']);
+    });
+  });
+
+  describe('all-match', () => {
+    const router = new Router(rules, 'all-match');
+
+    it('should merge destinations of every matching rule without duplicates', () => {
+      expect(
+        router.resolve({ event: 'FAILED', partner: 'ACME', severity: 'high' }, 'FAILED'),
+      ).toEqual(['errors', 'oncall', 'partner-acme', 'general']);
+    });
+
+    it('should deduplicate webhook names case-insensitively', () => {
+      const caseRouter = new Router<Alert>(
+        [{ webhooks: ['Errors'] }, { webhooks: ['errors', 'ops'] }],
+        'all-match',
+      );
+
+      expect(caseRouter.resolve({ event: 'X' }, 'X')).toEqual(['Errors', 'ops']);
+    });
+  });
+
+  it('should require every condition of a rule', () => {
+    const router = new Router<Alert>([
+      {
+        when: { event: 'FAILED', partner: 'ACME', fields: { count: [1, 2] } },
+        webhooks: 'acme-failures',
+      },
+    ]);
+
+    expect(router.resolve({ event: 'FAILED', partner: 'ACME', count: 2 }, 'FAILED')).toEqual([
+      'acme-failures',
+    ]);
+    expect(router.resolve({ event: 'FAILED', partner: 'ACME', count: 3 }, 'FAILED')).toEqual([]);
+    expect(router.resolve({ event: 'FAILED', partner: 'OTHER', count: 1 }, 'FAILED')).toEqual([]);
+  });
+
+  it('should support custom predicates', () => {
+    const router = new Router<Alert>([
+      { when: { test: (alert) => (alert.count ?? 0) > 10 }, webhooks: 'bulk' },
+    ]);
+
+    expect(router.resolve({ event: 'X', count: 11 }, 'X')).toEqual(['bulk']);
+    expect(router.resolve({ event: 'X', count: 1 }, 'X')).toEqual([]);
+  });
+
+  it('should reject rules without webhooks', () => {
+    expect(() => new Router([{ name: 'empty', webhooks: [] }])).toThrow(
+      "Routing rule 'empty' has no webhooks",
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EnvSecretsProvider, FileSecretsProvider, SecretsCache } from '../../src/secrets';
+
+describe('secrets providers', () => {
+  describe('EnvSecretsProvider', () => {
+    it('should read CHAT_WEBHOOK_TOKEN and CHAT_WEBHOOK_<NAME>_TOKEN', async () => {
+      const env = { CHAT_WEBHOOK_TOKEN: 'default', CHAT_WEBHOOK_ERRORS_TOKEN: ' errors\n' };
+      const provider = new EnvSecretsProvider({ env });
+
+      expect(await provider.getToken('default')).toBe('default');
+      expect(await provider.getToken('errors')).toBe('errors');
+      expect(await provider.getToken('reports')).toBeUndefined();
+
+      env.CHAT_WEBHOOK_ERRORS_TOKEN = 'rotated';
+      expect(await provider.getToken('errors')).toBe('rotated');
+    });
+  });
+
+  describe('FileSecretsProvider', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(join(tmpdir(), 'chat-notifier-secrets-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should read chat_<name>_token files on every lookup', async () => {
+      const provider = new FileSecretsProvider({ dir });
+      await fs.writeFile(join(dir, 'chat_errors_token'), 'first\n');
+
+      expect(await provider.getToken('errors')).toBe('first');
+
+      await fs.writeFile(join(dir, 'chat_errors_token'), 'second\n');
+      expect(await provider.getToken('errors')).toBe('second');
+      expect(await provider.getToken('default')).toBeUndefined();
+    });
+
+    it('should use explicit files per webhook', async () => {
+      const path = join(dir, 'reports.secret');
+      await fs.writeFile(path, 'reports');
+
+      const provider = new FileSecretsProvider({ dir, files: { Reports: path } });
+
+      expect(await provider.getToken('reports')).toBe('reports');
+      await expect(new FileSecretsProvider({ files: { x: dir } }).getToken('x')).rejects.toThrow(
+        'EISDIR',
+      );
+    });
+  });
+
+  describe('SecretsCache', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should reuse tokens until the refresh interval expires', async () => {
+      const getToken = jest.fn().mockResolvedValueOnce('a').mockResolvedValueOnce('b');
+      const cache = new SecretsCache({ getToken }, 1000);
+
+      expect(await Promise.all([cache.get('errors'), cache.get('errors')])).toEqual(['a', 'a']);
+      expect(getToken).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(1000);
+      expect(await cache.get('errors')).toBe('b');
+    });
+
+    it('should refresh on demand and not cache failures', async () => {
+      const getToken = jest
+        .fn()
+        .mockResolvedValueOnce('a')
+        .mockRejectedValueOnce(new Error('vault down'))
+        .mockResolvedValueOnce('c');
+      const cache = new SecretsCache({ getToken });
+
+      expect(await cache.get('errors')).toBe('a');
+      await expect(cache.refresh('errors')).rejects.toThrow('vault down');
+      expect(await cache.get('errors')).toBe('c');
+    });
+  });
+});
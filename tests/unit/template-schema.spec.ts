@@ -0,0 +1,366 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TemplateSchema, validateTemplateDefinition } from '../../src/schemas/template-schema';
+import type { TemplateDefinition } from '../../src/schemas/template-schema';
+import { TemplateDefinitionError } from '../../src/errors';
+import { NotifierImpl } from '../../src/notifier';
+import { RecordingTransport } from '../../src/transports/recording-transport';
+import { sha1 } from '../../src/utils/crypto';
+
+// Default transport is never used: the notifier here gets a RecordingTransport
+jest.mock('node-fetch', () => jest.fn());
+
+describe('TemplateSchema', () => {
+  const definition: TemplateDefinition = {
+    name: 'deploy',
+    header: { title: '{{emoji}} {{event}}', subtitle: '{{payload.service}}' },
+    emoji: { success: '✅', failed: '🔥' },
+    sections: [
+      {
+        header: 'Detalhes',
+        widgets: [
+          { field: { label: 'Versão', value: '{{payload.version}}' } },
+          { text: 'Autor: {{payload.author.name}}', if: 'payload.author' },
+          { text: 'Sem autor', unless: 'payload.author' },
+          {
+            buttons: [{ text: 'Pipeline', url: '{{payload.pipelineUrl}}' }],
+            if: 'payload.pipelineUrl',
+          },
+        ],
+      },
+      {
+        header: 'Erro',
+        if: 'payload.error',
+        widgets: [{ text: '{{payload.error}}' }],
+      },
+    ],
+    importantEvents: ['failed'],
+    idempotencyKey: ['payload.service', 'version', 'event'],
+    webhookField: 'channel',
+    threadKey: 'deploy-{{payload.service}}',
+  };
+
+  const payload = {
+    event: 'success',
+    service: 'api',
+    version: 'v2.4.1',
+    author: { name: 'Ana' },
+    channel: 'deploys',
+  };
+
+  function expectDefinitionError(action: () => unknown): TemplateDefinitionError {
+    let error: unknown;
+    try {
+      action();
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(TemplateDefinitionError);
+    return error as TemplateDefinitionError;
+  }
+
+  describe('buildCard', () => {
+    it('should render placeholders and conditional widgets', () => {
+      const schema = new TemplateSchema(definition);
+      const { card } = schema.buildCard(payload, { maxMessage: 1000 }).cardsV2[0];
+
+      expect(card.header).toEqual({ title: '✅ success', subtitle: 'api' });
+      expect(card.sections).toEqual([
+        {
+          header: 'Detalhes',
+          widgets: [
+            { decoratedText: { topLabel: 'Versão', text: 'v2.4.1', wrapText: true } },
+            { textParagraph: { text: 'Autor: Ana' } },
+          ],
+        },
+      ]);
+    });
+
+    it('should render missing values as empty and drop empty sections', () => {
+      const schema = new TemplateSchema(definition);
+      const { card } = schema.buildCard(
+        { event: 'deployed', error: 'timeout', pipelineUrl: 'https://ci.io/1' },
+        { maxMessage: 1000 },
+      ).cardsV2[0];
+
+      expect(card.header).toEqual({ title: ' deployed' });
+      expect(card.sections.map((section) => section.widgets.length)).toEqual([3, 1]);
+      expect(card.sections[0].widgets[0]).toEqual({
+        decoratedText: { topLabel: 'Versão', text: '', wrapText: true },
+      });
+      expect(card.sections[0].widgets[1]).toEqual({ textParagraph: { text: 'Sem autor' } });
+    });
+
+    it('should truncate long texts to maxMessage', () => {
+      const schema = new TemplateSchema(definition);
+      const { card } = schema.buildCard(
+        { event: 'failed', error: 'x'.repeat(200) },
+        { maxMessage: 50 },
+      ).cardsV2[0];
+
+      const [widget] = card.sections[1].widgets as Array<{ textParagraph: { text: string } }>;
+      expect(widget.textParagraph.text.length).toBeLessThanOrEqual(50);
+    });
+
+    it('should read the event from a custom field', () => {
+      const schema = new TemplateSchema({ ...definition, eventField: 'meta.status' });
+
+      expect(schema.getEvent({ meta: { status: 'failed' } })).toBe('failed');
+      expect(schema.getEvent({ event: 'failed' })).toBeUndefined();
+    });
+  });
+
+  describe('routing and deduplication', () => {
+    it('should filter events not listed as important', () => {
+      const schema = new TemplateSchema(definition);
+
+      expect(schema.isImportantEvent('failed')).toBe(true);
+      expect(schema.isImportantEvent('success')).toBe(false);
+      expect(
+        new TemplateSchema({ ...definition, importantEvents: undefined }).isImportantEvent('x'),
+      ).toBe(true);
+    });
+
+    it('should derive the idempotency key from the configured fields', () => {
+      const schema = new TemplateSchema(definition);
+
+      expect(schema.getIdempotencyKey(payload)).toBe(sha1('deploy:api:v2.4.1:success'));
+      expect(schema.getIdempotencyKey({ ...payload, author: { name: 'Bia' } })).toBe(
+        schema.getIdempotencyKey(payload),
+      );
+      expect(
+        new TemplateSchema({ ...definition, idempotencyKey: undefined }).getIdempotencyKey(payload),
+      ).toBe(undefined);
+    });
+
+    it('should resolve webhook and thread key from the payload', () => {
+      const schema = new TemplateSchema(definition);
+
+      expect(schema.getWebhookName(payload)).toBe('deploys');
+      expect(schema.getWebhookName({ event: 'success' })).toBeUndefined();
+      expect(schema.getThreadKey(payload)).toBe('deploy-api');
+      expect(new TemplateSchema({ ...definition, webhookNames: ['deploys'] }).webhookNames).toEqual([
+        'deploys',
+      ]);
+    });
+  });
+
+  describe('validation', () => {
+    it('should accept a valid definition', () => {
+      expect(validateTemplateDefinition(definition)).toEqual([]);
+    });
+
+    it('should report every issue with its path', () => {
+      const issues = validateTemplateDefinition({
+        name: '',
+        header: { titel: 'Deploy' },
+        sections: [
+          {
+            widgets: [
+              { text: 'a', field: { value: 'b' } },
+              { field: { label: 'x' } },
+              { text: '{{payload}}', if: 'payload.' },
+              { divider: 'yes' },
+              {},
+            ],
+          },
+          { widgets: [] },
+        ],
+        importantEvents: 'failed',
+        retries: 3,
+      });
+
+      expect(issues).toEqual([
+        { path: 'retries', message: 'is not a known property' },
+        { path: 'name', message: 'must be a non-empty string' },
+        { path: 'importantEvents', message: 'must be a non-empty list of strings' },
+        { path: 'header.titel', message: 'is not a known property' },
+        { path: 'header.title', message: 'is required' },
+        {
+          path: 'sections[0].widgets[0]',
+          message:
+            'must have exactly one widget type (found text, field; expected one of text, field, buttons, image, divider)',
+        },
+        { path: 'sections[0].widgets[1].field.value', message: 'is required' },
+        {
+          path: 'sections[0].widgets[2].if',
+          message: "must be an expression like 'payload.<field>', 'event' or 'emoji'",
+        },
+        {
+          path: 'sections[0].widgets[2].text',
+          message:
+            "has invalid placeholder '{{payload}}' (use {{payload.<field>}}, {{event}} or {{emoji}})",
+        },
+        { path: 'sections[0].widgets[3].divider', message: 'must be true' },
+        {
+          path: 'sections[0].widgets[4]',
+          message:
+            'must have exactly one widget type (found none; expected one of text, field, buttons, image, divider)',
+        },
+        { path: 'sections[1].widgets', message: 'must contain at least one widget' },
+      ]);
+    });
+
+    it('should throw a TemplateDefinitionError from the constructor', () => {
+      const error = expectDefinitionError(
+        () => new TemplateSchema({ ...definition, sections: [] }),
+      );
+
+      expect(error.issues).toEqual([
+        { path: 'sections', message: 'must contain at least one section' },
+      ]);
+      expect(error.message).toBe(
+        'Invalid template definition: sections must contain at least one section',
+      );
+    });
+  });
+
+  describe('fromDefinition', () => {
+    it('should validate untyped values', () => {
+      expect(TemplateSchema.fromDefinition(JSON.parse(JSON.stringify(definition))).name).toBe(
+        'deploy',
+      );
+
+      const error = expectDefinitionError(() =>
+        TemplateSchema.fromDefinition(null, 'db:templates/1'),
+      );
+      expect(error.message).toBe(
+        'Invalid template definition in db:templates/1: definition must be an object',
+      );
+    });
+  });
+
+  describe('fromFile', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(join(tmpdir(), 'chat-notifier-template-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should load a YAML definition', async () => {
+      const path = join(dir, 'deploy.yaml');
+      await fs.writeFile(
+        path,
+        [
+          'name: deploy',
+          'header:',
+          '  title: "{{emoji}} Deploy {{payload.service}}"',
+          'emoji:',
+          '  success: ✅',
+          'sections:',
+          '  - widgets:',
+          '      - field: { label: Versão, value: "{{payload.version}}" }',
+          'importantEvents: [failed, success]',
+        ].join('\n'),
+      );
+
+      const schema = TemplateSchema.fromFile(path);
+      const { card } = schema.buildCard(payload, { maxMessage: 1000 }).cardsV2[0];
+
+      expect(schema.name).toBe('deploy');
+      expect(card.header).toEqual({ title: '✅ Deploy api' });
+      expect(card.sections[0].widgets).toEqual([
+        { decoratedText: { topLabel: 'Versão', text: 'v2.4.1', wrapText: true } },
+      ]);
+    });
+
+    it('should load a JSON definition', async () => {
+      const path = join(dir, 'deploy.json');
+      await fs.writeFile(path, JSON.stringify(definition));
+
+      expect(TemplateSchema.fromFile(path).getThreadKey(payload)).toBe('deploy-api');
+    });
+
+    it('should name the file and the path of invalid definitions', async () => {
+      const path = join(dir, 'deploy.yml');
+      await fs.writeFile(
+        path,
+        'name: deploy\nheader:\n  title: Deploy\nsections:\n  - widgets:\n      - txt: hi\n',
+      );
+
+      const error = expectDefinitionError(() => TemplateSchema.fromFile(path));
+
+      expect(error.source).toBe(path);
+      expect(error.message).toBe(
+        `Invalid template definition in ${path}: sections[0].widgets[0].txt is not a widget type ` +
+          '(expected one of text, field, buttons, image, divider)',
+      );
+    });
+
+    it('should report YAML and JSON syntax errors', async () => {
+      const yaml = join(dir, 'broken.yaml');
+      const json = join(dir, 'broken.json');
+      await fs.writeFile(yaml, 'name: deploy\nname: again\n');
+      await fs.writeFile(json, '{ "name": ');
+
+      expect(expectDefinitionError(() => TemplateSchema.fromFile(yaml)).issues).toEqual([
+        { path: 'line 2', message: "duplicate key 'name'" },
+      ]);
+      expect(expectDefinitionError(() => TemplateSchema.fromFile(json)).issues[0].message).toMatch(
+        /^is not valid JSON/,
+      );
+    });
+
+    it('should reject unsupported extensions', async () => {
+      const path = join(dir, 'deploy.toml');
+      await fs.writeFile(path, 'name = "deploy"');
+
+      expect(expectDefinitionError(() => TemplateSchema.fromFile(path)).issues).toEqual([
+        { path: 'file', message: "has unsupported extension '.toml' (use .json, .yaml or .yml)" },
+      ]);
+    });
+
+    it('should report files that cannot be read', () => {
+      const missing = join(dir, 'missing.yaml');
+
+      const error = expectDefinitionError(() => TemplateSchema.fromFile(missing));
+
+      expect(error.source).toBe(missing);
+      expect(error.issues).toEqual([{ path: 'file', message: 'was not found' }]);
+      expect(expectDefinitionError(() => TemplateSchema.fromFile(dir)).issues).toEqual([
+        { path: 'file', message: 'could not be read (EISDIR)' },
+      ]);
+    });
+  });
+
+  describe('with the notifier', () => {
+    const originalEnv = process.env;
+
+    afterAll(() => {
+      process.env = originalEnv;
+    });
+
+    it('should filter, route and deduplicate by the definition', async () => {
+      process.env = {
+        ...originalEnv,
+        CHAT_WEBHOOK_URL: 'https://chat.googleapis.com/v1/spaces/A/messages',
+      };
+      const transport = new RecordingTransport();
+      const notifier = new NotifierImpl(new TemplateSchema(definition), {
+        transport,
+        level: 'important',
+        webhooks: { deploys: 'https://chat.googleapis.com/v1/spaces/DEPLOYS/messages' },
+        retryBaseMs: 1,
+      });
+
+      try {
+        expect(await notifier.notify(payload)).toEqual({ status: 'filtered' });
+
+        const failed = { ...payload, event: 'failed' };
+        expect((await notifier.notify(failed)).status).toBe('sent');
+        expect((await notifier.notify(failed)).status).toBe('duplicate');
+
+        expect(transport.requests).toHaveLength(1);
+        expect(transport.requests[0].webhookName).toBe('deploys');
+        expect(transport.requests[0].payload.thread).toEqual({ threadKey: 'deploy-api' });
+      } finally {
+        await notifier.destroy();
+      }
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { TombamentoSchema } from '../../src/schemas/tombamento-schema';
 import { TombamentoPayload } from '../../src/types';
+import { generateThreadKey } from '../../src/utils/crypto';
 
 describe('TombamentoSchema', () => {
   let schema: TombamentoSchema;
@@ -57,6 +58,25 @@ describe('TombamentoSchema', () => {
       expect(countsWidget).toBeDefined();
     });
 
+    it('should render one text paragraph per field', () => {
+      const payload: TombamentoPayload = {
+        event: 'UPLOADED',
+        partner: 'ACME',
+        bucket: 'exa-teste',
+        object: 'exa/file.csv',
+        ts: '2025-10-24T10:00:00Z',
+      };
+
+      const card = schema.buildCard(payload, { maxMessage: 800 });
+
+      expect(card.cardsV2[0].card.sections[0].widgets).toEqual([
+        { textParagraph: { text: '<b>Parceiro:</b> ACME' } },
+        { textParagraph: { text: '<b>Arquivo:</b> exa/file.csv' } },
+        { textParagraph: { text: '<b>Etapa:</b> UPLOADED' } },
+        { textParagraph: { text: '<b>Data/Hora:</b> 2025-10-24T10:00:00Z' } },
+      ]);
+    });
+
     it('should truncate long messages', () => {
       const longMessage = 'A'.repeat(1000);
       const payload: TombamentoPayload = {
@@ -137,6 +157,51 @@ describe('TombamentoSchema', () => {
     });
   });
 
+  describe('getThreadKey', () => {
+    it('should derive thread key from bucket and object', () => {
+      const key = schema.getThreadKey?.({
+        event: 'UPLOADED',
+        partner: 'ACME',
+        bucket: 'my-bucket',
+        object: 'file.csv',
+      });
+
+      expect(key).toBe(generateThreadKey('my-bucket', 'file.csv'));
+    });
+
+    it('should keep the same thread across events of the same file', () => {
+      const basePayload = {
+        partner: 'ACME',
+        bucket: 'bucket',
+        object: 'file.csv',
+      };
+
+      const uploaded = schema.getThreadKey?.({ ...basePayload, event: 'UPLOADED' });
+      const processing = schema.getThreadKey?.({ ...basePayload, event: 'PROCESSING' });
+      const processed = schema.getThreadKey?.({ ...basePayload, event: 'PROCESSED' });
+
+      expect(processing).toBe(uploaded);
+      expect(processed).toBe(uploaded);
+    });
+
+    it('should use different threads for different files', () => {
+      const key1 = schema.getThreadKey?.({
+        event: 'UPLOADED',
+        partner: 'ACME',
+        bucket: 'bucket',
+        object: 'a.csv',
+      });
+      const key2 = schema.getThreadKey?.({
+        event: 'UPLOADED',
+        partner: 'ACME',
+        bucket: 'bucket',
+        object: 'b.csv',
+      });
+
+      expect(key1).not.toBe(key2);
+    });
+  });
+
   describe('getIdempotencyKey', () => {
     it('should generate unique key per event+file combination', () => {
       const payload: TombamentoPayload = {
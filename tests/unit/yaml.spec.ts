@@ -0,0 +1,91 @@
+import { YamlSyntaxError } from '../../src/errors';
+import { parseYaml } from '../../src/utils/yaml';
+
+describe('parseYaml', () => {
+  it('should parse nested maps, lists and scalars', () => {
+    const source = [
+      '---',
+      '# deploy notifications',
+      'name: deploy',
+      'retries: 3',
+      'ratio: 0.5',
+      'enabled: true',
+      'owner: ~',
+      'header:',
+      '  title: "{{emoji}} Deploy #{{payload.id}}" # quoted: # is not a comment',
+      "  subtitle: 'it''s {{payload.service}}'",
+      'tags: [api, "web app", 42]',
+      'emoji: { success: ✅, failed: 🔥 }',
+      'events:',
+      '- success',
+      '- failed',
+      'sections:',
+      '  - header: Details',
+      '    widgets:',
+      '      - text: It works',
+      '      - field: { label: Version, value: v1 }',
+      '  - widgets:',
+      '      - divider: true',
+    ].join('\n');
+
+    expect(parseYaml(source)).toEqual({
+      name: 'deploy',
+      retries: 3,
+      ratio: 0.5,
+      enabled: true,
+      owner: null,
+      header: { title: '{{emoji}} Deploy #{{payload.id}}', subtitle: "it's {{payload.service}}" },
+      tags: ['api', 'web app', 42],
+      emoji: { success: '✅', failed: '🔥' },
+      events: ['success', 'failed'],
+      sections: [
+        {
+          header: 'Details',
+          widgets: [{ text: 'It works' }, { field: { label: 'Version', value: 'v1' } }],
+        },
+        { widgets: [{ divider: true }] },
+      ],
+    });
+  });
+
+  it('should parse block scalars', () => {
+    const source = [
+      'literal: |',
+      '  line 1',
+      '  line 2',
+      '',
+      'folded: >-',
+      '  one',
+      '  two',
+      'after: ok',
+    ].join('\n');
+
+    expect(parseYaml(source)).toEqual({
+      literal: 'line 1\nline 2\n',
+      folded: 'one two',
+      after: 'ok',
+    });
+  });
+
+  it('should return undefined for empty documents', () => {
+    expect(parseYaml('# nothing here\n')).toBeUndefined();
+  });
+
+  it.each([
+    ['a: 1\na: 2', 2, "duplicate key 'a'"],
+    ['a:\n\tb: 1', 2, 'tabs are not allowed for indentation'],
+    ['a: [1, 2', 1, "unterminated inline collection (missing ']')"],
+    ['a: 1\n  b: 2', 2, 'unexpected content (check the indentation)'],
+    ['a: "open', 1, 'unterminated string'],
+  ])('should report syntax errors with the line number (%j)', (source, line, reason) => {
+    let error: unknown;
+    try {
+      parseYaml(source);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(YamlSyntaxError);
+    expect(error).toMatchObject({ line, reason });
+  });
+});